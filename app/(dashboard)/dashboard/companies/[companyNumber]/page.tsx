@@ -29,8 +29,17 @@ import {
   ExternalLink,
   Download,
   Share,
-  Bookmark
+  Bookmark,
+  Clock
 } from 'lucide-react';
+import type {
+  ChargesSummary,
+  FilingCategory,
+  FilingHistoryItem,
+  InsolvencySummary,
+  UltimateOwnershipResult
+} from '@/lib/companies-house/types';
+import { BeneficialOwnersPanel } from '@/components/network/beneficial-owners-panel';
 
 interface CompanyDetails {
   company_name: string;
@@ -43,6 +52,8 @@ interface CompanyDetails {
   sic_codes?: string[];
   accounts?: any;
   confirmation_statement?: any;
+  has_charges?: boolean;
+  has_insolvency_history?: boolean;
   links?: any;
 }
 
@@ -54,10 +65,11 @@ interface AIInsight {
   market_position: string;
   financial_health: string;
   growth_potential: string;
-  competitive_advantage: string[];
+  opportunities: string[];
   recommendations: string[];
   last_updated: string;
   confidence_score: number;
+  degraded: boolean; // Output failed schema validation, or is the offline placeholder
 }
 
 export default function CompanyDetailPage() {
@@ -71,6 +83,17 @@ export default function CompanyDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [loadingAI, setLoadingAI] = useState(false);
+  const [filings, setFilings] = useState<FilingHistoryItem[] | null>(null);
+  const [loadingFilings, setLoadingFilings] = useState(false);
+  const [filingsError, setFilingsError] = useState<string | null>(null);
+  const [filingCategory, setFilingCategory] = useState<FilingCategory | 'all'>('all');
+  const [charges, setCharges] = useState<ChargesSummary | null>(null);
+  const [loadingCharges, setLoadingCharges] = useState(false);
+  const [chargesError, setChargesError] = useState<string | null>(null);
+  const [insolvency, setInsolvency] = useState<InsolvencySummary | null>(null);
+  const [ownership, setOwnership] = useState<UltimateOwnershipResult | null>(null);
+  const [loadingOwnership, setLoadingOwnership] = useState(false);
+  const [ownershipError, setOwnershipError] = useState<string | null>(null);
 
   useEffect(() => {
     if (companyNumber) {
@@ -79,6 +102,30 @@ export default function CompanyDetailPage() {
     }
   }, [companyNumber]);
 
+  useEffect(() => {
+    if (companyNumber && activeTab === 'filings') {
+      fetchFilingHistory();
+    }
+  }, [companyNumber, activeTab, filingCategory]);
+
+  useEffect(() => {
+    if (company?.has_insolvency_history) {
+      fetchInsolvency();
+    }
+  }, [company?.company_number]);
+
+  useEffect(() => {
+    if (companyNumber && activeTab === 'financials' && !charges) {
+      fetchCharges();
+    }
+  }, [companyNumber, activeTab]);
+
+  useEffect(() => {
+    if (companyNumber && activeTab === 'officers' && !ownership) {
+      fetchOwnership();
+    }
+  }, [companyNumber, activeTab]);
+
   const fetchCompanyDetails = async () => {
     try {
       setLoading(true);
@@ -97,52 +144,113 @@ export default function CompanyDetailPage() {
     }
   };
 
+  const fetchFilingHistory = async () => {
+    try {
+      setLoadingFilings(true);
+      setFilingsError(null);
+
+      const query = filingCategory === 'all' ? '' : `?category=${filingCategory}`;
+      const response = await fetch(`/api/companies/${companyNumber}/filings${query}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch filing history');
+      }
+
+      const data = await response.json();
+      setFilings(data.items || []);
+    } catch (err) {
+      setFilingsError(err instanceof Error ? err.message : 'Failed to load filing history');
+    } finally {
+      setLoadingFilings(false);
+    }
+  };
+
+  const fetchCharges = async () => {
+    try {
+      setLoadingCharges(true);
+      setChargesError(null);
+
+      const response = await fetch(`/api/companies/${companyNumber}/charges`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch charges register');
+      }
+
+      const data = await response.json();
+      setCharges(data.summary);
+    } catch (err) {
+      setChargesError(err instanceof Error ? err.message : 'Failed to load charges register');
+    } finally {
+      setLoadingCharges(false);
+    }
+  };
+
+  const fetchOwnership = async () => {
+    try {
+      setLoadingOwnership(true);
+      setOwnershipError(null);
+
+      const response = await fetch(`/api/companies/${companyNumber}/beneficial-owners`);
+
+      if (!response.ok) {
+        throw new Error('Failed to resolve beneficial owners');
+      }
+
+      setOwnership(await response.json());
+    } catch (err) {
+      setOwnershipError(err instanceof Error ? err.message : 'Failed to resolve beneficial owners');
+    } finally {
+      setLoadingOwnership(false);
+    }
+  };
+
+  const fetchInsolvency = async () => {
+    try {
+      const response = await fetch(`/api/companies/${companyNumber}/insolvency`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch insolvency history');
+      }
+
+      const data = await response.json();
+      setInsolvency(data.summary);
+    } catch (err) {
+      console.warn('Failed to load insolvency history:', err);
+    }
+  };
+
   const generateAIInsight = async () => {
     if (!company) return;
     
     try {
       setLoadingAI(true);
       
-      // Call OpenRouter AI insights API
+      // Same insight, provider and risk score as every other page for this company
       const response = await fetch('/api/ai/insights', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          company: {
-            company_name: company.company_name,
-            company_number: company.company_number,
-            company_status: company.company_status,
-            company_type: company.type,
-            date_of_creation: company.date_of_creation,
-            registered_address: company.registered_office_address ? [
-              company.registered_office_address.premises,
-              company.registered_office_address.address_line_1,
-              company.registered_office_address.locality,
-              company.registered_office_address.postal_code
-            ].filter(Boolean).join(', ') : undefined,
-            sic_codes: company.sic_codes
-          }
-        })
+        body: JSON.stringify({ companyNumber: company.company_number })
       });
 
       if (response.ok) {
-        const aiInsightData = await response.json();
-        console.log(`✅ OpenRouter AI detailed insight generated for ${company.company_name}`);
+        const { insights } = await response.json();
+        console.log(`✅ AI detailed insight generated for ${company.company_name} (${insights.provider})`);
         
         const insight: AIInsight = {
-          risk_score: aiInsightData.risk_score,
-          business_summary: aiInsightData.business_summary,
-          key_strengths: aiInsightData.key_strengths,
-          potential_risks: aiInsightData.potential_risks,
-          market_position: aiInsightData.market_position,
-          financial_health: aiInsightData.financial_health || 'Stable',
-          growth_potential: aiInsightData.growth_potential || 'Moderate',
-          competitive_advantage: aiInsightData.competitive_advantage || ['Market expertise', 'Operational knowledge'],
-          recommendations: aiInsightData.recommendations || ['Monitor compliance', 'Assess market position'],
-          last_updated: aiInsightData.last_updated,
-          confidence_score: aiInsightData.confidence_score
+          risk_score: insights.riskScore,
+          business_summary: insights.summary,
+          key_strengths: insights.strengths,
+          potential_risks: insights.riskFactors.map((factor: { risk: string }) => factor.risk),
+          market_position: insights.marketPosition,
+          financial_health: insights.financialHealth,
+          growth_potential: insights.growthPotential,
+          opportunities: insights.opportunities,
+          recommendations: insights.recommendations,
+          last_updated: insights.generatedAt,
+          confidence_score: insights.confidence,
+          degraded: insights.validation?.status === 'failed'
         };
         
         setAIInsight(insight);
@@ -172,7 +280,7 @@ export default function CompanyDetailPage() {
         market_position: "Established Market Player",
         financial_health: company.company_status === 'active' ? "Stable" : "Uncertain",
         growth_potential: company.company_status === 'active' ? "Moderate" : "Limited",
-        competitive_advantage: [
+        opportunities: [
           "Operational expertise",
           "Market knowledge",
           "Business experience"
@@ -184,7 +292,8 @@ export default function CompanyDetailPage() {
           "Strengthen competitive advantages"
         ],
         last_updated: new Date().toISOString(),
-        confidence_score: 85 + Math.floor(Math.random() * 10)
+        confidence_score: 85 + Math.floor(Math.random() * 10),
+        degraded: true
       };
       
       setAIInsight(mockInsight);
@@ -228,6 +337,23 @@ export default function CompanyDetailPage() {
     }
   };
 
+  const formatFilingDescription = (filing: FilingHistoryItem) => {
+    const text = filing.description.replace(/-/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  };
+
+  // Accounts are due 9 months after the period end for private companies, 6 months for PLCs
+  const isLateAccountsFiling = (filing: FilingHistoryItem) => {
+    if (filing.category !== 'accounts' || !filing.action_date || !company) return false;
+
+    const deadline = new Date(filing.action_date);
+    deadline.setMonth(deadline.getMonth() + (company.type === 'plc' ? 6 : 9));
+    return new Date(filing.date) > deadline;
+  };
+
+  const isRegisteredOfficeChange = (filing: FilingHistoryItem) =>
+    filing.category === 'address' && filing.type === 'AD01';
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -334,6 +460,9 @@ export default function CompanyDetailPage() {
             <div className="text-right">
               <div className="text-xs text-gray-500 uppercase tracking-wide">AI Risk Assessment</div>
               <div className="text-lg font-bold text-gray-900">{aiInsight.risk_score}/100</div>
+              {aiInsight.degraded && (
+                <div className="text-xs font-medium text-amber-700">Degraded - not for reporting</div>
+              )}
             </div>
             <div className={`w-12 h-12 rounded-full flex items-center justify-center border-2 ${getRiskScoreColor(aiInsight.risk_score)} font-bold text-xs`}>
               {getRiskLabel(aiInsight.risk_score)}
@@ -351,9 +480,10 @@ export default function CompanyDetailPage() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="ai-insights">AI Insights</TabsTrigger>
+          <TabsTrigger value="filings">Filings</TabsTrigger>
           <TabsTrigger value="financials">Financials</TabsTrigger>
           <TabsTrigger value="officers">Officers</TabsTrigger>
           <TabsTrigger value="network">Network</TabsTrigger>
@@ -425,6 +555,40 @@ export default function CompanyDetailPage() {
                   )}
                 </CardContent>
               </Card>
+
+              {insolvency && insolvency.caseCount > 0 && (
+                <Card className="border-red-200">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2 text-red-700">
+                      <AlertCircle className="h-5 w-5" />
+                      <span>Insolvency History</span>
+                      {insolvency.hasActiveCase && (
+                        <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">Ongoing</Badge>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {insolvency.cases.map((insolvencyCase) => (
+                      <div key={insolvencyCase.number} className="text-sm p-3 bg-red-50 rounded-lg border border-red-100">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-red-900">{insolvencyCase.label}</span>
+                          <span className="text-xs text-gray-600">Case {insolvencyCase.number}</span>
+                        </div>
+                        <p className="text-gray-700 mt-1">
+                          {insolvencyCase.startDate ? formatDate(insolvencyCase.startDate) : 'Start date unknown'}
+                          {' – '}
+                          {insolvencyCase.active ? 'ongoing' : insolvencyCase.endDate ? formatDate(insolvencyCase.endDate) : 'end date unknown'}
+                        </p>
+                        {insolvencyCase.practitioners.length > 0 && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            Practitioners: {insolvencyCase.practitioners.map(p => p.name).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Quick Actions */}
@@ -483,9 +647,19 @@ export default function CompanyDetailPage() {
                     <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
                       {aiInsight.confidence_score}% confidence
                     </Badge>
+                    {aiInsight.degraded && (
+                      <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                        Degraded
+                      </Badge>
+                    )}
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {aiInsight.degraded && (
+                    <p className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                      This analysis could not be validated against the required format, so some fields are placeholders. Do not use it in reports.
+                    </p>
+                  )}
                   <p className="text-gray-700 leading-relaxed">{aiInsight.business_summary}</p>
                 </CardContent>
               </Card>
@@ -565,19 +739,181 @@ export default function CompanyDetailPage() {
           )}
         </TabsContent>
 
+        {/* Filing History Tab */}
+        <TabsContent value="filings" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <Clock className="h-5 w-5" />
+                  <span>Filing History</span>
+                </CardTitle>
+                <select
+                  value={filingCategory}
+                  onChange={(e) => setFilingCategory(e.target.value as FilingCategory | 'all')}
+                  className="text-sm border rounded-md px-2 py-1"
+                >
+                  <option value="all">All categories</option>
+                  <option value="accounts">Accounts</option>
+                  <option value="address">Registered office</option>
+                  <option value="confirmation-statement">Confirmation statements</option>
+                  <option value="officers">Officers</option>
+                  <option value="persons-with-significant-control">PSCs</option>
+                  <option value="capital">Capital</option>
+                  <option value="mortgage">Charges</option>
+                  <option value="insolvency">Insolvency</option>
+                  <option value="change-of-name">Change of name</option>
+                </select>
+              </div>
+              {filings && (
+                <CardDescription>
+                  {filings.filter(isLateAccountsFiling).length} late accounts filing(s) •{' '}
+                  {filings.filter(isRegisteredOfficeChange).length} registered office change(s)
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              {loadingFilings ? (
+                <div className="flex items-center space-x-2 text-blue-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span className="text-sm">Loading filing history...</span>
+                </div>
+              ) : filingsError ? (
+                <div className="flex items-center space-x-2 text-red-700">
+                  <AlertCircle className="h-4 w-4" />
+                  <span className="text-sm">{filingsError}</span>
+                </div>
+              ) : filings && filings.length > 0 ? (
+                <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                  {filings.map((filing) => (
+                    <li key={filing.transaction_id} className="ml-4">
+                      <div className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 ${
+                        isLateAccountsFiling(filing) ? 'bg-red-500' :
+                        isRegisteredOfficeChange(filing) ? 'bg-yellow-500' :
+                        'bg-gray-300'
+                      }`}></div>
+                      <div className="flex items-center space-x-2 text-xs text-gray-500">
+                        <Calendar className="h-3 w-3" />
+                        <span>{formatDate(filing.date)}</span>
+                        <Badge variant="outline" className="text-xs">{filing.category.replace(/-/g, ' ')}</Badge>
+                        <span className="font-mono">{filing.type}</span>
+                      </div>
+                      <p className="text-sm text-gray-900 mt-1">{formatFilingDescription(filing)}</p>
+                      {isLateAccountsFiling(filing) && (
+                        <Badge variant="outline" className="mt-1 text-xs bg-red-100 text-red-800 border-red-200">
+                          Filed late (made up to {formatDate(filing.action_date!)})
+                        </Badge>
+                      )}
+                      {isRegisteredOfficeChange(filing) && (
+                        <Badge variant="outline" className="mt-1 text-xs bg-yellow-100 text-yellow-800 border-yellow-200">
+                          Registered office changed
+                        </Badge>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-gray-600">No filings found for this selection.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Other tabs placeholder */}
-        <TabsContent value="financials">
+        <TabsContent value="financials" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Financial Information</CardTitle>
+              <CardTitle className="flex items-center space-x-2">
+                <Shield className="h-5 w-5" />
+                <span>Outstanding Charges</span>
+              </CardTitle>
+              <CardDescription>Secured lending registered at Companies House</CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-gray-600">Financial data and analysis coming soon...</p>
+              {loadingCharges ? (
+                <div className="flex items-center space-x-2 text-blue-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span className="text-sm">Loading charges register...</span>
+                </div>
+              ) : chargesError ? (
+                <div className="flex items-center space-x-2 text-red-700">
+                  <AlertCircle className="h-4 w-4" />
+                  <span className="text-sm">{chargesError}</span>
+                </div>
+              ) : charges && charges.totalCount > 0 ? (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div className="text-center p-3 bg-red-50 rounded-lg">
+                      <div className="text-2xl font-bold text-red-900">{charges.outstandingCount}</div>
+                      <div className="text-xs text-red-700">Outstanding</div>
+                    </div>
+                    <div className="text-center p-3 bg-yellow-50 rounded-lg">
+                      <div className="text-2xl font-bold text-yellow-900">{charges.partSatisfiedCount}</div>
+                      <div className="text-xs text-yellow-700">Part satisfied</div>
+                    </div>
+                    <div className="text-center p-3 bg-green-50 rounded-lg">
+                      <div className="text-2xl font-bold text-green-900">{charges.satisfiedCount}</div>
+                      <div className="text-xs text-green-700">Satisfied</div>
+                    </div>
+                  </div>
+
+                  {charges.lenders.length > 0 && (
+                    <div>
+                      <label className="text-gray-600 text-sm mb-2 block">Lenders</label>
+                      <div className="flex flex-wrap gap-2">
+                        {charges.lenders.map((lender) => (
+                          <Badge key={lender.name} variant="outline" className="text-xs">
+                            {lender.name} ({lender.outstandingCount})
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {charges.outstanding.length > 0 && (
+                    <div className="border-t pt-4 space-y-2">
+                      {charges.outstanding.map((charge) => (
+                        <div key={charge.chargeId} className="flex items-start justify-between text-sm p-3 bg-gray-50 rounded-lg">
+                          <div>
+                            <p className="font-medium">{charge.personsEntitled.join(', ') || 'Lender not specified'}</p>
+                            <p className="text-gray-600">{charge.classification}</p>
+                            {charge.floatingChargeCoversAll && (
+                              <Badge variant="outline" className="mt-1 text-xs bg-orange-100 text-orange-800 border-orange-200">
+                                Floating charge over all assets
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="text-right text-gray-600">
+                            <p>{charge.createdOn ? formatDate(charge.createdOn) : 'Date unknown'}</p>
+                            {charge.ageInYears !== null && <p className="text-xs">{charge.ageInYears} years old</p>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-600">No charges registered against this company.</p>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
 
-        <TabsContent value="officers">
+        <TabsContent value="officers" className="space-y-4">
+          {loadingOwnership ? (
+            <div className="flex items-center space-x-2 text-blue-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span className="text-sm">Resolving ownership chain...</span>
+            </div>
+          ) : ownershipError ? (
+            <div className="flex items-center space-x-2 text-red-700">
+              <AlertCircle className="h-4 w-4" />
+              <span className="text-sm">{ownershipError}</span>
+            </div>
+          ) : ownership && (
+            <BeneficialOwnersPanel ownership={ownership} />
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Officers & People</CardTitle>
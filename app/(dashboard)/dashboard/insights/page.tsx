@@ -38,6 +38,19 @@ interface CompanyInsight {
   dataQuality: 'excellent' | 'good' | 'fair' | 'limited';
   generatedAt: string;
   tokensUsed: number;
+  provider: string;
+  model: string;
+  prompt: {
+    id: string;
+    version: number;
+    hash: string;
+    parameters: { maxTokens: number; temperature: number };
+  };
+  validation: {
+    status: 'valid' | 'repaired' | 'failed';
+    repairAttempts: number;
+    errors: string[];
+  };
 }
 
 interface CostInfo {
@@ -321,10 +334,28 @@ export default function AIInsightsPage() {
                   <Badge variant="outline">
                     {insights.dataQuality} Data
                   </Badge>
+                  {insights.validation.status === 'failed' && (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                      Degraded
+                    </Badge>
+                  )}
                 </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {insights.validation.status === 'failed' && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <p className="font-medium">
+                    The AI response did not match the required format after {insights.validation.repairAttempts} repair {insights.validation.repairAttempts === 1 ? 'attempt' : 'attempts'}.
+                    Missing or invalid fields show placeholders, so this analysis should not be relied on.
+                  </p>
+                  <ul className="mt-2 list-disc list-inside">
+                    {insights.validation.errors.slice(0, 5).map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               <p className="text-gray-700 leading-relaxed">{insights.summary}</p>
               
               <div className="mt-4 grid grid-cols-2 gap-4">
@@ -339,6 +370,11 @@ export default function AIInsightsPage() {
                   <div className="text-sm text-gray-600">Tokens Used</div>
                 </div>
               </div>
+
+              <p className="mt-4 text-xs text-gray-500">
+                Generated by {insights.provider} ({insights.model}) with prompt {insights.prompt.id} v{insights.prompt.version},
+                temperature {insights.prompt.parameters.temperature}, max tokens {insights.prompt.parameters.maxTokens} · prompt hash {insights.prompt.hash}
+              </p>
             </CardContent>
           </Card>
 
@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import ReactFlow, {
   Node,
   Edge,
+  NodeMouseHandler,
   addEdge,
   useNodesState,
   useEdgesState,
@@ -22,6 +25,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Network,
   Search,
@@ -38,90 +49,142 @@ import {
   Eye,
   EyeOff,
   Filter,
-  BarChart3
+  BarChart3,
+  Route,
+  Save,
+  FolderOpen,
+  RefreshCw,
+  MessageSquare,
+  History,
+  Play,
+  Pause,
+  UserCheck,
+  UserX
 } from 'lucide-react';
 import type { 
   CompanyNode, 
   RelationshipEdge, 
   GraphData, 
   GraphFilters, 
-  NetworkAnalysis 
+  GraphLayout,
+  NetworkAnalysis,
+  NetworkAnnotation,
+  GraphDiff,
+  ExportFormat,
+  OfficerMatch
 } from '@/lib/graph/types';
-import { NODE_COLORS, EDGE_STYLES } from '@/lib/graph/types';
-
-// Custom node components
-const CompanyNodeComponent = ({ data }: { data: any }) => {
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'active':
-        return NODE_COLORS.company.active;
-      case 'dissolved':
-        return NODE_COLORS.company.dissolved;
-      case 'liquidation':
-        return NODE_COLORS.company.liquidation;
-      default:
-        return NODE_COLORS.company.inactive;
-    }
-  };
+import type { CompanyType, OfficerRole, UltimateOwnershipResult } from '@/lib/companies-house/types';
+import { NODE_COLORS, EDGE_STYLES, CLUSTER_COLORS, DIFF_COLORS } from '@/lib/graph/types';
+import { hasChanges, mergeSnapshots } from '@/lib/graph/diff';
+import type { ConnectingPath } from '@/lib/graph/path-finder';
+import { addDays, collectTimelineEvents, daysBetween, getTimelineBounds, graphAsOf } from '@/lib/graph/timeline';
+import { BeneficialOwnersPanel } from '@/components/network/beneficial-owners-panel';
+import { networkNodeTypes as nodeTypes } from '@/components/network/network-nodes';
 
-  return (
-    <div
-      className="px-4 py-2 shadow-md rounded-md bg-white border-2 min-w-[120px] text-center"
-      style={{ borderColor: getStatusColor(data.companyStatus || 'active') }}
-    >
-      <div className="font-bold text-sm text-gray-900">{data.companyName || data.label}</div>
-      <div className="text-xs text-gray-600">{data.companyNumber}</div>
-      {data.companyStatus && (
-        <Badge variant="outline" className="text-xs mt-1">
-          {data.companyStatus}
-        </Badge>
-      )}
-    </div>
-  );
-};
+const COMPANY_TYPE_OPTIONS: Array<{ value: CompanyType; label: string }> = [
+  { value: 'ltd', label: 'Private limited' },
+  { value: 'plc', label: 'Public limited' },
+  { value: 'private-unlimited', label: 'Private unlimited' },
+  { value: 'private-limited-guarant-nsc', label: 'Limited by guarantee' },
+  { value: 'community-interest-company', label: 'Community interest' },
+  { value: 'overseas-company', label: 'Overseas' },
+];
 
-const OfficerNodeComponent = ({ data }: { data: any }) => {
-  return (
-    <div className="px-3 py-2 shadow-md rounded-md bg-blue-50 border-2 border-blue-300 min-w-[100px] text-center">
-      <div className="font-medium text-sm text-blue-900">{data.officerName || data.label}</div>
-      <div className="text-xs text-blue-700">{data.officerRole}</div>
-      {data.resignedDate && (
-        <div className="text-xs text-red-600">Resigned</div>
-      )}
-    </div>
-  );
-};
+const OFFICER_ROLE_OPTIONS: Array<{ value: OfficerRole; label: string }> = [
+  { value: 'director', label: 'Director' },
+  { value: 'secretary', label: 'Secretary' },
+  { value: 'corporate-director', label: 'Corporate director' },
+  { value: 'nominee-director', label: 'Nominee director' },
+  { value: 'llp-member', label: 'LLP member' },
+  { value: 'llp-designated-member', label: 'LLP designated member' },
+];
 
-const PSCNodeComponent = ({ data }: { data: any }) => {
-  return (
-    <div className="px-3 py-2 shadow-md rounded-md bg-purple-50 border-2 border-purple-300 min-w-[100px] text-center">
-      <div className="font-medium text-sm text-purple-900">{data.pscName || data.label}</div>
-      <div className="text-xs text-purple-700">PSC</div>
-    </div>
-  );
-};
+const EXPORT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'png', label: 'Image (.png)' },
+  { value: 'svg', label: 'Vector image (.svg)' },
+  { value: 'pdf', label: 'Network report (.pdf)' },
+  { value: 'graphml', label: 'GraphML (.graphml)' },
+  { value: 'gexf', label: 'Gephi GEXF (.gexf)' },
+  { value: 'cypher', label: 'Neo4j Cypher (.cypher)' },
+  { value: 'json', label: 'JSON (.json)' },
+];
 
-const AddressNodeComponent = ({ data }: { data: any }) => {
-  return (
-    <div className="px-3 py-2 shadow-md rounded-md bg-yellow-50 border-2 border-yellow-300 min-w-[100px] text-center">
-      <div className="font-medium text-sm text-yellow-900">
-        <MapPin className="inline h-3 w-3 mr-1" />
-        Address
-      </div>
-      <div className="text-xs text-yellow-700 truncate max-w-[120px]">
-        {data.address?.split(',')[0] || data.label}
-      </div>
-    </div>
-  );
+const CYCLE_EDGE_STYLE = {
+  stroke: '#dc2626',
+  strokeWidth: 4,
 };
 
-const nodeTypes = {
-  company: CompanyNodeComponent,
-  officer: OfficerNodeComponent,
-  psc: PSCNodeComponent,
-  address: AddressNodeComponent,
+const PATH_EDGE_STYLE = {
+  stroke: '#0891b2',
+  strokeWidth: 4,
 };
 
+const TIMELINE_STEPS = 120; // Playback crosses the whole timeline in this many frames
+const TIMELINE_FRAME_MS = 250;
+
+/**
+ * Convert a generated graph to React Flow elements, highlighting every node and
+ * edge that takes part in an ownership cycle
+ */
+function toFlowElements(graph: GraphData, analysis: NetworkAnalysis | null): { nodes: Node[]; edges: Edge[] } {
+  const cycles = analysis?.riskFactors.filter(r => r.type === 'circular_ownership') || [];
+  const cycleNodeIds = new Set(cycles.flatMap(r => r.affectedNodes));
+  const cycleEdgeIds = new Set(cycles.flatMap(r => r.affectedEdges || []));
+
+  return {
+    nodes: graph.nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      position: node.position,
+      data: node.data,
+      className: cycleNodeIds.has(node.id) ? 'ring-4 ring-red-500 rounded-md' : undefined,
+    })),
+    edges: graph.edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      type: 'default',
+      style: cycleEdgeIds.has(edge.id)
+        ? CYCLE_EDGE_STYLE
+        : EDGE_STYLES[edge.data?.relationship || 'officer'],
+      animated: cycleEdgeIds.has(edge.id),
+      label: edge.data?.label,
+      data: edge.data,
+    }))
+  };
+}
+
+// The graph as generated, without display-only styling or canvas expansion state
+function toGraphData(nodes: Node[], edges: Edge[]): GraphData {
+  return {
+    nodes: nodes.map(({ id, type, data: { loading, expanded, ...data }, position }) => ({
+      id,
+      type: type as CompanyNode['type'],
+      data,
+      position
+    })),
+    edges: edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      data: edge.data
+    }))
+  };
+}
+
+// What a double-click expansion added, so it can be collapsed again
+interface NodeExpansion {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+interface LoadedView {
+  id: string;
+  name: string;
+  snapshotAt: string;
+  canEdit: boolean;
+}
+
 function NetworkGraph() {
   const [companyNumber, setCompanyNumber] = useState('');
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
@@ -129,6 +192,34 @@ function NetworkGraph() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [networkAnalysis, setNetworkAnalysis] = useState<NetworkAnalysis | null>(null);
+  const [ultimateOwners, setUltimateOwners] = useState<UltimateOwnershipResult | null>(null);
+  const [colorByCluster, setColorByCluster] = useState(false);
+  const [truncated, setTruncated] = useState(false);
+  const [layout, setLayout] = useState<GraphLayout>({ type: 'hierarchical', direction: 'TB' });
+  const [mode, setMode] = useState<'explore' | 'path'>('explore');
+  const [pathTarget, setPathTarget] = useState('');
+  const [pathTargetType, setPathTargetType] = useState<'company' | 'officer'>('company');
+  const [pathCount, setPathCount] = useState(3);
+  const [paths, setPaths] = useState<ConnectingPath[] | null>(null);
+  const [selectedPath, setSelectedPath] = useState<number | null>(null);
+  const [exportFormats, setExportFormats] = useState<ExportFormat[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [loadedView, setLoadedView] = useState<LoadedView | null>(null);
+  const [viewName, setViewName] = useState('');
+  const [savingView, setSavingView] = useState(false);
+  const [annotations, setAnnotations] = useState<NetworkAnnotation[]>([]);
+  const [annotationText, setAnnotationText] = useState('');
+  const [annotationNodeId, setAnnotationNodeId] = useState('');
+  const [viewDiff, setViewDiff] = useState<GraphDiff | null>(null);
+  const [snapshotGraph, setSnapshotGraph] = useState<GraphData | null>(null);
+  const [downloadingChanges, setDownloadingChanges] = useState(false);
+  const [saveRefresh, setSaveRefresh] = useState(false);
+  const [asOfDate, setAsOfDate] = useState('');
+  const [timelineDate, setTimelineDate] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [officerMatches, setOfficerMatches] = useState<OfficerMatch[]>([]);
+  const [decidingMatch, setDecidingMatch] = useState<string | null>(null);
+  const [expansions, setExpansions] = useState<Record<string, NodeExpansion>>({});
   const [filters, setFilters] = useState<GraphFilters>({
     showOfficers: true,
     showPSCs: true,
@@ -138,7 +229,215 @@ function NetworkGraph() {
     maxHops: 2
   });
 
-  const { fitView, zoomIn, zoomOut } = useReactFlow();
+  const { fitView, zoomIn, zoomOut, getViewport, setViewport } = useReactFlow();
+  const searchParams = useSearchParams();
+  const requestedViewId = searchParams.get('view');
+
+  // Export formats depend on the user's network:export scope
+  useEffect(() => {
+    fetch('/api/graph/export')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setExportFormats(data?.formats || []))
+      .catch(() => setExportFormats([]));
+  }, []);
+
+  // Reopen a saved view from /dashboard/network?view=<id>
+  useEffect(() => {
+    if (!requestedViewId) return;
+
+    const loadView = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/graph/views/${requestedViewId}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || errorData.error || 'Failed to load saved view');
+        }
+
+        const { view, canEdit } = await response.json();
+        const flow = toFlowElements(view.graph, view.analysis);
+
+        setMode('explore');
+        setCompanyNumber(view.companyNumber);
+        setFilters(view.filters);
+        setLayout(view.layout);
+        setNodes(flow.nodes);
+        setEdges(flow.edges);
+        setNetworkAnalysis(view.analysis);
+        setUltimateOwners(null);
+        setOfficerMatches([]);
+        setTruncated(false);
+        setPaths(null);
+        setSelectedPath(null);
+        setAnnotations(view.annotations);
+        setViewDiff(null);
+        setSnapshotGraph(view.graph);
+        stopTimeline();
+        setExpansions({});
+        setViewName(view.name);
+        setLoadedView({ id: view.id, name: view.name, snapshotAt: view.snapshotAt, canEdit });
+
+        // Restore exactly what the analyst was looking at
+        setTimeout(() => {
+          if (view.viewport) {
+            setViewport(view.viewport);
+          } else {
+            fitView({ duration: 800 });
+          }
+        }, 100);
+
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadView();
+  }, [requestedViewId, setNodes, setEdges, setViewport, fitView]);
+
+  const toggleFilterValue = <K extends 'companyTypes' | 'officerRoles'>(
+    key: K,
+    value: NonNullable<GraphFilters[K]>[number],
+    checked: boolean
+  ) => {
+    setFilters(prev => {
+      const current = (prev[key] || []) as Array<typeof value>;
+      const next = checked ? [...current, value] : current.filter(v => v !== value);
+      return { ...prev, [key]: next.length > 0 ? next : undefined };
+    });
+  };
+
+  const setDateRangeBound = (bound: 'start' | 'end', value: string) => {
+    setFilters(prev => {
+      const dateRange = { start: prev.dateRange?.start || '', end: prev.dateRange?.end || '', [bound]: value };
+      return {
+        ...prev,
+        dateRange: dateRange.start || dateRange.end ? dateRange : undefined
+      };
+    });
+  };
+
+  // Node ID -> cluster colour, following the order clusters are returned in (largest first)
+  const clusterColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    networkAnalysis?.clusters.forEach((cluster, index) => {
+      const color = CLUSTER_COLORS[index % CLUSTER_COLORS.length];
+      cluster.nodes.forEach(nodeId => colors.set(nodeId, color));
+    });
+    return colors;
+  }, [networkAnalysis]);
+
+  // Timeline playback works on the graph as built, so resigned officers must be included to see history
+  const timelineGraph = useMemo(() => toGraphData(nodes, edges), [nodes, edges]);
+  const timelineBounds = useMemo(() => getTimelineBounds(timelineGraph), [timelineGraph]);
+  const timelineEvents = useMemo(() => collectTimelineEvents(timelineGraph), [timelineGraph]);
+  const timelineStep = timelineBounds
+    ? Math.max(1, Math.ceil(daysBetween(timelineBounds.start, timelineBounds.end) / TIMELINE_STEPS))
+    : 1;
+
+  // Structure in force on the timeline date, plus what changed during the last step
+  const timelineState = useMemo(() => {
+    if (!timelineDate) return null;
+
+    const root = timelineGraph.nodes.find(node => node.data.level === 0);
+    if (!root) return null;
+
+    const asOf = graphAsOf(timelineGraph, filters, timelineDate, root.id);
+    const stepStart = addDays(timelineDate, -timelineStep);
+    const recent = timelineEvents.filter(event => event.date > stepStart && event.date <= timelineDate);
+
+    return {
+      visibleNodes: new Set(asOf.nodes.map(node => node.id)),
+      visibleEdges: new Set(asOf.edges.map(edge => edge.id)),
+      changedNodes: new Set(recent.map(event => event.nodeId)),
+      changedEdges: new Set(recent.flatMap(event => (event.edgeId ? [event.edgeId] : []))),
+      recent
+    };
+  }, [timelineGraph, timelineEvents, filters, timelineDate, timelineStep]);
+
+  // Advance the timeline while playing, stopping at the end
+  useEffect(() => {
+    if (!playing || !timelineBounds) return;
+
+    const timer = setInterval(() => {
+      setTimelineDate(current => {
+        const next = addDays(current || timelineBounds.start, timelineStep);
+        if (next >= timelineBounds.end) {
+          setPlaying(false);
+          return timelineBounds.end;
+        }
+        return next;
+      });
+    }, TIMELINE_FRAME_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, timelineBounds, timelineStep]);
+
+  // Outline classes for a snapshot comparison: green added, red removed, amber changed
+  const diffNodeClasses = useMemo(() => {
+    const classes = new Map<string, string>();
+    if (!viewDiff) return classes;
+    viewDiff.changedNodes.forEach(change => classes.set(change.id, 'ring-4 ring-amber-500 rounded-md'));
+    viewDiff.addedNodes.forEach(id => classes.set(id, 'ring-4 ring-green-500 rounded-md'));
+    viewDiff.removedNodes.forEach(id => classes.set(id, 'ring-4 ring-red-500 rounded-md opacity-50'));
+    return classes;
+  }, [viewDiff]);
+
+  const displayNodes = useMemo(() => {
+    if (!colorByCluster && !timelineState && !viewDiff) return nodes;
+    return nodes.map(node => ({
+      ...node,
+      hidden: timelineState ? !timelineState.visibleNodes.has(node.id) : node.hidden,
+      className: timelineState?.changedNodes.has(node.id)
+        ? 'ring-4 ring-green-500 rounded-md'
+        : diffNodeClasses.get(node.id) || node.className,
+      data: colorByCluster ? { ...node.data, clusterColor: clusterColors.get(node.id) } : node.data
+    }));
+  }, [nodes, colorByCluster, clusterColors, timelineState, viewDiff, diffNodeClasses]);
+
+  // With a path selected, emphasise its edges and fade everything else
+  const displayEdges = useMemo(() => {
+    if (timelineState) {
+      return edges.map(edge => ({
+        ...edge,
+        hidden: !timelineState.visibleEdges.has(edge.id),
+        animated: timelineState.changedEdges.has(edge.id)
+      }));
+    }
+
+    if (viewDiff) {
+      const added = new Set(viewDiff.addedEdges);
+      const removed = new Set(viewDiff.removedEdges);
+      return edges.map(edge => {
+        if (added.has(edge.id)) return { ...edge, style: { ...edge.style, stroke: DIFF_COLORS.added, strokeWidth: 3 } };
+        if (removed.has(edge.id)) return { ...edge, style: { ...edge.style, stroke: DIFF_COLORS.removed, strokeDasharray: '6,4' } };
+        return edge;
+      });
+    }
+
+    if (selectedPath === null) return edges;
+    return edges.map(edge => {
+      const onPath = (edge.data?.pathIndices as number[] | undefined)?.includes(selectedPath);
+      return {
+        ...edge,
+        style: onPath ? PATH_EDGE_STYLE : { ...edge.style, opacity: 0.2 },
+        animated: onPath
+      };
+    });
+  }, [edges, selectedPath, timelineState, viewDiff]);
+
+  const stopTimeline = () => {
+    setPlaying(false);
+    setTimelineDate(null);
+  };
+
+  const nodeName = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    return node?.data.companyName || node?.data.officerName || node?.data.pscName || node?.data.label || nodeId;
+  };
 
   const generateNetwork = async () => {
     if (!companyNumber.trim()) {
@@ -158,7 +457,9 @@ function NetworkGraph() {
         body: JSON.stringify({
           companyNumber,
           maxHops: filters.maxHops,
-          filters
+          filters,
+          layout,
+          asOfDate: asOfDate || undefined
         })
       });
 
@@ -168,8 +469,71 @@ function NetworkGraph() {
       }
 
       const data = await response.json();
-      
+
       // Convert to ReactFlow format
+      const flow = toFlowElements(data.graph, data.analysis);
+
+      setNodes(flow.nodes);
+      setEdges(flow.edges);
+      setNetworkAnalysis(data.analysis);
+      setUltimateOwners(data.ultimateOwners);
+      setOfficerMatches(data.officerMatches || []);
+      setTruncated(!!data.metadata?.truncated);
+      setPaths(null);
+      setSelectedPath(null);
+      setLoadedView(null);
+      setAnnotations([]);
+      setViewDiff(null);
+      stopTimeline();
+      setExpansions({});
+
+      // Fit the view to show all nodes
+      setTimeout(() => fitView({ duration: 800 }), 100);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const findConnection = async () => {
+    if (!companyNumber.trim() || !pathTarget.trim()) {
+      setError('Please enter both ends of the connection');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/graph/path', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: { type: 'company', companyNumber },
+          to: pathTargetType === 'company'
+            ? { type: 'company', companyNumber: pathTarget }
+            : { type: 'officer', officerId: pathTarget },
+          k: pathCount,
+          includeResigned: filters.showResigned,
+          relationships: {
+            officers: filters.showOfficers,
+            pscs: filters.showPSCs,
+            addresses: filters.showAddresses
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to find a connection');
+      }
+
+      const data = await response.json();
+
       const flowNodes = data.graph.nodes.map((node: CompanyNode) => ({
         id: node.id,
         type: node.type,
@@ -189,9 +553,18 @@ function NetworkGraph() {
 
       setNodes(flowNodes);
       setEdges(flowEdges);
-      setNetworkAnalysis(data.analysis);
+      setPaths(data.paths);
+      setSelectedPath(data.paths.length > 0 ? 0 : null);
+      setTruncated(!!data.metadata?.truncated);
+      setNetworkAnalysis(null);
+      setUltimateOwners(null);
+      setOfficerMatches([]);
+      setLoadedView(null);
+      setAnnotations([]);
+      setViewDiff(null);
+      stopTimeline();
+      setExpansions({});
 
-      // Fit the view to show all nodes
       setTimeout(() => fitView({ duration: 800 }), 100);
 
     } catch (err) {
@@ -206,9 +579,392 @@ function NetworkGraph() {
     [setEdges]
   );
 
-  const exportNetwork = async (format: 'png' | 'svg' | 'json') => {
-    // Implementation would depend on chosen export library
-    console.log(`Exporting network as ${format}`);
+  const setNodeData = (nodeId: string, patch: Record<string, unknown>) => {
+    setNodes(nds => nds.map(node => node.id === nodeId ? { ...node, data: { ...node.data, ...patch } } : node));
+  };
+
+  // Fetch one more hop around a node, adding only what the canvas doesn't already show
+  const expandNode = async (node: Node) => {
+    if (node.data.loading) return;
+
+    setNodeData(node.id, { loading: true });
+    setError(null);
+
+    try {
+      const response = await fetch('/api/graph/expand', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          node: { id: node.id, type: node.type, data: node.data, position: node.position },
+          knownNodeIds: nodes.map(n => n.id),
+          knownEdgeIds: edges.map(e => e.id),
+          filters
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to expand node');
+      }
+
+      const data = await response.json();
+      const flow = toFlowElements({ nodes: data.nodes, edges: data.edges }, null);
+
+      // Another expansion may have added some of these while the request was in flight
+      setNodes(nds => {
+        const present = new Set(nds.map(n => n.id));
+        return [
+          ...nds.map(n => n.id === node.id ? { ...n, data: { ...n.data, loading: false, expanded: true } } : n),
+          ...flow.nodes.filter(n => !present.has(n.id))
+        ];
+      });
+      setEdges(eds => {
+        const present = new Set(eds.map(e => e.id));
+        return [...eds, ...flow.edges.filter(e => !present.has(e.id))];
+      });
+      setExpansions(prev => ({
+        ...prev,
+        [node.id]: { nodeIds: flow.nodes.map(n => n.id), edgeIds: flow.edges.map(e => e.id) }
+      }));
+      if (data.metadata?.truncated) setTruncated(true);
+
+    } catch (err) {
+      setNodeData(node.id, { loading: false });
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  // Undo an expansion and any expansions made from the nodes it added
+  const collapseNode = (nodeId: string) => {
+    const remaining = { ...expansions };
+    const removedNodes = new Set<string>();
+    const removedEdges = new Set<string>();
+
+    const collect = (id: string) => {
+      const expansion = remaining[id];
+      if (!expansion) return;
+      delete remaining[id];
+      expansion.edgeIds.forEach(edgeId => removedEdges.add(edgeId));
+      expansion.nodeIds.forEach(childId => {
+        removedNodes.add(childId);
+        collect(childId);
+      });
+    };
+    collect(nodeId);
+
+    // Keep a node that is still linked to the rest of the graph by an edge not being removed
+    for (const edge of edges) {
+      if (removedEdges.has(edge.id)) continue;
+      if (removedNodes.has(edge.source) && !removedNodes.has(edge.target)) removedNodes.delete(edge.source);
+      if (removedNodes.has(edge.target) && !removedNodes.has(edge.source)) removedNodes.delete(edge.target);
+    }
+
+    setNodes(nds => nds
+      .filter(node => !removedNodes.has(node.id))
+      .map(node => node.id === nodeId ? { ...node, data: { ...node.data, expanded: false } } : node));
+    setEdges(eds => eds.filter(edge =>
+      !removedEdges.has(edge.id) && !removedNodes.has(edge.source) && !removedNodes.has(edge.target)
+    ));
+    setExpansions(remaining);
+  };
+
+  const toggleNodeExpansion: NodeMouseHandler = (_, node) => {
+    if (timelineState || viewDiff) return;
+    if (node.type !== 'company' && !(node.type === 'officer' && node.data.officerId)) return;
+
+    if (expansions[node.id]) {
+      collapseNode(node.id);
+    } else {
+      expandNode(node);
+    }
+  };
+
+  const exportNetwork = async (format: ExportFormat) => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      // Send the graph as generated, without display-only styling
+      const graph = toGraphData(nodes, edges);
+
+      const response = await fetch('/api/graph/export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          format,
+          graph,
+          resolution: format === 'png' ? 2 : undefined,
+          metadata: {
+            title: `Company network for ${companyNumber}`,
+            rootCompanyNumber: companyNumber
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to export network');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `network.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const saveView = async () => {
+    if (!viewName.trim()) {
+      setError('Please enter a name for the view');
+      return;
+    }
+
+    setSavingView(true);
+    setError(null);
+
+    try {
+      const graph = toGraphData(nodes, edges);
+      const response = await fetch('/api/graph/views', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: viewName,
+          companyNumber,
+          graph,
+          analysis: networkAnalysis,
+          filters,
+          layout,
+          viewport: getViewport(),
+          annotations
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save view');
+      }
+
+      const { view } = await response.json();
+      setAnnotations(view.annotations);
+      setSnapshotGraph(graph);
+      setLoadedView({ id: view.id, name: view.name, snapshotAt: view.snapshotAt, canEdit: true });
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setSavingView(false);
+    }
+  };
+
+  // Persist annotation and viewport changes; the graph snapshot is left as saved
+  const updateView = async (nextAnnotations: NetworkAnnotation[] = annotations) => {
+    if (!loadedView) return;
+
+    setSavingView(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/graph/views/${loadedView.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          annotations: nextAnnotations,
+          viewport: getViewport()
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to update view');
+      }
+
+      const { view } = await response.json();
+      setAnnotations(view.annotations);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setSavingView(false);
+    }
+  };
+
+  const addAnnotation = () => {
+    if (!annotationText.trim()) return;
+
+    const annotation: NetworkAnnotation = {
+      id: crypto.randomUUID(),
+      ...(annotationNodeId && { nodeId: annotationNodeId }),
+      text: annotationText.trim(),
+      author: '',
+      createdAt: new Date().toISOString()
+    };
+    const nextAnnotations = [...annotations, annotation];
+
+    setAnnotations(nextAnnotations);
+    setAnnotationText('');
+    setAnnotationNodeId('');
+    if (loadedView) updateView(nextAnnotations);
+  };
+
+  const removeAnnotation = (id: string) => {
+    const nextAnnotations = annotations.filter(annotation => annotation.id !== id);
+    setAnnotations(nextAnnotations);
+    if (loadedView) updateView(nextAnnotations);
+  };
+
+  // Rebuild the saved view against live data and show what changed since the snapshot
+  const refreshView = async () => {
+    if (!loadedView) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/graph/views/${loadedView.id}/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ save: saveRefresh })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to re-run view');
+      }
+
+      const data = await response.json();
+
+      // Draw removed entities alongside the live graph so the comparison is visible
+      const flow = toFlowElements(
+        snapshotGraph ? mergeSnapshots(snapshotGraph, data.graph, data.diff) : data.graph,
+        data.analysis
+      );
+
+      setNodes(flow.nodes);
+      setEdges(flow.edges);
+      setNetworkAnalysis(data.analysis);
+      setTruncated(!!data.metadata?.truncated);
+      setViewDiff(data.diff);
+      setOfficerMatches(data.officerMatches || []);
+      stopTimeline();
+      setExpansions({});
+      if (data.metadata?.saved) {
+        setSnapshotGraph(data.graph);
+        setLoadedView(prev => prev && { ...prev, snapshotAt: data.metadata.generatedAt });
+      }
+
+      setTimeout(() => fitView({ duration: 800 }), 100);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Record an analyst decision on a suggested or merged pair; it applies from the next build
+  const decideOfficerMatch = async (match: OfficerMatch, decision: 'confirmed' | 'split') => {
+    const key = match.nodeIds.join('|');
+    setDecidingMatch(key);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/graph/officer-matches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          nodeIds: match.nodeIds,
+          decision,
+          confidence: match.confidence
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save the decision');
+      }
+
+      setOfficerMatches(prev => prev.map(m => m.nodeIds.join('|') === key ? { ...m, status: decision } : m));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setDecidingMatch(null);
+    }
+  };
+
+  // Drop the removed entities drawn for comparison and go back to the plain live graph
+  const clearComparison = () => {
+    if (!viewDiff) return;
+    const removedNodes = new Set(viewDiff.removedNodes);
+    const removedEdges = new Set(viewDiff.removedEdges);
+    setNodes(prev => prev.filter(node => !removedNodes.has(node.id)));
+    setEdges(prev => prev.filter(edge => !removedEdges.has(edge.id)));
+    setViewDiff(null);
+  };
+
+  const downloadChangeReport = async () => {
+    if (!loadedView || !viewDiff) return;
+
+    setDownloadingChanges(true);
+    setError(null);
+
+    try {
+      const removedNodes = new Set(viewDiff.removedNodes);
+      const removedEdges = new Set(viewDiff.removedEdges);
+      const current = toGraphData(
+        nodes.filter(node => !removedNodes.has(node.id)),
+        edges.filter(edge => !removedEdges.has(edge.id))
+      );
+
+      const response = await fetch('/api/graph/diff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          before: snapshotGraph || { viewId: loadedView.id },
+          after: current,
+          report: true
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to generate change report');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `network-changes-${companyNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setDownloadingChanges(false);
+    }
   };
 
   const resetView = () => {
@@ -229,9 +985,40 @@ function NetworkGraph() {
           </div>
           
           <div className="flex items-center space-x-2">
-            <Button variant="outline" size="sm" onClick={() => exportNetwork('png')}>
-              <Download className="mr-1 h-4 w-4" />
-              Export
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={nodes.length === 0 || exporting}>
+                  {exporting ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="mr-1 h-4 w-4" />
+                  )}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Export graph</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {exportFormats.length === 0 ? (
+                  <DropdownMenuItem disabled>
+                    Requires the network:export API scope
+                  </DropdownMenuItem>
+                ) : (
+                  EXPORT_OPTIONS
+                    .filter(option => exportFormats.includes(option.value))
+                    .map(option => (
+                      <DropdownMenuItem key={option.value} onClick={() => exportNetwork(option.value)}>
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/dashboard/network/views">
+                <FolderOpen className="mr-1 h-4 w-4" />
+                Saved Views
+              </Link>
             </Button>
             <Button variant="outline" size="sm" onClick={resetView}>
               <RotateCcw className="mr-1 h-4 w-4" />
@@ -244,55 +1031,483 @@ function NetworkGraph() {
       <div className="flex-1 flex">
         {/* Sidebar */}
         <div className="w-80 border-r bg-white p-4 overflow-y-auto">
-          {/* Input Section */}
-          <Card className="mb-4">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-sm">Generate Network</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div>
+          {/* Mode */}
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <Button
+              variant={mode === 'explore' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('explore')}
+            >
+              <Network className="mr-1 h-4 w-4" />
+              Explore
+            </Button>
+            <Button
+              variant={mode === 'path' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('path')}
+            >
+              <Route className="mr-1 h-4 w-4" />
+              Find Path
+            </Button>
+          </div>
+
+          {/* Path Search */}
+          {mode === 'path' && (
+            <Card className="mb-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Find Connection</CardTitle>
+                <CardDescription className="text-xs">
+                  Shortest links through officers, PSCs and shared addresses
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
                 <Input
-                  placeholder="Company number (e.g., 00445790)"
+                  placeholder="From company number"
                   value={companyNumber}
                   onChange={(e) => setCompanyNumber(e.target.value.toUpperCase())}
                   disabled={loading}
                 />
-              </div>
-              
-              <div>
-                <label className="text-sm font-medium">Relationship Depth</label>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <select
+                    value={pathTargetType}
+                    onChange={(e) => setPathTargetType(e.target.value as 'company' | 'officer')}
+                    className="text-sm border rounded-md px-2 py-1"
+                    disabled={loading}
+                  >
+                    <option value="company">Company</option>
+                    <option value="officer">Officer</option>
+                  </select>
+                  <Input
+                    placeholder={pathTargetType === 'company' ? 'To company number' : 'To officer ID'}
+                    value={pathTarget}
+                    onChange={(e) => setPathTarget(pathTargetType === 'company' ? e.target.value.toUpperCase() : e.target.value)}
+                    className="col-span-2"
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">Paths to find</label>
+                  <Slider
+                    value={[pathCount]}
+                    onValueChange={(value) => setPathCount(value[0])}
+                    max={10}
+                    min={1}
+                    step={1}
+                    className="mt-2"
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Up to {pathCount} shortest path{pathCount !== 1 ? 's' : ''}
+                  </div>
+                </div>
+
+                <Button
+                  onClick={findConnection}
+                  disabled={loading || !companyNumber.trim() || !pathTarget.trim()}
+                  className="w-full"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Searching...
+                    </>
+                  ) : (
+                    <>
+                      <Search className="mr-2 h-4 w-4" />
+                      Find Connection
+                    </>
+                  )}
+                </Button>
+
+                {paths && paths.length === 0 && (
+                  <div className="text-xs p-2 bg-gray-50 text-gray-700 rounded">
+                    No connection found within the search depth.
+                    {truncated && ' The search budget ran out, so a longer link may still exist.'}
+                  </div>
+                )}
+
+                {paths && paths.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-xs font-medium text-gray-600">Connecting Paths</h4>
+                    {paths.map((path, index) => (
+                      <button
+                        key={index}
+                        onClick={() => setSelectedPath(selectedPath === index ? null : index)}
+                        className={`w-full text-left text-xs p-2 rounded border ${
+                          selectedPath === index ? 'border-cyan-600 bg-cyan-50' : 'border-transparent bg-gray-50'
+                        }`}
+                      >
+                        <div className="font-medium">
+                          {path.length} step{path.length !== 1 ? 's' : ''}
+                        </div>
+                        <div className="text-gray-500">{path.nodes.map(nodeName).join(' → ')}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Input Section */}
+          {mode === 'explore' && (
+            <Card className="mb-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm">Generate Network</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div>
+                  <Input
+                    placeholder="Company number (e.g., 00445790)"
+                    value={companyNumber}
+                    onChange={(e) => setCompanyNumber(e.target.value.toUpperCase())}
+                    disabled={loading}
+                  />
+                </div>
+                
+                <div>
+                  <label className="text-sm font-medium">Relationship Depth</label>
+                  <Slider
+                    value={[filters.maxHops]}
+                    onValueChange={(value) => setFilters(prev => ({ ...prev, maxHops: value[0] }))}
+                    max={3}
+                    min={1}
+                    step={1}
+                    className="mt-2"
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    {filters.maxHops} hop{filters.maxHops !== 1 ? 's' : ''}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-sm font-medium">Layout</label>
+                    <select
+                      value={layout.type}
+                      onChange={(e) => setLayout(prev => ({ ...prev, type: e.target.value as GraphLayout['type'] }))}
+                      className="mt-1 w-full text-sm border rounded-md px-2 py-1"
+                      disabled={loading}
+                    >
+                      <option value="hierarchical">Hierarchical</option>
+                      <option value="force">Force-directed</option>
+                      <option value="circular">Circular</option>
+                      <option value="grid">Grid</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Direction</label>
+                    <select
+                      value={layout.direction}
+                      onChange={(e) => setLayout(prev => ({ ...prev, direction: e.target.value as GraphLayout['direction'] }))}
+                      className="mt-1 w-full text-sm border rounded-md px-2 py-1"
+                      disabled={loading}
+                    >
+                      <option value="TB">Top to bottom</option>
+                      <option value="BT">Bottom to top</option>
+                      <option value="LR">Left to right</option>
+                      <option value="RL">Right to left</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium">As Of Date</label>
+                  <Input
+                    type="date"
+                    value={asOfDate}
+                    max={new Date().toISOString().split('T')[0]}
+                    onChange={(e) => setAsOfDate(e.target.value)}
+                    className="mt-1 text-xs"
+                    disabled={loading}
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    Leave empty for the current structure
+                  </div>
+                </div>
+
+                <Button 
+                  onClick={generateNetwork}
+                  disabled={loading || !companyNumber.trim()}
+                  className="w-full"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <Network className="mr-2 h-4 w-4" />
+                      Generate Graph
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Timeline */}
+          {mode === 'explore' && timelineBounds && (
+            <Card className="mb-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  <History className="mr-1 h-4 w-4" />
+                  Timeline
+                </CardTitle>
+                <CardDescription className="text-xs">
+                  {timelineDate
+                    ? `Structure on ${new Date(timelineDate).toLocaleDateString()}`
+                    : 'Replay appointments, resignations and changes of control'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
                 <Slider
-                  value={[filters.maxHops]}
-                  onValueChange={(value) => setFilters(prev => ({ ...prev, maxHops: value[0] }))}
-                  max={3}
-                  min={1}
+                  value={[daysBetween(timelineBounds.start, timelineDate || timelineBounds.end)]}
+                  onValueChange={(value) => {
+                    setPlaying(false);
+                    setTimelineDate(addDays(timelineBounds.start, value[0]));
+                  }}
+                  max={daysBetween(timelineBounds.start, timelineBounds.end)}
+                  min={0}
                   step={1}
-                  className="mt-2"
                 />
-                <div className="text-xs text-gray-500 mt-1">
-                  {filters.maxHops} hop{filters.maxHops !== 1 ? 's' : ''}
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>{timelineBounds.start}</span>
+                  <span>{timelineBounds.end}</span>
                 </div>
-              </div>
 
-              <Button 
-                onClick={generateNetwork}
-                disabled={loading || !companyNumber.trim()}
-                className="w-full"
-              >
-                {loading ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (!playing && (!timelineDate || timelineDate >= timelineBounds.end)) {
+                        setTimelineDate(timelineBounds.start);
+                      }
+                      setPlaying(!playing);
+                    }}
+                  >
+                    {playing ? <Pause className="mr-1 h-4 w-4" /> : <Play className="mr-1 h-4 w-4" />}
+                    {playing ? 'Pause' : 'Play'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={stopTimeline}
+                    disabled={!timelineDate}
+                  >
+                    Show All
+                  </Button>
+                </div>
+
+                {timelineState && timelineState.recent.length > 0 && (
+                  <div className="space-y-1">
+                    {timelineState.recent.slice(-5).map((event, index) => (
+                      <div key={index} className="text-xs p-2 bg-green-50 rounded">
+                        <span className="font-medium">{event.date}</span>{' '}
+                        {nodeName(event.nodeId)} {event.type.replace('_', ' ')}
+                        {event.nodeId !== event.companyNodeId && ` at ${nodeName(event.companyNodeId)}`}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!filters.showResigned && !filters.dateRange && (
+                  <div className="text-xs text-gray-500">
+                    Tick "Show Resigned Officers" and regenerate to include past appointments
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Saved View */}
+          {mode === 'explore' && (nodes.length > 0 || loadedView) && (
+            <Card className="mb-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  <Save className="mr-1 h-4 w-4" />
+                  {loadedView ? loadedView.name : 'Save View'}
+                </CardTitle>
+                {loadedView && (
+                  <CardDescription className="text-xs">
+                    Snapshot from {new Date(loadedView.snapshotAt).toLocaleString()}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!loadedView && (
                   <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Generating...
+                    <Input
+                      placeholder="View name"
+                      value={viewName}
+                      onChange={(e) => setViewName(e.target.value)}
+                      disabled={savingView}
+                    />
+                    <Button
+                      onClick={saveView}
+                      disabled={savingView || !viewName.trim()}
+                      className="w-full"
+                      size="sm"
+                    >
+                      {savingView ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="mr-2 h-4 w-4" />
+                      )}
+                      Save Snapshot
+                    </Button>
                   </>
-                ) : (
+                )}
+
+                {loadedView && (
                   <>
-                    <Network className="mr-2 h-4 w-4" />
-                    Generate Graph
+                    <Button
+                      onClick={refreshView}
+                      disabled={loading}
+                      variant="outline"
+                      className="w-full"
+                      size="sm"
+                    >
+                      {loading ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                      )}
+                      Re-run Against Live Data
+                    </Button>
+                    {loadedView.canEdit && (
+                      <label className="flex items-center space-x-2 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={saveRefresh}
+                          onChange={(e) => setSaveRefresh(e.target.checked)}
+                        />
+                        <span>Replace the saved snapshot with the result</span>
+                      </label>
+                    )}
+
+                    {viewDiff && (
+                      <div className="text-xs p-2 bg-gray-50 rounded space-y-2">
+                        <div className="font-medium">Changes since snapshot</div>
+                        {!hasChanges(viewDiff) && (
+                          <div className="text-gray-500">Nothing has changed</div>
+                        )}
+                        {viewDiff.addedNodes.map(id => (
+                          <div key={id} className="text-green-700">+ {nodeName(id)}</div>
+                        ))}
+                        {viewDiff.removedNodes.map(id => (
+                          <div key={id} className="text-red-700">- {nodeName(id)}</div>
+                        ))}
+                        {(viewDiff.addedEdges.length > 0 || viewDiff.removedEdges.length > 0) && (
+                          <div className="text-gray-600">
+                            <span className="text-green-700">+{viewDiff.addedEdges.length}</span>
+                            {' / '}
+                            <span className="text-red-700">-{viewDiff.removedEdges.length}</span> connections
+                          </div>
+                        )}
+                        {[...viewDiff.changedNodes, ...viewDiff.changedEdges].map(change => (
+                          <div key={change.id} className="text-amber-700">
+                            <div className="font-medium">~ {change.label}</div>
+                            {change.changes.map(c => (
+                              <div key={c.field} className="pl-3">
+                                {c.field}: {c.before ?? '—'} → {c.after ?? '—'}
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                        <div className="grid grid-cols-2 gap-2 pt-1">
+                          <Button variant="outline" size="sm" onClick={downloadChangeReport} disabled={downloadingChanges}>
+                            {downloadingChanges ? (
+                              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                            ) : (
+                              <Download className="mr-1 h-3 w-3" />
+                            )}
+                            PDF
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={clearComparison}>
+                            Clear
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {loadedView.canEdit && (
+                      <Button
+                        onClick={() => updateView()}
+                        disabled={savingView}
+                        variant="outline"
+                        className="w-full"
+                        size="sm"
+                      >
+                        {savingView ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Save className="mr-2 h-4 w-4" />
+                        )}
+                        Save Current Viewport
+                      </Button>
+                    )}
                   </>
                 )}
-              </Button>
-            </CardContent>
-          </Card>
+
+                <div className="border-t pt-3">
+                  <h4 className="text-xs font-medium text-gray-600 mb-2 flex items-center">
+                    <MessageSquare className="mr-1 h-3 w-3" />
+                    Annotations
+                  </h4>
+                  <div className="space-y-1">
+                    {annotations.map(annotation => (
+                      <div key={annotation.id} className="text-xs p-2 bg-gray-50 rounded">
+                        {annotation.nodeId && (
+                          <div className="font-medium">{nodeName(annotation.nodeId)}</div>
+                        )}
+                        <div>{annotation.text}</div>
+                        <div className="flex items-center justify-between text-gray-500 mt-1">
+                          <span>{annotation.author || 'You'}</span>
+                          {(!loadedView || loadedView.canEdit) && (
+                            <button
+                              onClick={() => removeAnnotation(annotation.id)}
+                              className="text-red-600 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    {annotations.length === 0 && (
+                      <div className="text-xs text-gray-500">No annotations yet</div>
+                    )}
+                  </div>
+
+                  {(!loadedView || loadedView.canEdit) && (
+                    <div className="space-y-2 mt-2">
+                      <select
+                        value={annotationNodeId}
+                        onChange={(e) => setAnnotationNodeId(e.target.value)}
+                        className="w-full text-xs border rounded-md px-2 py-1"
+                      >
+                        <option value="">Whole network</option>
+                        {nodes.map(node => (
+                          <option key={node.id} value={node.id}>{nodeName(node.id)}</option>
+                        ))}
+                      </select>
+                      <Input
+                        placeholder="Add a note"
+                        value={annotationText}
+                        onChange={(e) => setAnnotationText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addAnnotation()}
+                        className="text-xs"
+                      />
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Filters */}
           <Card className="mb-4">
@@ -352,9 +1567,127 @@ function NetworkGraph() {
                 <Eye className="h-4 w-4 text-red-500" />
                 <span className="text-sm">Show Resigned Officers</span>
               </label>
+
+              <div className="border-t pt-3">
+                <label className="text-sm font-medium">Active Between</label>
+                <div className="grid grid-cols-2 gap-2 mt-1">
+                  <Input
+                    type="date"
+                    value={filters.dateRange?.start || ''}
+                    onChange={(e) => setDateRangeBound('start', e.target.value)}
+                    className="text-xs"
+                  />
+                  <Input
+                    type="date"
+                    value={filters.dateRange?.end || ''}
+                    onChange={(e) => setDateRangeBound('end', e.target.value)}
+                    className="text-xs"
+                  />
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Appointments and PSC control overlapping these dates, including resigned officers
+                </div>
+              </div>
+
+              <div className="border-t pt-3">
+                <label className="text-sm font-medium">Company Types</label>
+                <div className="mt-1 space-y-1">
+                  {COMPANY_TYPE_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-center space-x-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={filters.companyTypes?.includes(option.value) || false}
+                        onChange={(e) => toggleFilterValue('companyTypes', option.value, e.target.checked)}
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="border-t pt-3">
+                <label className="text-sm font-medium">Officer Roles</label>
+                <div className="mt-1 space-y-1">
+                  {OFFICER_ROLE_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-center space-x-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={filters.officerRoles?.includes(option.value) || false}
+                        onChange={(e) => toggleFilterValue('officerRoles', option.value, e.target.checked)}
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">Leave unticked to include all</div>
+              </div>
             </CardContent>
           </Card>
 
+          {/* Beneficial Ownership */}
+          {ultimateOwners && (
+            <BeneficialOwnersPanel ownership={ultimateOwners} compact />
+          )}
+
+          {/* Officer Matches */}
+          {officerMatches.length > 0 && (
+            <Card className="mb-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center">
+                  <UserCheck className="mr-1 h-4 w-4" />
+                  Officer Matches
+                </CardTitle>
+                <CardDescription className="text-xs">
+                  Officer records that may be the same person. Decisions apply the next time a network is generated.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {officerMatches.map(match => {
+                  const key = match.nodeIds.join('|');
+                  return (
+                    <div key={key} className="text-xs p-2 bg-gray-50 rounded space-y-1">
+                      <div className="flex items-center justify-between">
+                        <div className="font-medium">
+                          {match.names[0] === match.names[1] ? match.names[0] : `${match.names[0]} / ${match.names[1]}`}
+                        </div>
+                        <Badge variant="outline" className={`text-xs ${
+                          match.status === 'confirmed' || match.status === 'merged' ? 'text-green-800 bg-green-100' :
+                          match.status === 'split' ? 'text-red-800 bg-red-100' :
+                          'text-yellow-800 bg-yellow-100'
+                        }`}>
+                          {match.status} · {Math.round(match.confidence * 100)}%
+                        </Badge>
+                      </div>
+                      <div className="text-gray-500">{match.reasons.join(' · ')}</div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 text-xs"
+                          disabled={decidingMatch === key || match.status === 'confirmed'}
+                          onClick={() => decideOfficerMatch(match, 'confirmed')}
+                        >
+                          <UserCheck className="mr-1 h-3 w-3" />
+                          Same person
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 text-xs"
+                          disabled={decidingMatch === key || match.status === 'split'}
+                          onClick={() => decideOfficerMatch(match, 'split')}
+                        >
+                          <UserX className="mr-1 h-3 w-3" />
+                          Different people
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Network Analysis */}
           {networkAnalysis && (
             <Card>
@@ -376,6 +1709,12 @@ function NetworkGraph() {
                   </div>
                 </div>
 
+                {truncated && (
+                  <div className="text-xs p-2 bg-yellow-50 text-yellow-800 rounded">
+                    Node limit reached - the graph was cut short. Reduce the depth or tighten filters to see everything.
+                  </div>
+                )}
+
                 <div className="text-center p-2 bg-purple-50 rounded">
                   <div className="font-bold text-purple-900">
                     {(networkAnalysis.networkDensity * 100).toFixed(1)}%
@@ -385,12 +1724,44 @@ function NetworkGraph() {
 
                 {networkAnalysis.centralNodes.length > 0 && (
                   <div>
-                    <h4 className="text-xs font-medium text-gray-600 mb-2">Most Connected</h4>
+                    <h4 className="text-xs font-medium text-gray-600 mb-2">Key Connectors</h4>
                     <div className="space-y-1">
                       {networkAnalysis.centralNodes.slice(0, 3).map((node, index) => (
                         <div key={node.id} className="text-xs p-2 bg-gray-50 rounded">
                           <div className="font-medium">{node.name}</div>
-                          <div className="text-gray-500">{node.connections} connections</div>
+                          <div className="text-gray-500">
+                            {node.connections} connections · betweenness {node.betweenness.toFixed(2)} · influence {node.eigenvector.toFixed(2)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {networkAnalysis.clusters.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-xs font-medium text-gray-600">Clusters</h4>
+                      <label className="flex items-center space-x-1 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={colorByCluster}
+                          onChange={(e) => setColorByCluster(e.target.checked)}
+                        />
+                        <span>Colour nodes</span>
+                      </label>
+                    </div>
+                    <div className="space-y-1">
+                      {networkAnalysis.clusters.map((cluster, index) => (
+                        <div key={cluster.id} className="text-xs p-2 bg-gray-50 rounded flex items-start space-x-2">
+                          <div
+                            className="w-3 h-3 rounded-full mt-0.5 shrink-0"
+                            style={{ backgroundColor: CLUSTER_COLORS[index % CLUSTER_COLORS.length] }}
+                          ></div>
+                          <div>
+                            <div className="font-medium">{cluster.label}</div>
+                            <div className="text-gray-500">{cluster.description}</div>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -406,7 +1777,7 @@ function NetworkGraph() {
                     <div className="space-y-1">
                       {networkAnalysis.riskFactors.map((risk, index) => (
                         <div key={index} className="text-xs p-2 bg-red-50 rounded">
-                          <div className="font-medium text-red-900">{risk.type.replace('_', ' ')}</div>
+                          <div className="font-medium text-red-900">{risk.type.replace(/_/g, ' ')}</div>
                           <div className="text-red-700">{risk.description}</div>
                           <Badge variant="outline" className={`mt-1 text-xs ${
                             risk.severity === 'high' ? 'text-red-800 bg-red-100' :
@@ -446,6 +1817,29 @@ function NetworkGraph() {
                 <div className="w-4 h-4 rounded border-2 border-yellow-300 bg-yellow-50"></div>
                 <span>Address</span>
               </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <div className="w-4 h-4 rounded border-2 bg-white ring-2 ring-red-500"></div>
+                <span>Circular Ownership</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <div className="w-4 h-1 rounded" style={{ backgroundColor: PATH_EDGE_STYLE.stroke }}></div>
+                <span>Selected Path</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <div className="w-4 h-4 rounded border-2 bg-white ring-2 ring-green-500"></div>
+                <span>Added Since Snapshot or Timeline Step</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <div className="w-4 h-4 rounded border-2 bg-white ring-2 ring-red-500 opacity-50"></div>
+                <span>Removed Since Snapshot</span>
+              </div>
+              <div className="flex items-center space-x-2 text-xs">
+                <div className="w-4 h-4 rounded border-2 bg-white ring-2 ring-amber-500"></div>
+                <span>Changed Since Snapshot</span>
+              </div>
+              <p className="text-xs text-gray-500 pt-1">
+                Double-click a company or officer to expand it by one hop; double-click again to collapse.
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -469,11 +1863,13 @@ function NetworkGraph() {
           )}
 
           <ReactFlow
-            nodes={nodes}
-            edges={edges}
+            nodes={displayNodes}
+            edges={displayEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
+            onNodeDoubleClick={toggleNodeExpansion}
+            zoomOnDoubleClick={false}
             nodeTypes={nodeTypes}
             fitView
             fitViewOptions={{ duration: 800 }}
@@ -483,6 +1879,9 @@ function NetworkGraph() {
             <Controls />
             <MiniMap 
               nodeColor={(node) => {
+                if (colorByCluster && clusterColors.has(node.id)) {
+                  return clusterColors.get(node.id)!;
+                }
                 switch (node.type) {
                   case 'company': return NODE_COLORS.company.active;
                   case 'officer': return '#3b82f6';
@@ -513,7 +1912,9 @@ function NetworkGraph() {
 export default function NetworkPage() {
   return (
     <ReactFlowProvider>
-      <NetworkGraph />
+      <Suspense fallback={<div className="h-screen flex items-center justify-center"><Loader2 className="h-6 w-6 animate-spin" /></div>}>
+        <NetworkGraph />
+      </Suspense>
     </ReactFlowProvider>
   );
 }
\ No newline at end of file
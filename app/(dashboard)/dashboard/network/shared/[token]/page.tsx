@@ -0,0 +1,206 @@
+'use client';
+
+import { use, useEffect, useMemo, useState } from 'react';
+import ReactFlow, {
+  Controls,
+  MiniMap,
+  Background,
+  BackgroundVariant,
+  ReactFlowProvider,
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Network, Loader2, AlertTriangle, Eye, MessageSquare } from 'lucide-react';
+import type {
+  GraphData,
+  GraphLayout,
+  GraphViewport,
+  NetworkAnalysis,
+  NetworkAnnotation
+} from '@/lib/graph/types';
+import { NODE_COLORS, EDGE_STYLES } from '@/lib/graph/types';
+import { networkNodeTypes } from '@/components/network/network-nodes';
+
+interface SharedView {
+  name: string;
+  description: string | null;
+  companyNumber: string;
+  graph: GraphData;
+  analysis: NetworkAnalysis | null;
+  layout: GraphLayout;
+  viewport: GraphViewport | null;
+  annotations: NetworkAnnotation[];
+  snapshotAt: string;
+}
+
+function SharedNetworkView({ token }: { token: string }) {
+  const [view, setView] = useState<SharedView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/graph/views/shared/${encodeURIComponent(token)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to load shared view');
+        setView(data.view);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An unexpected error occurred'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const flowNodes = useMemo(() => (view?.graph.nodes || []).map(node => ({
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    data: node.data,
+  })), [view]);
+
+  const flowEdges = useMemo(() => (view?.graph.edges || []).map(edge => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: 'default',
+    style: EDGE_STYLES[edge.data?.relationship || 'officer'],
+    label: edge.data?.label,
+    data: edge.data,
+  })), [view]);
+
+  const nodeName = (nodeId: string) => {
+    const node = view?.graph.nodes.find(n => n.id === nodeId);
+    return node?.data.companyName || node?.data.officerName || node?.data.pscName || node?.data.label || nodeId;
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <Card className="m-6 border-red-200 bg-red-50">
+        <CardContent className="pt-4">
+          <div className="flex items-center space-x-2 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <span>{error || 'Shared view not found'}</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b bg-white">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Network className="mr-2 h-6 w-6 text-purple-600" />
+              {view.name}
+            </h1>
+            <p className="text-gray-600">
+              Company {view.companyNumber} · snapshot from {new Date(view.snapshotAt).toLocaleString()}
+            </p>
+          </div>
+          <Badge variant="outline" className="text-gray-700">
+            <Eye className="mr-1 h-3 w-3" />
+            View only
+          </Badge>
+        </div>
+      </div>
+
+      <div className="flex-1 flex">
+        {/* Sidebar */}
+        <div className="w-80 border-r bg-white p-4 overflow-y-auto space-y-4">
+          {view.description && (
+            <p className="text-sm text-gray-600">{view.description}</p>
+          )}
+
+          {view.analysis && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-center p-2 bg-blue-50 rounded">
+                <div className="font-bold text-blue-900">{view.analysis.totalNodes}</div>
+                <div className="text-xs text-blue-700">Nodes</div>
+              </div>
+              <div className="text-center p-2 bg-green-50 rounded">
+                <div className="font-bold text-green-900">{view.analysis.totalEdges}</div>
+                <div className="text-xs text-green-700">Connections</div>
+              </div>
+            </div>
+          )}
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm flex items-center">
+                <MessageSquare className="mr-1 h-4 w-4" />
+                Annotations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {view.annotations.map(annotation => (
+                <div key={annotation.id} className="text-xs p-2 bg-gray-50 rounded">
+                  {annotation.nodeId && (
+                    <div className="font-medium">{nodeName(annotation.nodeId)}</div>
+                  )}
+                  <div>{annotation.text}</div>
+                  <div className="text-gray-500 mt-1">
+                    {annotation.author} · {new Date(annotation.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+              ))}
+              {view.annotations.length === 0 && (
+                <div className="text-xs text-gray-500">No annotations</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Main Graph Area */}
+        <div className="flex-1 relative">
+          <ReactFlow
+            nodes={flowNodes}
+            edges={flowEdges}
+            nodeTypes={networkNodeTypes}
+            defaultViewport={view.viewport || undefined}
+            fitView={!view.viewport}
+            nodesDraggable={false}
+            nodesConnectable={false}
+            elementsSelectable={false}
+            className="bg-gray-50"
+          >
+            <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
+            <Controls showInteractive={false} />
+            <MiniMap
+              nodeColor={(node) => {
+                switch (node.type) {
+                  case 'company': return NODE_COLORS.company.active;
+                  case 'officer': return '#3b82f6';
+                  case 'psc': return '#8b5cf6';
+                  case 'address': return '#f59e0b';
+                  default: return '#6b7280';
+                }
+              }}
+              className="bg-white border border-gray-200 rounded"
+            />
+          </ReactFlow>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SharedNetworkViewPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+
+  return (
+    <ReactFlowProvider>
+      <SharedNetworkView token={token} />
+    </ReactFlowProvider>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  FolderOpen,
+  Network,
+  Loader2,
+  AlertTriangle,
+  Share2,
+  Link2Off,
+  Trash2,
+  Calendar,
+  CheckCircle
+} from 'lucide-react';
+
+interface SavedViewSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  companyNumber: string;
+  createdByName: string | null;
+  shared: boolean;
+  snapshotAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export default function SavedViewsPage() {
+  const [views, setViews] = useState<SavedViewSummary[]>([]);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyViewId, setBusyViewId] = useState<string | null>(null);
+  const [copiedViewId, setCopiedViewId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/graph/views')
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.message || data.error || 'Failed to load saved views');
+        setViews(data.views);
+        setCanEdit(data.canEdit);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An unexpected error occurred'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const runViewAction = async (viewId: string, action: () => Promise<void>) => {
+    setBusyViewId(viewId);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setBusyViewId(null);
+    }
+  };
+
+  const shareView = (view: SavedViewSummary) => runViewAction(view.id, async () => {
+    const response = await fetch(`/api/graph/views/${view.id}/share`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.message || data.error || 'Failed to share view');
+
+    await navigator.clipboard.writeText(`${window.location.origin}${data.sharePath}`);
+    setViews(prev => prev.map(v => (v.id === view.id ? { ...v, shared: true } : v)));
+    setCopiedViewId(view.id);
+    setTimeout(() => setCopiedViewId(null), 2000);
+  });
+
+  const revokeShare = (view: SavedViewSummary) => runViewAction(view.id, async () => {
+    const response = await fetch(`/api/graph/views/${view.id}/share`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.message || data.error || 'Failed to revoke share link');
+    }
+    setViews(prev => prev.map(v => (v.id === view.id ? { ...v, shared: false } : v)));
+  });
+
+  const deleteView = (view: SavedViewSummary) => {
+    if (!confirm(`Delete the saved view "${view.name}"?`)) return;
+
+    runViewAction(view.id, async () => {
+      const response = await fetch(`/api/graph/views/${view.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || data.error || 'Failed to delete view');
+      }
+      setViews(prev => prev.filter(v => v.id !== view.id));
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <FolderOpen className="mr-3 h-8 w-8 text-purple-600" />
+            Saved Network Views
+          </h1>
+          <p className="mt-2 text-gray-600">
+            Network snapshots saved by your team, exactly as they were when saved
+          </p>
+        </div>
+        <Button asChild className="bg-purple-600 hover:bg-purple-700">
+          <Link href="/dashboard/network">
+            <Network className="mr-2 h-4 w-4" />
+            New Network
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-4">
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <span>{error}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+        </div>
+      ) : views.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <FolderOpen className="mx-auto h-12 w-12 mb-4 opacity-50" />
+            <h3 className="text-lg font-medium mb-2">No Saved Views</h3>
+            <p className="text-sm">Generate a network and use "Save Snapshot" to keep it for your case file</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {views.map(view => (
+            <Card key={view.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{view.name}</CardTitle>
+                    <CardDescription>
+                      Company {view.companyNumber}
+                      {view.createdByName && ` · saved by ${view.createdByName}`}
+                    </CardDescription>
+                  </div>
+                  {view.shared && (
+                    <Badge variant="outline" className="text-blue-800 bg-blue-100">
+                      Shared
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {view.description && (
+                  <p className="text-sm text-gray-600">{view.description}</p>
+                )}
+                <div className="flex items-center text-xs text-gray-500">
+                  <Calendar className="mr-1 h-3 w-3" />
+                  Snapshot from {new Date(view.snapshotAt).toLocaleString()}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" asChild>
+                    <Link href={`/dashboard/network?view=${view.id}`}>
+                      <Network className="mr-1 h-4 w-4" />
+                      Open
+                    </Link>
+                  </Button>
+                  {canEdit && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => shareView(view)}
+                        disabled={busyViewId === view.id}
+                      >
+                        {copiedViewId === view.id ? (
+                          <CheckCircle className="mr-1 h-4 w-4 text-green-600" />
+                        ) : (
+                          <Share2 className="mr-1 h-4 w-4" />
+                        )}
+                        {copiedViewId === view.id ? 'Link Copied' : 'Copy Share Link'}
+                      </Button>
+                      {view.shared && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => revokeShare(view)}
+                          disabled={busyViewId === view.id}
+                        >
+                          <Link2Off className="mr-1 h-4 w-4" />
+                          Revoke Link
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deleteView(view)}
+                        disabled={busyViewId === view.id}
+                        className="text-red-600"
+                      >
+                        <Trash2 className="mr-1 h-4 w-4" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
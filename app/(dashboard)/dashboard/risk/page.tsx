@@ -24,8 +24,12 @@ import {
   Clock,
   Zap,
   Brain,
-  Target
+  Target,
+  Network
 } from 'lucide-react';
+import type { GraphData, NetworkAnalysis } from '@/lib/graph/types';
+import type { CompanyInsight } from '@/lib/ai/types';
+import { findDormantCompanies, type DormantCompany } from '@/lib/graph/dormancy';
 
 interface RiskAssessment {
   companyNumber: string;
@@ -45,6 +49,13 @@ interface RiskAssessment {
   confidenceScore: number;
   lastUpdated: string;
   dataQuality: 'excellent' | 'good' | 'fair' | 'limited';
+  aiDegraded: boolean; // The AI insight failed schema validation after repair
+}
+
+interface NetworkRisk {
+  analysis: NetworkAnalysis;
+  dormantCompanies: DormantCompany[];
+  totalCompanies: number;
 }
 
 interface RiskCategory {
@@ -73,6 +84,46 @@ export default function RiskAnalysisPage() {
   const [riskAssessment, setRiskAssessment] = useState<RiskAssessment | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [networkRisk, setNetworkRisk] = useState<NetworkRisk | null>(null);
+  const [networkLoading, setNetworkLoading] = useState(false);
+
+  // Dormant and dissolved companies around this one; the assessment stands without it if the build fails
+  const loadNetworkRisk = async (number: string) => {
+    setNetworkLoading(true);
+    setNetworkRisk(null);
+
+    try {
+      const response = await fetch('/api/graph/network', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          companyNumber: number,
+          maxHops: 2,
+          maxNodes: 200,
+          filters: {
+            showOfficers: true,
+            showPSCs: true,
+            showAddresses: false,
+            showInactive: true,
+            showResigned: false
+          }
+        })
+      });
+
+      if (!response.ok) return;
+
+      const data: { graph: GraphData; analysis: NetworkAnalysis } = await response.json();
+      setNetworkRisk({
+        analysis: data.analysis,
+        dormantCompanies: findDormantCompanies(data.graph),
+        totalCompanies: data.graph.nodes.filter(node => node.type === 'company').length
+      });
+    } catch (err) {
+      console.error('Network risk error:', err);
+    } finally {
+      setNetworkLoading(false);
+    }
+  };
 
   const handleAnalyze = async () => {
     if (!companyNumber.trim()) {
@@ -83,6 +134,7 @@ export default function RiskAnalysisPage() {
     setLoading(true);
     setError(null);
     setRiskAssessment(null);
+    loadNetworkRisk(companyNumber);
 
     try {
       // First get company profile and AI insights
@@ -91,16 +143,7 @@ export default function RiskAnalysisPage() {
         fetch('/api/ai/insights', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            company: {
-              company_number: companyNumber,
-              company_name: 'Loading...',
-              company_status: 'active',
-              company_type: 'ltd',
-              date_of_creation: '2020-01-01'
-            },
-            modelType: 'balanced'
-          })
+          body: JSON.stringify({ companyNumber })
         })
       ]);
 
@@ -112,7 +155,7 @@ export default function RiskAnalysisPage() {
       let aiInsights = null;
 
       if (insightsResponse.ok) {
-        aiInsights = await insightsResponse.json();
+        aiInsights = (await insightsResponse.json()).insights;
       }
 
       // Generate comprehensive risk assessment
@@ -127,7 +170,7 @@ export default function RiskAnalysisPage() {
   };
 
   const generateRiskAssessment = (companyData: any, aiInsights: any): RiskAssessment => {
-    const baseRiskScore = aiInsights?.risk_score || calculateBaseRisk(companyData);
+    const baseRiskScore = aiInsights?.riskScore ?? calculateBaseRisk(companyData);
     
     return {
       companyNumber: companyData.company_number,
@@ -174,9 +217,10 @@ export default function RiskAnalysisPage() {
       keyRisks: generateKeyRisks(companyData, aiInsights),
       mitigationRecommendations: aiInsights?.recommendations || getDefaultRecommendations(),
       monitoringPoints: getMonitoringPoints(companyData),
-      confidenceScore: aiInsights?.confidence_score || 85,
+      confidenceScore: aiInsights?.confidence ?? 85,
       lastUpdated: new Date().toISOString(),
-      dataQuality: getDataQuality(companyData)
+      dataQuality: getDataQuality(companyData),
+      aiDegraded: aiInsights?.validation?.status === 'failed'
     };
   };
 
@@ -251,16 +295,16 @@ export default function RiskAnalysisPage() {
       });
     }
 
-    if (aiInsights?.potential_risks) {
-      aiInsights.potential_risks.forEach((risk: string, index: number) => {
+    if (aiInsights?.riskFactors) {
+      aiInsights.riskFactors.forEach((factor: CompanyInsight['riskFactors'][number], index: number) => {
         risks.push({
           id: `ai-risk-${index}`,
-          category: 'market',
-          risk: risk,
-          severity: index === 0 ? 'medium' : 'low',
+          category: factor.category,
+          risk: factor.risk,
+          severity: factor.severity,
           probability: 60 - (index * 10),
           impact: 70 - (index * 15),
-          description: `AI-identified risk factor based on company analysis`,
+          description: factor.explanation || 'AI-identified risk factor based on company analysis',
           indicators: ['Market analysis', 'Company profile'],
           mitigation: 'Regular monitoring and strategic planning',
           timeline: 'Medium-term focus'
@@ -434,10 +478,20 @@ export default function RiskAnalysisPage() {
                   <Badge variant="outline" className="text-blue-600">
                     {riskAssessment.confidenceScore}% confidence
                   </Badge>
+                  {riskAssessment.aiDegraded && (
+                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                      Degraded AI analysis
+                    </Badge>
+                  )}
                 </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {riskAssessment.aiDegraded && (
+                <p className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  The AI response could not be validated against the required format, so AI risk factors and recommendations may be placeholders.
+                </p>
+              )}
               <div className="text-center mb-6">
                 <div className="text-6xl font-bold mb-2" style={{ color: riskAssessment.riskLevel === 'critical' ? '#dc2626' : riskAssessment.riskLevel === 'high' ? '#ea580c' : riskAssessment.riskLevel === 'medium' ? '#d97706' : '#16a34a' }}>
                   {riskAssessment.overallRiskScore}
@@ -554,6 +608,70 @@ export default function RiskAnalysisPage() {
             </Card>
           )}
 
+          {/* Network Shell Indicators */}
+          {(networkLoading || networkRisk) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Network className="h-5 w-5 text-purple-600" />
+                  <span>Dormant & Dissolved Companies in Network</span>
+                </CardTitle>
+                <CardDescription>
+                  Companies within two hops, weighted by how close they are to {riskAssessment.companyName}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {networkLoading ? (
+                  <div className="flex items-center text-sm text-gray-500">
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Building company network...
+                  </div>
+                ) : networkRisk && networkRisk.dormantCompanies.length === 0 ? (
+                  <div className="flex items-center text-sm text-gray-600">
+                    <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                    None of the {networkRisk.totalCompanies} companies in the network are dormant, dissolved or behind on filings
+                  </div>
+                ) : networkRisk && (
+                  <div className="space-y-4">
+                    {networkRisk.analysis.riskFactors
+                      .filter(risk => risk.type === 'dormant_companies')
+                      .map((risk, index) => (
+                        <div key={index} className="flex items-start justify-between">
+                          <p className="text-sm text-gray-600">{risk.description}</p>
+                          <Badge variant="outline" className={`ml-4 ${getSeverityColor(risk.severity)}`}>
+                            {risk.severity}
+                          </Badge>
+                        </div>
+                      ))}
+
+                    <div className="space-y-2">
+                      {networkRisk.dormantCompanies.map(company => (
+                        <div key={company.nodeId} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                          <div>
+                            <div className="font-medium text-gray-900">{company.label}</div>
+                            <div className="text-xs text-gray-500">{company.reasons.join(' · ')}</div>
+                          </div>
+                          <div className="flex items-center space-x-2 shrink-0">
+                            <span className="text-xs text-gray-500">
+                              {company.level === 0 ? 'This company' : `${company.level} hop${company.level === 1 ? '' : 's'}`}
+                            </span>
+                            <Badge variant="outline" className={`text-xs ${
+                              company.kind === 'dissolved' ? 'text-red-800 bg-red-100' :
+                              company.kind === 'dormant' ? 'text-yellow-800 bg-yellow-100' :
+                              'text-gray-800 bg-gray-100'
+                            }`}>
+                              {company.kind}
+                            </Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Recommendations & Monitoring */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <Card>
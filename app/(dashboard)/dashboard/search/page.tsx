@@ -48,6 +48,7 @@ interface AIInsight {
   market_position: string;
   last_updated: string;
   confidence_score: number;
+  degraded: boolean; // Output failed schema validation, or is the offline placeholder
 }
 
 interface SearchFilters {
@@ -60,14 +61,6 @@ interface SearchFilters {
   show_dissolved: boolean;
 }
 
-interface AIModelConfig {
-  modelType: 'fast' | 'balanced' | 'premium' | 'alternative' | 'haiku';
-  name: string;
-  description: string;
-  cost: string;
-  quality: string;
-}
-
 export default function CompanySearchPage() {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResponse | null>(null);
@@ -78,7 +71,6 @@ export default function CompanySearchPage() {
   const [loadingInsights, setLoadingInsights] = useState<Set<string>>(new Set());
   const [showFilters, setShowFilters] = useState(false);
   const [aiMode, setAiMode] = useState(true);
-  const [selectedModel, setSelectedModel] = useState<AIModelConfig['modelType']>('balanced');
   const [filters, setFilters] = useState<SearchFilters>({
     status: ['active'],
     company_type: [],
@@ -92,79 +84,31 @@ export default function CompanySearchPage() {
 
   const itemsPerPage = 20;
 
-  // Available AI models with cost and quality information
-  const aiModels: AIModelConfig[] = [
-    {
-      modelType: 'fast',
-      name: 'Claude-3-Haiku',
-      description: 'Fastest analysis with basic insights',
-      cost: 'Low',
-      quality: 'Good'
-    },
-    {
-      modelType: 'balanced',
-      name: 'GPT-4o-Mini', 
-      description: 'Balanced cost-performance for detailed insights',
-      cost: 'Medium',
-      quality: 'Very Good'
-    },
-    {
-      modelType: 'premium',
-      name: 'Claude-3-Opus',
-      description: 'Premium analysis with comprehensive insights',
-      cost: 'High',
-      quality: 'Excellent'
-    },
-    {
-      modelType: 'alternative',
-      name: 'Llama-3.1-8B',
-      description: 'Cost-effective alternative model',
-      cost: 'Very Low',
-      quality: 'Good'
-    }
-  ];
-
-  // Generate AI insights for a company using OpenRouter API
+  // Generate AI insights for a company with the team's AI provider
   const generateAIInsight = async (company: CompanySearchResult): Promise<AIInsight> => {
     try {
-      // Call the new OpenRouter AI insights API
       const response = await fetch('/api/ai/insights', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          company: {
-            company_name: company.title,
-            company_number: company.company_number,
-            company_status: company.company_status,
-            company_type: company.company_type,
-            date_of_creation: company.date_of_creation,
-            registered_address: company.address ? [
-              company.address.premises,
-              company.address.address_line_1,
-              company.address.locality,
-              company.address.postal_code
-            ].filter(Boolean).join(', ') : undefined,
-            sic_codes: (company as any).sic_codes || []
-          },
-          modelType: selectedModel
-        })
+        body: JSON.stringify({ companyNumber: company.company_number })
       });
 
       if (response.ok) {
-        const aiInsight = await response.json();
-        console.log(`✅ OpenRouter AI insight generated for ${company.title}`);
+        const { insights } = await response.json();
+        console.log(`✅ AI insight generated for ${company.title} (${insights.provider})`);
         
         return {
           company_number: company.company_number,
-          risk_score: aiInsight.risk_score,
-          business_summary: aiInsight.business_summary,
-          key_strengths: aiInsight.key_strengths,
-          potential_risks: aiInsight.potential_risks,
-          market_position: aiInsight.market_position,
-          last_updated: aiInsight.last_updated,
-          confidence_score: aiInsight.confidence_score
+          risk_score: insights.riskScore,
+          business_summary: insights.summary,
+          key_strengths: insights.strengths,
+          potential_risks: insights.riskFactors.map((factor: { risk: string }) => factor.risk),
+          market_position: insights.marketPosition,
+          last_updated: insights.generatedAt,
+          confidence_score: insights.confidence,
+          degraded: insights.validation?.status === 'failed'
         };
       } else {
         console.warn(`⚠️ AI API failed for ${company.title}, using fallback data`);
@@ -174,7 +118,7 @@ export default function CompanySearchPage() {
     } catch (error) {
       console.warn(`⚠️ Falling back to mock data for ${company.title}:`, error);
       
-      // Fallback to mock data if OpenRouter API fails (preserves UX)
+      // Fallback to mock data if the AI service fails (preserves UX)
       const riskScores: Record<string, number> = {
         'active': Math.floor(Math.random() * 30) + 15,
         'dissolved': 85 + Math.floor(Math.random() * 15),
@@ -209,7 +153,8 @@ export default function CompanySearchPage() {
         market_position: company.company_type === 'plc' ? 'Major Market Player' : 
                         company.company_type === 'llp' ? 'Professional Services' : 'Specialized Business',
         last_updated: new Date().toISOString(),
-        confidence_score: 85 + Math.floor(Math.random() * 10) // 85-95% for fallback
+        confidence_score: 85 + Math.floor(Math.random() * 10), // 85-95% for fallback
+        degraded: true
       };
     }
   };
@@ -359,27 +304,9 @@ export default function CompanySearchPage() {
             </button>
           </div>
 
-          {/* AI Model Selector */}
-          {aiMode && (
-            <div className="flex items-center space-x-2">
-              <span className="text-xs text-gray-600">Model:</span>
-              <select
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value as AIModelConfig['modelType'])}
-                className="text-xs px-2 py-1 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                {aiModels.map((model) => (
-                  <option key={model.modelType} value={model.modelType}>
-                    {model.name} ({model.cost})
-                  </option>
-                ))}
-              </select>
-            </div>
-          )}
-
           <Badge variant="outline" className="bg-gradient-to-r from-blue-50 to-purple-50 text-blue-700 border-blue-200">
             <Zap className="h-3 w-3 mr-1" />
-            OpenRouter AI
+            Team AI Provider
           </Badge>
         </div>
       </div>
@@ -798,6 +725,11 @@ export default function CompanySearchPage() {
                                 <Badge variant="outline" className="text-xs bg-white/50">
                                   {aiInsight.confidence_score}% confidence
                                 </Badge>
+                                {aiInsight.degraded && (
+                                  <Badge variant="outline" className="text-xs bg-amber-100 text-amber-800 border-amber-200">
+                                    Degraded
+                                  </Badge>
+                                )}
                               </div>
                               <p className="text-sm text-blue-800 leading-relaxed">
                                 {aiInsight.business_summary}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,8 +14,157 @@ import {
   Bell,
   Download,
   Save,
-  MoreHorizontal
+  MoreHorizontal,
+  Brain,
+  Loader2
 } from 'lucide-react';
+import type { AIProviderId, TeamAISettings } from '@/lib/ai/types';
+
+interface AIProviderOption {
+  id: AIProviderId;
+  name: string;
+  models: string[];
+  defaultModel: string;
+  configured: boolean;
+}
+
+// Team-wide AI provider and model, used for every AI insight the team generates
+function AIProviderSettings() {
+  const [providers, setProviders] = useState<AIProviderOption[]>([]);
+  const [provider, setProvider] = useState<AIProviderId | ''>('');
+  const [model, setModel] = useState('');
+  const [failover, setFailover] = useState(true);
+  const [canEdit, setCanEdit] = useState(false);
+  const [offline, setOffline] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/ai/settings')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!data) return;
+        const settings: TeamAISettings | null = data.settings;
+        setProviders(data.providers);
+        setCanEdit(data.canEdit);
+        setOffline(!!data.offline);
+        setProvider(settings?.provider || '');
+        setModel(settings?.model || '');
+        setFailover(!settings || settings.fallbackProviders === undefined || settings.fallbackProviders.length > 0);
+      })
+      .catch(() => setProviders([]));
+  }, []);
+
+  const selected = providers.find(p => p.id === provider);
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/ai/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          settings: provider
+            ? { provider, model: model || undefined, fallbackProviders: failover ? undefined : [] }
+            : null
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to save AI settings');
+      }
+
+      setMessage('AI settings saved');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save AI settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Brain className="h-5 w-5" />
+          <span>AI Provider</span>
+        </CardTitle>
+        <CardDescription>
+          The provider and model your team's company insights and risk scores are generated with
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {offline && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+            This deployment runs AI analysis offline from recorded and rule-based responses. Team settings apply once a live provider is enabled.
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="aiProvider">Provider</Label>
+            <select
+              id="aiProvider"
+              value={provider}
+              disabled={!canEdit}
+              onChange={(e) => {
+                setProvider(e.target.value as AIProviderId | '');
+                setModel('');
+              }}
+              className="w-full text-sm px-3 py-2 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Platform default</option>
+              {providers.map(p => (
+                <option key={p.id} value={p.id} disabled={!p.configured}>
+                  {p.name}{p.configured ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="aiModel">Model</Label>
+            <select
+              id="aiModel"
+              value={model}
+              disabled={!canEdit || !selected}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full text-sm px-3 py-2 border border-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">{selected ? `Default (${selected.defaultModel})` : 'Provider default'}</option>
+              {selected?.models.map(m => (
+                <option key={m} value={m}>{m}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label htmlFor="aiFailover">Automatic Failover</Label>
+            <p className="text-sm text-gray-600">Use another configured provider when the selected one is unavailable</p>
+          </div>
+          <Switch
+            id="aiFailover"
+            checked={failover}
+            disabled={!canEdit || !provider}
+            onCheckedChange={setFailover}
+          />
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Button onClick={save} disabled={!canEdit || saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save AI Settings
+          </Button>
+          {message && <span className="text-sm text-gray-600">{message}</span>}
+          {!canEdit && <span className="text-sm text-gray-500">Viewers cannot change the AI provider</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('team');
@@ -309,6 +458,8 @@ export default function SettingsPage() {
               </div>
             </CardContent>
           </Card>
+
+          <AIProviderSettings />
         </div>
       )}
     </div>
@@ -1,48 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openRouterClient, type CompanyAnalysisRequest } from '@/lib/openrouter/client';
+import { getCompanyInsight } from '@/lib/ai/company-insights';
+import { aiService } from '@/lib/ai/ai-service';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
 
 export async function POST(request: NextRequest) {
   try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
-    const { company, modelType = 'balanced' } = body as { 
-      company: CompanyAnalysisRequest; 
-      modelType?: 'fast' | 'balanced' | 'premium' | 'alternative' | 'haiku';
+    // Older clients send the whole search result as `company`; only its number is used
+    const { companyNumber = body?.company?.company_number, refresh = false } = body as {
+      companyNumber?: string;
+      refresh?: boolean;
     };
 
-    if (!company) {
+    if (typeof companyNumber !== 'string' || !companyNumber) {
       return NextResponse.json(
-        { error: 'Company data is required' },
+        { error: 'Company number is required' },
         { status: 400 }
       );
     }
 
-    // Validate required company fields
-    if (!company.company_name || !company.company_number || !company.company_status) {
+    // Validate company number format
+    if (!/^[A-Z0-9]{2,8}$/i.test(companyNumber)) {
       return NextResponse.json(
-        { error: 'Missing required company fields: name, number, status' },
+        { error: 'Invalid company number format' },
         { status: 400 }
       );
     }
 
-    // Generate AI insights using OpenRouter
-    console.log(`🤖 Generating AI insights for ${company.company_name} (${company.company_number}) using ${modelType} model...`);
-    
-    const insights = await openRouterClient.generateCompanyInsight(company, modelType);
-
-    // Add metadata
-    const response = {
-      ...insights,
-      last_updated: new Date().toISOString(),
-      company_number: company.company_number,
-      generated_by: 'openrouter',
-      model_used: 'anthropic/claude-3-sonnet'
-    };
-
-    console.log(`✅ AI insights generated successfully for ${company.company_name}`);
+    // Generated from Companies House data with the team's provider, never from client-supplied details
+    const { insight, usage, company, cached } = await getCompanyInsight({
+      companyNumber,
+      rateLimitKey: `user:${user.id}`,
+      user: { id: user.id, email: user.email },
+      refresh: refresh === true
+    });
 
-    return NextResponse.json(response, {
-      headers: {
-        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
+    return NextResponse.json({
+      insights: insight,
+      company,
+      metadata: {
+        tokensUsed: insight.tokensUsed,
+        usage,
+        cached,
+        costTracking: aiService.getCostTracking(user.id)
       }
     });
 
@@ -51,43 +62,43 @@ export async function POST(request: NextRequest) {
 
     if (error instanceof Error) {
       // Handle specific error types
-      if (error.message.includes('Rate limit exceeded')) {
+      if (error.message.includes('AI Service Unavailable')) {
         return NextResponse.json(
-          { 
-            error: 'Rate limit exceeded',
-            message: 'Too many AI analysis requests. Please try again later.',
-            type: 'rate_limit_error'
+          {
+            error: 'AI service unavailable',
+            message: 'AI analysis service is temporarily unavailable.',
+            type: 'service_error'
           },
-          { status: 429 }
+          { status: 503 }
         );
       }
 
-      if (error.message.includes('Insufficient credits')) {
+      if (error.message.includes('Not Found')) {
         return NextResponse.json(
-          { 
-            error: 'Insufficient AI credits',
-            message: 'Please add credits to your OpenRouter account to continue using AI features.',
-            type: 'credits_error'
+          {
+            error: 'Company not found',
+            message: 'No company found with that number',
+            type: 'not_found_error'
           },
-          { status: 402 }
+          { status: 404 }
         );
       }
 
-      if (error.message.includes('Invalid OpenRouter API key')) {
+      if (error.message.includes('Rate limit exceeded')) {
         return NextResponse.json(
-          { 
-            error: 'AI service unavailable',
-            message: 'AI analysis service is temporarily unavailable.',
-            type: 'service_error'
+          {
+            error: 'Rate limit exceeded',
+            message: 'Too many AI analysis requests. Please try again later.',
+            type: 'rate_limit_error'
           },
-          { status: 503 }
+          { status: 429 }
         );
       }
     }
 
     // Generic error response
     return NextResponse.json(
-      { 
+      {
         error: 'Internal server error',
         message: 'An unexpected error occurred while generating AI insights',
         type: 'internal_error'
@@ -97,16 +108,24 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Test endpoint for checking OpenRouter connection
-export async function GET(request: NextRequest) {
+// Test endpoint for checking every configured AI provider
+export async function GET() {
   try {
-    const connectionTest = await openRouterClient.testConnection();
-    
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const providers = await aiService.checkProviders();
+
     return NextResponse.json({
-      status: connectionTest.success ? 'connected' : 'error',
-      model: connectionTest.model,
-      credits: connectionTest.credits,
-      error: connectionTest.error,
+      status: providers.some(p => p.status === 'healthy') ? 'connected' : 'error',
+      providers,
       timestamp: new Date().toISOString()
     });
 
@@ -120,4 +139,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
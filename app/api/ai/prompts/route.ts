@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTeamContext } from '@/lib/graph/saved-views';
+import {
+  assignPromptVersion,
+  getPromptRollout,
+  getPromptTemplate,
+  listPromptTemplates
+} from '@/lib/ai/prompts';
+
+/**
+ * The prompt registry: every template version with its full text, and the version of
+ * each prompt the caller's team is assigned. With ?id= (and optionally &version=)
+ * returns a single template, so the prompt behind an insight's stamp can be shown.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'The prompt registry requires team membership' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const versionParam = searchParams.get('version');
+
+    if (id) {
+      const version = versionParam === null ? undefined : parseInt(versionParam, 10);
+      if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+        return NextResponse.json(
+          { error: 'version must be a positive integer' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        template: getPromptTemplate(id, version),
+        rollout: getPromptRollout(id),
+        assignedVersion: assignPromptVersion(id, context.teamId)
+      });
+    }
+
+    const templates = listPromptTemplates();
+    const promptIds = Array.from(new Set(templates.map(template => template.id)));
+
+    return NextResponse.json({
+      templates,
+      assignments: promptIds.map(promptId => ({
+        promptId,
+        version: assignPromptVersion(promptId, context.teamId),
+        rollout: getPromptRollout(promptId)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Prompt registry error:', error);
+
+    if (error instanceof Error && error.message.includes('Unknown prompt')) {
+      return NextResponse.json(
+        {
+          error: 'Prompt not found',
+          message: error.message,
+          type: 'not_found_error'
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading prompts',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
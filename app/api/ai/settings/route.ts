@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTeamAISettings, updateTeamAISettings } from '@/lib/db/queries-nexus';
+import { getTeamContext } from '@/lib/graph/saved-views';
+import {
+  AI_PROVIDERS,
+  DEFAULT_PROVIDER_ORDER,
+  TEAM_SELECTABLE_PROVIDERS,
+  getConfiguredProvider,
+  validateTeamAISettings
+} from '@/lib/ai/providers';
+import type { TeamAISettings } from '@/lib/ai/types';
+
+function listProviders() {
+  return TEAM_SELECTABLE_PROVIDERS.map(id => AI_PROVIDERS[id]).map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    models: provider.models,
+    defaultModel: provider.defaultModel,
+    configured: provider.isConfigured()
+  }));
+}
+
+/**
+ * The team's AI provider and model, with the providers it can choose from
+ */
+export async function GET() {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'AI settings require team membership' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await getTeamAISettings(context.teamId);
+
+    return NextResponse.json({
+      settings,
+      providers: listProviders(),
+      defaultOrder: DEFAULT_PROVIDER_ORDER,
+      offline: getConfiguredProvider() === 'local', // Team settings have no effect while offline
+      canEdit: context.canEdit
+    });
+
+  } catch (error) {
+    console.error('AI settings load error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading AI settings',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Choose the team's AI provider, model and failover order. A null body setting
+ * returns the team to the default providers.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'AI settings require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot change the AI provider',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { settings } = body as { settings: TeamAISettings | null };
+
+    if (settings !== null) {
+      const validationError = validateTeamAISettings(settings);
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+
+      if (!AI_PROVIDERS[settings.provider].isConfigured()) {
+        return NextResponse.json(
+          { error: `${AI_PROVIDERS[settings.provider].name} is not configured on this deployment` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Store only the known fields
+    const saved = await updateTeamAISettings(context.teamId, settings && {
+      provider: settings.provider,
+      ...(settings.model ? { model: settings.model } : {}),
+      ...(settings.fallbackProviders ? { fallbackProviders: settings.fallbackProviders } : {})
+    });
+
+    return NextResponse.json({ settings: saved });
+
+  } catch (error) {
+    console.error('AI settings update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while saving AI settings',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
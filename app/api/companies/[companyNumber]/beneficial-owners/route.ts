@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { companiesHouseClient } from '@/lib/companies-house/client';
+import { resolveUltimateOwners, UBO_THRESHOLD } from '@/lib/companies-house/ownership';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+
+interface RouteParams {
+  params: Promise<{
+    companyNumber: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { companyNumber } = await params;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!companyNumber) {
+      return NextResponse.json(
+        { error: 'Company number is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate company number format
+    if (!/^[A-Z0-9]{2,8}$/i.test(companyNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid company number format' },
+        { status: 400 }
+      );
+    }
+
+    // Use user ID for rate limiting
+    const rateLimitKey = `user:${user.id}`;
+
+    // Optional threshold override as a percentage (defaults to the 25% KYB threshold)
+    const { searchParams } = new URL(request.url);
+    const thresholdParam = searchParams.get('threshold');
+    const threshold = thresholdParam ? Number(thresholdParam) / 100 : UBO_THRESHOLD;
+
+    if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+      return NextResponse.json(
+        { error: 'threshold must be a percentage between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    // Confirms the company exists before walking its PSC chain
+    const companyProfile = await companiesHouseClient.getCompanyProfile(
+      companyNumber.toUpperCase(),
+      { rateLimitKey }
+    );
+
+    const ownership = await resolveUltimateOwners(companyProfile.company_number, {
+      rateLimitKey,
+      threshold
+    });
+
+    // Get rate limit status
+    const rateLimitStatus = companiesHouseClient.getRateLimitStatus(rateLimitKey);
+
+    return NextResponse.json({
+      companyName: companyProfile.company_name,
+      ...ownership
+    }, {
+      headers: {
+        'X-RateLimit-Limit': rateLimitStatus.limit.toString(),
+        'X-RateLimit-Remaining': rateLimitStatus.remaining.toString(),
+        'X-RateLimit-Reset': new Date(rateLimitStatus.resetTime).toISOString(),
+      }
+    });
+
+  } catch (error) {
+    console.error('Beneficial owners error:', error);
+
+    if (error instanceof Error) {
+      // Handle specific error types
+      if (error.message.includes('Not Found')) {
+        return NextResponse.json(
+          {
+            error: 'Company not found',
+            message: `No company found with number: ${companyNumber}`,
+            type: 'not_found_error'
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Rate limit exceeded')) {
+        return NextResponse.json(
+          {
+            error: 'Rate limit exceeded',
+            message: 'Too many requests. Please try again later.',
+            type: 'rate_limit_error'
+          },
+          { status: 429 }
+        );
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while resolving beneficial owners',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
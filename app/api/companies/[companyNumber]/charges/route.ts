@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { companiesHouseClient } from '@/lib/companies-house/client';
+import { summarizeCharges } from '@/lib/companies-house/charges';
+import { saveCompanyCharges } from '@/lib/db/queries-nexus';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import type { Charge } from '@/lib/companies-house/types';
+
+interface RouteParams {
+  params: Promise<{
+    companyNumber: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { companyNumber } = await params;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!companyNumber) {
+      return NextResponse.json(
+        { error: 'Company number is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate company number format
+    if (!/^[A-Z0-9]{2,8}$/i.test(companyNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid company number format' },
+        { status: 400 }
+      );
+    }
+
+    // Use user ID for rate limiting
+    const rateLimitKey = `user:${user.id}`;
+
+    const companyProfile = await companiesHouseClient.getCompanyProfile(
+      companyNumber.toUpperCase(),
+      { rateLimitKey }
+    );
+
+    // Companies House returns 404 for the charges register when nothing was ever registered
+    let charges: Charge[] = [];
+    if (companyProfile.has_charges) {
+      const chargesResponse = await companiesHouseClient.getCompanyCharges(
+        companyProfile.company_number,
+        { rateLimitKey }
+      );
+      charges = chargesResponse.items || [];
+    }
+
+    const summary = summarizeCharges(charges);
+
+    // Persist alongside the cached company record (best effort). Not awaited, so a
+    // slow or unavailable database never holds up or fails the read.
+    saveCompanyCharges(companyProfile, charges, summary).catch(dbError => {
+      console.warn('Failed to persist company charges:', dbError);
+    });
+
+    // Get rate limit status
+    const rateLimitStatus = companiesHouseClient.getRateLimitStatus(rateLimitKey);
+
+    return NextResponse.json({
+      companyNumber: companyProfile.company_number,
+      charges,
+      summary
+    }, {
+      headers: {
+        'X-RateLimit-Limit': rateLimitStatus.limit.toString(),
+        'X-RateLimit-Remaining': rateLimitStatus.remaining.toString(),
+        'X-RateLimit-Reset': new Date(rateLimitStatus.resetTime).toISOString(),
+      }
+    });
+
+  } catch (error) {
+    console.error('Company charges error:', error);
+
+    if (error instanceof Error) {
+      // Handle specific error types
+      if (error.message.includes('Not Found')) {
+        return NextResponse.json(
+          {
+            error: 'Company not found',
+            message: `No company found with number: ${companyNumber}`,
+            type: 'not_found_error'
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Rate limit exceeded')) {
+        return NextResponse.json(
+          {
+            error: 'Rate limit exceeded',
+            message: 'Too many requests. Please try again later.',
+            type: 'rate_limit_error'
+          },
+          { status: 429 }
+        );
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while fetching company charges',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { companiesHouseClient } from '@/lib/companies-house/client';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import type { FilingCategory } from '@/lib/companies-house/types';
+
+interface RouteParams {
+  params: Promise<{
+    companyNumber: string;
+  }>;
+}
+
+const FILING_CATEGORIES: FilingCategory[] = [
+  'accounts', 'address', 'annual-return', 'capital', 'change-of-name',
+  'confirmation-statement', 'gazette', 'incorporation', 'insolvency',
+  'liquidation', 'miscellaneous', 'mortgage', 'officers',
+  'persons-with-significant-control', 'resolution'
+];
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { companyNumber } = await params;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!companyNumber) {
+      return NextResponse.json(
+        { error: 'Company number is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate company number format
+    if (!/^[A-Z0-9]{2,8}$/i.test(companyNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid company number format' },
+        { status: 400 }
+      );
+    }
+
+    // Get query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const categoryParam = searchParams.get('category');
+    const dateFrom = searchParams.get('date_from');
+    const dateTo = searchParams.get('date_to');
+    const maxItems = parseInt(searchParams.get('max_items') || '500');
+
+    const categories = categoryParam
+      ? categoryParam.split(',').map(c => c.trim()).filter(Boolean) as FilingCategory[]
+      : [];
+
+    // Validate parameters
+    const invalidCategories = categories.filter(c => !FILING_CATEGORIES.includes(c));
+    if (invalidCategories.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid category: ${invalidCategories.join(', ')}. Must be one of: ${FILING_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if ((dateFrom && !datePattern.test(dateFrom)) || (dateTo && !datePattern.test(dateTo))) {
+      return NextResponse.json(
+        { error: 'date_from and date_to must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (dateFrom && dateTo && dateFrom > dateTo) {
+      return NextResponse.json(
+        { error: 'date_from must be on or before date_to' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(maxItems) || maxItems < 1 || maxItems > 1000) {
+      return NextResponse.json(
+        { error: 'max_items must be between 1 and 1000' },
+        { status: 400 }
+      );
+    }
+
+    // Use user ID for rate limiting
+    const rateLimitKey = `user:${user.id}`;
+
+    // Get filing history
+    const filings = await companiesHouseClient.getFilingHistory(
+      companyNumber.toUpperCase(),
+      {
+        category: categories.length > 0 ? categories : undefined,
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+        maxItems,
+        rateLimitKey
+      }
+    );
+
+    // Get rate limit status
+    const rateLimitStatus = companiesHouseClient.getRateLimitStatus(rateLimitKey);
+
+    // Return filings with rate limit headers
+    return NextResponse.json(filings, {
+      headers: {
+        'X-RateLimit-Limit': rateLimitStatus.limit.toString(),
+        'X-RateLimit-Remaining': rateLimitStatus.remaining.toString(),
+        'X-RateLimit-Reset': new Date(rateLimitStatus.resetTime).toISOString(),
+      }
+    });
+
+  } catch (error) {
+    console.error('Company filing history error:', error);
+
+    if (error instanceof Error) {
+      // Handle specific error types
+      if (error.message.includes('Not Found')) {
+        return NextResponse.json(
+          {
+            error: 'Filing history not found',
+            message: `No filing history found for company: ${companyNumber}`,
+            type: 'not_found_error'
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.includes('Rate limit exceeded')) {
+        return NextResponse.json(
+          {
+            error: 'Rate limit exceeded',
+            message: 'Too many requests. Please try again later.',
+            type: 'rate_limit_error'
+          },
+          { status: 429 }
+        );
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while fetching filing history',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
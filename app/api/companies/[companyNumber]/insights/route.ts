@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { companiesHouseClient } from '@/lib/companies-house/client';
-import { deepSeekClient } from '@/lib/ai/deepseek-client';
+import { getCompanyInsight } from '@/lib/ai/company-insights';
+import { aiService } from '@/lib/ai/ai-service';
 import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
 
 interface RouteParams {
@@ -40,56 +40,52 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Get request options
-    const body = await request.json();
+    const body = await request.json().catch(() => ({}));
     const {
       includeRiskAnalysis = true,
       includeFinancialInsights = true,
       includeCompetitiveAnalysis = false,
       maxTokens = 2000,
-      temperature = 0.3
+      temperature = 0.3,
+      refresh = false
     } = body;
 
+    if (!Number.isInteger(maxTokens) || maxTokens < 100 || maxTokens > 4000
+      || typeof temperature !== 'number' || temperature < 0 || temperature > 1) {
+      return NextResponse.json(
+        { error: 'maxTokens must be an integer between 100 and 4000 and temperature a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
     // Use user ID for rate limiting
     const rateLimitKey = `user:${user.id}`;
 
     try {
-      // Get company data from Companies House
-      const [companyProfile, officers] = await Promise.all([
-        companiesHouseClient.getCompanyProfile(companyNumber.toUpperCase(), { rateLimitKey }),
-        companiesHouseClient.getCompanyOfficers(companyNumber.toUpperCase(), { 
-          rateLimitKey,
-          itemsPerPage: 10 // Limit officers for AI analysis
-        }).catch(() => ({ items: [] })) // Fallback if officers not available
-      ]);
-
-      // Generate AI insights
-      const insights = await deepSeekClient.analyzeCompany(
-        companyProfile,
-        officers.items || [],
-        {
+      // Same provider settings, prompt and risk normalisation as every other insight route
+      const { insight, usage, company, cached } = await getCompanyInsight({
+        companyNumber,
+        rateLimitKey,
+        user: { id: user.id, email: user.email },
+        options: {
           includeRiskAnalysis,
           includeFinancialInsights,
           includeCompetitiveAnalysis,
           maxTokens,
-          temperature,
-          userId: user.id
-        }
-      );
-
-      // Get cost tracking info
-      const costInfo = deepSeekClient.getCostTracking(user.id);
+          temperature
+        },
+        refresh: refresh === true
+      });
 
       // Return insights with metadata
       return NextResponse.json({
-        insights,
-        company: {
-          name: companyProfile.company_name,
-          number: companyProfile.company_number,
-          status: companyProfile.company_status
-        },
+        insights: insight,
+        company,
         metadata: {
-          tokensUsed: insights.tokensUsed,
-          costTracking: costInfo,
+          tokensUsed: insight.tokensUsed,
+          usage,
+          cached,
+          costTracking: aiService.getCostTracking(user.id),
           analysisOptions: {
             includeRiskAnalysis,
             includeFinancialInsights,
@@ -120,7 +116,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     if (error instanceof Error) {
       // Handle specific error types
-      if (error.message.includes('DeepSeek API Error')) {
+      if (error.message.includes('AI Service Unavailable')) {
         return NextResponse.json(
           { 
             error: 'AI analysis failed',
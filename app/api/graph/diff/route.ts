@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffGraphs } from '@/lib/graph/diff';
+import { validateGraphData } from '@/lib/graph/exporters';
+import { networkBuilder } from '@/lib/graph/network-builder';
+import { getSavedNetworkView } from '@/lib/db/queries-nexus';
+import { getTeamContext, isViewId } from '@/lib/graph/saved-views';
+import { pdfGenerator } from '@/lib/reports/pdf-generator';
+import { apiManager } from '@/lib/api-keys/enterprise-api-manager';
+import type { GraphData } from '@/lib/graph/types';
+
+const MAX_DIFF_NODES = 5000;
+
+type SnapshotInput = GraphData | { viewId: string };
+
+interface ResolvedSnapshot {
+  graph: GraphData;
+  label: string;
+}
+
+/**
+ * Load a snapshot given inline or as a saved view ID belonging to the caller's team
+ */
+async function resolveSnapshot(input: SnapshotInput, teamId: number, fallbackLabel: string): Promise<ResolvedSnapshot | null> {
+  if (input && 'viewId' in input) {
+    const view = isViewId(input.viewId) ? await getSavedNetworkView(input.viewId, teamId) : null;
+    if (!view) return null;
+    return {
+      graph: view.graphData as GraphData,
+      label: `${view.name} (${view.snapshotAt.toISOString().split('T')[0]})`
+    };
+  }
+
+  // Inline graphs can end up in a PDF report, so they get the same checks as exports
+  const graph = input as GraphData;
+  return validateGraphData(graph, MAX_DIFF_NODES) ? null : { graph, label: fallbackLabel };
+}
+
+function rootNodeId(graph: GraphData): string | undefined {
+  return graph.nodes.find(node => node.data.level === 0)?.id;
+}
+
+/**
+ * Compare two snapshots of the same root company. Each side is either a GraphData
+ * object or { viewId } for a saved view. With `report: true` the change set is
+ * returned as a PDF network report instead of JSON, which needs the network:export scope.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Comparing snapshots requires team membership' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.report === true && !await apiManager.userHasScope(context.authUserId, 'network:export')) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'The network:export scope is required to export network reports',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const [before, after] = await Promise.all([
+      resolveSnapshot(body.before, context.teamId, 'previous snapshot'),
+      resolveSnapshot(body.after, context.teamId, 'current network')
+    ]);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: `before and after must each be a well-formed graph with at most ${MAX_DIFF_NODES} nodes or { viewId } of a saved view` },
+        { status: 400 }
+      );
+    }
+
+    const root = rootNodeId(after.graph);
+    if (!root || root !== rootNodeId(before.graph)) {
+      return NextResponse.json(
+        { error: 'Both snapshots must be of the same root company' },
+        { status: 400 }
+      );
+    }
+
+    const diff = diffGraphs(before.graph, after.graph);
+
+    if (body.report === true) {
+      const rootNode = after.graph.nodes.find(node => node.id === root)!;
+      const pdf = await pdfGenerator.generateNetworkReport(
+        after.graph,
+        rootNode.data.companyName || rootNode.data.label,
+        {
+          generatedBy: context.authorName,
+          generatedAt: new Date().toISOString(),
+          reportType: 'network_analysis',
+          version: '1.0',
+          requestId: crypto.randomUUID()
+        },
+        undefined,
+        {
+          comparison: { previous: before.graph, diff, comparedTo: before.label },
+          analysis: networkBuilder.analyzeNetwork(after.graph)
+        }
+      );
+
+      const filename = `network-changes-${rootNode.data.companyNumber || 'graph'}.pdf`;
+
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename.replace(/[^A-Za-z0-9._-]/g, '_')}"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      diff,
+      metadata: {
+        rootNodeId: root,
+        before: before.label,
+        after: after.label,
+        generatedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Graph diff error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while comparing network snapshots',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { networkBuilder } from '@/lib/graph/network-builder';
+import { validateGraphFilters } from '@/lib/graph/filters';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import type { CompanyNode, GraphFilters } from '@/lib/graph/types';
+
+const MAX_KNOWN_IDS = 10000;
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length <= MAX_KNOWN_IDS && value.every(id => typeof id === 'string');
+}
+
+/**
+ * Expand one node of an existing graph by a single hop, returning only the
+ * neighbours and connections the client does not already have
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { node, knownNodeIds, knownEdgeIds, filters, maxNodes = 100 } = body as {
+      node: CompanyNode;
+      knownNodeIds: string[];
+      knownEdgeIds?: string[];
+      filters?: Partial<GraphFilters>;
+      maxNodes?: number;
+    };
+
+    if (!node || typeof node.id !== 'string' || !node.data || !node.position
+      || !Number.isFinite(node.position.x) || !Number.isFinite(node.position.y)
+      || !Number.isInteger(node.data.level) || node.data.level < 0) {
+      return NextResponse.json(
+        { error: 'node must include an id, data with a level, and a position' },
+        { status: 400 }
+      );
+    }
+
+    const companyNumber = node.data.companyNumber;
+    const officerId = node.data.officerId;
+    const expandable = node.type === 'company'
+      ? typeof companyNumber === 'string' && /^[A-Z0-9]{2,8}$/i.test(companyNumber) && node.id === `company-${companyNumber}`
+      : node.type === 'officer' && typeof officerId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(officerId);
+
+    if (!expandable) {
+      return NextResponse.json(
+        { error: 'Only company nodes and officers with a Companies House officer ID can be expanded' },
+        { status: 400 }
+      );
+    }
+
+    if (!isIdList(knownNodeIds) || (knownEdgeIds !== undefined && !isIdList(knownEdgeIds))) {
+      return NextResponse.json(
+        { error: `knownNodeIds and knownEdgeIds must be arrays of at most ${MAX_KNOWN_IDS} IDs` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(maxNodes) || maxNodes < 1 || maxNodes > 500) {
+      return NextResponse.json(
+        { error: 'maxNodes must be an integer between 1 and 500' },
+        { status: 400 }
+      );
+    }
+
+    const filterError = validateGraphFilters(filters);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+
+    const graphFilters: GraphFilters = {
+      showOfficers: filters?.showOfficers ?? true,
+      showPSCs: filters?.showPSCs ?? true,
+      showAddresses: filters?.showAddresses ?? false,
+      showInactive: filters?.showInactive ?? false,
+      showResigned: filters?.showResigned ?? false,
+      ...filters,
+      maxHops: node.data.level + 1
+    };
+
+    // Use user ID for rate limiting, shared with full network builds
+    const rateLimitKey = `user:${user.id}:graph`;
+
+    try {
+      const { truncated, ...expansion } = await networkBuilder.expandNode(node, {
+        filters: graphFilters,
+        knownNodeIds,
+        knownEdgeIds,
+        rateLimitKey,
+        signal: request.signal,
+        maxNodes
+      });
+
+      return NextResponse.json({
+        nodes: expansion.nodes,
+        edges: expansion.edges,
+        metadata: {
+          nodeId: node.id,
+          generatedAt: new Date().toISOString(),
+          nodeCount: expansion.nodes.length,
+          edgeCount: expansion.edges.length,
+          maxNodes,
+          truncated
+        }
+      });
+
+    } catch (expandError) {
+      console.error('Node expansion error:', expandError);
+
+      if (expandError instanceof Error) {
+        if (expandError.message.includes('Aborted')) {
+          // Client went away - nobody is listening for the response
+          return NextResponse.json(
+            {
+              error: 'Request cancelled',
+              message: 'The expansion was cancelled',
+              type: 'cancelled_error'
+            },
+            { status: 499 }
+          );
+        }
+
+        if (expandError.message.includes('Not Found')) {
+          return NextResponse.json(
+            {
+              error: 'Node not found',
+              message: `Companies House has no record for ${node.id}`,
+              type: 'not_found_error'
+            },
+            { status: 404 }
+          );
+        }
+
+        if (expandError.message.includes('Rate limit exceeded')) {
+          return NextResponse.json(
+            {
+              error: 'Rate limit exceeded',
+              message: 'Too many requests. Please try again later.',
+              type: 'rate_limit_error'
+            },
+            { status: 429 }
+          );
+        }
+      }
+
+      throw expandError; // Re-throw for general error handling
+    }
+
+  } catch (error) {
+    console.error('Graph expansion error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while expanding the node',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { graphExporter, validateGraphData, type GraphExportFormat } from '@/lib/graph/exporters';
+import { renderGraphSVG } from '@/lib/graph/svg-renderer';
+import { networkBuilder } from '@/lib/graph/network-builder';
+import { pdfGenerator } from '@/lib/reports/pdf-generator';
+import { apiManager } from '@/lib/api-keys/enterprise-api-manager';
+import { auditLogger } from '@/lib/audit/audit-logger';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import type { GraphData, ExportFormat } from '@/lib/graph/types';
+
+type ImageFormat = Extract<ExportFormat, 'svg' | 'png'>;
+type ReportFormat = Extract<ExportFormat, 'pdf'>;
+
+const DATA_FORMATS: GraphExportFormat[] = ['graphml', 'gexf', 'cypher', 'json'];
+const IMAGE_FORMATS: ImageFormat[] = ['svg', 'png'];
+const REPORT_FORMATS: ReportFormat[] = ['pdf'];
+const EXPORT_FORMATS: Array<GraphExportFormat | ImageFormat | ReportFormat> = [...DATA_FORMATS, ...IMAGE_FORMATS, ...REPORT_FORMATS];
+const MAX_EXPORT_NODES = 5000;
+
+/**
+ * Resolve the caller and check the network:export scope. API clients send their key
+ * as a Bearer token; dashboard users are checked against their own key's scopes.
+ */
+async function authorizeExport(request: NextRequest): Promise<
+  { userId: string; allowed: boolean } | null
+> {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const validation = await apiManager.validateAPIKey(authorization.slice('Bearer '.length), ['network:export']);
+    if (!validation.user_id) return null;
+    return { userId: validation.user_id, allowed: validation.valid };
+  }
+
+  const supabase = createServerSupabaseClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) return null;
+
+  return { userId: user.id, allowed: await apiManager.userHasScope(user.id, 'network:export') };
+}
+
+/**
+ * Which export formats the caller may use, so the UI can hide the menu
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeExport(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      allowed: auth.allowed,
+      formats: auth.allowed ? EXPORT_FORMATS : [],
+      requiredScope: 'network:export'
+    });
+  } catch (error) {
+    console.error('Export permission check error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeExport(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!auth.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'The network:export scope is required to export graphs',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { format, graph, metadata, resolution, background } = body as {
+      format: GraphExportFormat | ImageFormat | ReportFormat;
+      graph: GraphData;
+      metadata?: { title?: string; description?: string; rootCompanyNumber?: string };
+      resolution?: number;
+      background?: string;
+    };
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const graphError = validateGraphData(graph, MAX_EXPORT_NODES);
+    if (graphError) {
+      return NextResponse.json(
+        { error: graphError },
+        { status: 400 }
+      );
+    }
+
+    if (resolution !== undefined && (typeof resolution !== 'number' || resolution < 1 || resolution > 4)) {
+      return NextResponse.json(
+        { error: 'resolution must be a number between 1 and 4' },
+        { status: 400 }
+      );
+    }
+
+    // Colours end up inside SVG attributes and CSS, so only accept simple values
+    if (background !== undefined && !/^(transparent|#[0-9a-f]{3,8}|[a-z]+)$/i.test(background)) {
+      return NextResponse.json(
+        { error: 'background must be a hex colour, a colour name or "transparent"' },
+        { status: 400 }
+      );
+    }
+
+    const file = await (async () => {
+      if (format === 'svg') {
+        const { svg } = renderGraphSVG(graph, { background, title: metadata?.title });
+        return { content: svg as string | Uint8Array<ArrayBuffer>, mimeType: 'image/svg+xml', extension: 'svg' };
+      }
+
+      if (format === 'png') {
+        const png = await pdfGenerator.generateNetworkImage(graph, { resolution, background, title: metadata?.title });
+        return { content: new Uint8Array(png) as string | Uint8Array<ArrayBuffer>, mimeType: 'image/png', extension: 'png' };
+      }
+
+      // Network report: the diagram plus the risk factors found in the exported graph
+      if (format === 'pdf') {
+        const root = graph.nodes.find(node => node.data.level === 0);
+        const pdf = await pdfGenerator.generateNetworkReport(
+          graph,
+          metadata?.title || root?.data.companyName || root?.data.label || 'Network',
+          {
+            generatedBy: auth.userId,
+            generatedAt: new Date().toISOString(),
+            reportType: 'network_analysis',
+            version: '1.0',
+            requestId: crypto.randomUUID()
+          },
+          undefined,
+          { analysis: networkBuilder.analyzeNetwork(graph) }
+        );
+        return { content: new Uint8Array(pdf) as string | Uint8Array<ArrayBuffer>, mimeType: 'application/pdf', extension: 'pdf' };
+      }
+
+      return graphExporter.export(graph, format, {
+        title: metadata?.title,
+        description: metadata?.description,
+        rootCompanyNumber: metadata?.rootCompanyNumber,
+        exportedBy: auth.userId
+      });
+    })();
+
+    await auditLogger.logExport('network_export', auth.userId, {
+      format,
+      file_size: typeof file.content === 'string' ? Buffer.byteLength(file.content) : file.content.byteLength,
+      record_count: graph.nodes.length,
+      export_type: 'graph',
+      company_numbers: metadata?.rootCompanyNumber ? [metadata.rootCompanyNumber] : undefined
+    });
+
+    const filename = `network-${metadata?.rootCompanyNumber || 'graph'}-${new Date().toISOString().split('T')[0]}.${file.extension}`;
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': typeof file.content === 'string' ? `${file.mimeType}; charset=utf-8` : file.mimeType,
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^A-Za-z0-9._-]/g, '_')}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Graph export error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while exporting the network graph',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
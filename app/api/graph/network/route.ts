@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { networkBuilder } from '@/lib/graph/network-builder';
+import { resolveUltimateOwners } from '@/lib/companies-house/ownership';
 import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
-import type { GraphFilters } from '@/lib/graph/types';
+import { getTeamMembershipByEmail } from '@/lib/db/queries-nexus';
+import { getTeamOfficerRulings } from '@/lib/graph/officer-decisions';
+import { validateGraphFilters } from '@/lib/graph/filters';
+import { validateGraphLayout } from '@/lib/graph/layouts';
+import type { GraphFilters, GraphLayout } from '@/lib/graph/types';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,7 +23,8 @@ export async function POST(request: NextRequest) {
 
     // Get request body
     const body = await request.json();
-    const { companyNumber, maxHops = 2, filters } = body;
+    const { companyNumber, maxHops = 2, filters, layout, maxNodes = 500, resolveOfficers = true } = body;
+    const asOfDate = body.asOfDate ?? filters?.asOfDate;
 
     if (!companyNumber) {
       return NextResponse.json(
@@ -43,6 +49,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate node budget
+    if (!Number.isInteger(maxNodes) || maxNodes < 1 || maxNodes > 2000) {
+      return NextResponse.json(
+        { error: 'maxNodes must be an integer between 1 and 2000' },
+        { status: 400 }
+      );
+    }
+
+    // Same checks as node expansion. A top-level asOfDate is shorthand for filters.asOfDate.
+    const filterError = validateGraphFilters(filters)
+      ?? (body.asOfDate !== undefined ? validateGraphFilters({ asOfDate: body.asOfDate }) : null);
+    if (filterError) {
+      return NextResponse.json(
+        { error: filterError },
+        { status: 400 }
+      );
+    }
+
+    const layoutError = validateGraphLayout(layout);
+    if (layoutError) {
+      return NextResponse.json(
+        { error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    if (typeof resolveOfficers !== 'boolean') {
+      return NextResponse.json(
+        { error: 'resolveOfficers must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const graphLayout: GraphLayout = {
+      type: layout?.type || 'hierarchical',
+      direction: layout?.direction || 'TB',
+      ...(layout?.seed !== undefined && { seed: layout.seed })
+    };
+
     // Set default filters
     const graphFilters: GraphFilters = {
       showOfficers: filters?.showOfficers ?? true,
@@ -51,35 +96,67 @@ export async function POST(request: NextRequest) {
       showInactive: filters?.showInactive ?? false,
       showResigned: filters?.showResigned ?? false,
       maxHops,
-      ...filters
+      ...filters,
+      asOfDate: asOfDate || undefined
     };
 
     // Use user ID for rate limiting
     const rateLimitKey = `user:${user.id}:graph`;
 
+    // Apply the team's confirmed and split officer matches on top of the scores
+    let officerRulings: Awaited<ReturnType<typeof getTeamOfficerRulings>> = [];
+    if (resolveOfficers && user.email) {
+      try {
+        const membership = await getTeamMembershipByEmail(user.email);
+        if (membership) officerRulings = await getTeamOfficerRulings(membership.teamId);
+      } catch (membershipError) {
+        console.error('Team lookup error:', membershipError);
+      }
+    }
+
     try {
-      // Generate network graph
-      const graphData = await networkBuilder.buildNetwork(
+      // Generate network graph (cancelled if the client disconnects)
+      const { truncated, officerMatches, ...graphData } = await networkBuilder.buildNetwork(
         companyNumber.toUpperCase(),
-        maxHops,
-        graphFilters,
-        rateLimitKey
+        {
+          maxHops,
+          filters: graphFilters,
+          rateLimitKey,
+          layout: graphLayout,
+          signal: request.signal,
+          maxNodes,
+          officerResolution: resolveOfficers ? { rulings: officerRulings } : false
+        }
       );
 
       // Analyze the network
-      const networkAnalysis = networkBuilder.analyzeNetwork();
+      const networkAnalysis = networkBuilder.analyzeNetwork(graphData);
+
+      // Resolve beneficial owners through the full PSC chain, beyond the graph's hop limit
+      let ultimateOwners = null;
+      try {
+        ultimateOwners = await resolveUltimateOwners(companyNumber.toUpperCase(), { rateLimitKey });
+      } catch (ownershipError) {
+        console.error('Beneficial ownership resolution error:', ownershipError);
+      }
 
       // Return the graph data and analysis
       return NextResponse.json({
         graph: graphData,
         analysis: networkAnalysis,
+        ultimateOwners,
+        officerMatches,
         metadata: {
           companyNumber: companyNumber.toUpperCase(),
           maxHops,
           filters: graphFilters,
+          layout: graphLayout,
+          asOfDate: asOfDate || null,
           generatedAt: new Date().toISOString(),
           nodeCount: graphData.nodes.length,
-          edgeCount: graphData.edges.length
+          edgeCount: graphData.edges.length,
+          maxNodes,
+          truncated
         }
       });
 
@@ -87,6 +164,18 @@ export async function POST(request: NextRequest) {
       console.error('Network building error:', networkError);
       
       if (networkError instanceof Error) {
+        if (networkError.message.includes('Aborted')) {
+          // Client went away - nobody is listening for the response
+          return NextResponse.json(
+            { 
+              error: 'Request cancelled',
+              message: 'The network build was cancelled',
+              type: 'cancelled_error'
+            },
+            { status: 499 }
+          );
+        }
+
         if (networkError.message.includes('Not Found')) {
           return NextResponse.json(
             { 
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteOfficerMatchDecision } from '@/lib/db/queries-nexus';
+import { getTeamContext } from '@/lib/graph/saved-views';
+
+interface RouteParams {
+  params: Promise<{
+    decisionId: string;
+  }>;
+}
+
+/**
+ * Withdraw a decision so the pair goes back to being scored automatically
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { decisionId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Officer match decisions require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot withdraw officer match decisions',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const id = Number(decisionId);
+    const deleted = Number.isInteger(id) && id > 0 && await deleteOfficerMatchDecision(id, context.teamId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Officer match decision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Officer match decision delete error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while withdrawing the officer match decision',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
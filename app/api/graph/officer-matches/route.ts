@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { upsertOfficerMatchDecision, getTeamOfficerMatchDecisions } from '@/lib/db/queries-nexus';
+import { getTeamContext } from '@/lib/graph/saved-views';
+import { isOfficerNodeId, toOfficerMatchDecisionResponse } from '@/lib/graph/officer-decisions';
+
+const DECISIONS = ['confirmed', 'split'] as const;
+
+/**
+ * List the team's confirmed and split officer matches
+ */
+export async function GET() {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Officer match decisions require team membership' },
+        { status: 401 }
+      );
+    }
+
+    const decisions = await getTeamOfficerMatchDecisions(context.teamId);
+
+    return NextResponse.json({
+      decisions: decisions.map(toOfficerMatchDecisionResponse),
+      canEdit: context.canEdit
+    });
+
+  } catch (error) {
+    console.error('Officer match list error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading officer match decisions',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Record that two officer nodes are the same person (confirmed) or different people (split).
+ * The decision applies to every network the team builds from then on.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Officer match decisions require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot confirm or split officer matches',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { nodeIds, decision, confidence, note } = body as {
+      nodeIds: [string, string];
+      decision: typeof DECISIONS[number];
+      confidence?: number;
+      note?: string;
+    };
+
+    if (!Array.isArray(nodeIds) || nodeIds.length !== 2 || !nodeIds.every(isOfficerNodeId) || nodeIds[0] === nodeIds[1]) {
+      return NextResponse.json(
+        { error: 'nodeIds must be two different officer node IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (!DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: `decision must be one of: ${DECISIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+      return NextResponse.json(
+        { error: 'confidence must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && (typeof note !== 'string' || note.length > 2000)) {
+      return NextResponse.json(
+        { error: 'note must be a string of at most 2000 characters' },
+        { status: 400 }
+      );
+    }
+
+    // Pairs are stored in sorted order so either direction finds the same row
+    const [officerNodeId, matchedNodeId] = [...nodeIds].sort();
+
+    const saved = await upsertOfficerMatchDecision({
+      teamId: context.teamId,
+      officerNodeId,
+      matchedNodeId,
+      decision,
+      confidence: confidence !== undefined ? confidence.toFixed(3) : null,
+      note: note || null,
+      decidedBy: context.userId
+    });
+
+    return NextResponse.json(
+      { decision: toOfficerMatchDecisionResponse(saved) },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Officer match decision error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while saving the officer match decision',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pathFinder, type PathEndpoint } from '@/lib/graph/path-finder';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+
+const COMPANY_NUMBER_PATTERN = /^[A-Z0-9]{2,8}$/i;
+const OFFICER_ID_PATTERN = /^[A-Za-z0-9_-]{5,64}$/;
+
+/**
+ * Normalise a `from`/`to` body value. A bare string is treated as a company number.
+ */
+function parseEndpoint(value: unknown): PathEndpoint | null {
+  if (typeof value === 'string') {
+    return COMPANY_NUMBER_PATTERN.test(value)
+      ? { type: 'company', companyNumber: value.toUpperCase() }
+      : null;
+  }
+
+  if (!value || typeof value !== 'object') return null;
+  const endpoint = value as Record<string, unknown>;
+
+  if (endpoint.type === 'company' && typeof endpoint.companyNumber === 'string' && COMPANY_NUMBER_PATTERN.test(endpoint.companyNumber)) {
+    return { type: 'company', companyNumber: endpoint.companyNumber.toUpperCase() };
+  }
+
+  if (endpoint.type === 'officer' && typeof endpoint.officerId === 'string' && OFFICER_ID_PATTERN.test(endpoint.officerId)) {
+    return { type: 'officer', officerId: endpoint.officerId };
+  }
+
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get request body
+    const body = await request.json();
+    const { k = 3, maxDepth = 6, includeResigned = true, relationships } = body;
+
+    const from = parseEndpoint(body.from);
+    const to = parseEndpoint(body.to);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'from and to must each be a company number or { type: "company" | "officer", ... }' },
+        { status: 400 }
+      );
+    }
+
+    if (from.type === 'officer' && to.type === 'officer') {
+      return NextResponse.json(
+        { error: 'At least one end of the path must be a company' },
+        { status: 400 }
+      );
+    }
+
+    // Validate search bounds
+    if (!Number.isInteger(k) || k < 1 || k > 10) {
+      return NextResponse.json(
+        { error: 'k must be an integer between 1 and 10' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(maxDepth) || maxDepth < 2 || maxDepth > 8) {
+      return NextResponse.json(
+        { error: 'maxDepth must be an integer between 2 and 8' },
+        { status: 400 }
+      );
+    }
+
+    if (relationships !== undefined && (typeof relationships !== 'object' || relationships === null)) {
+      return NextResponse.json(
+        { error: 'relationships must be an object' },
+        { status: 400 }
+      );
+    }
+
+    // Use user ID for rate limiting
+    const rateLimitKey = `user:${user.id}:graph`;
+
+    try {
+      // Search is cancelled if the client disconnects
+      const { graph, paths, expansions, truncated } = await pathFinder.findPaths(from, to, {
+        k,
+        maxDepth,
+        includeResigned: Boolean(includeResigned),
+        relationships: {
+          officers: relationships?.officers ?? true,
+          pscs: relationships?.pscs ?? true,
+          addresses: relationships?.addresses ?? true
+        },
+        rateLimitKey,
+        signal: request.signal
+      });
+
+      return NextResponse.json({
+        graph,
+        paths,
+        metadata: {
+          from,
+          to,
+          k,
+          maxDepth,
+          generatedAt: new Date().toISOString(),
+          pathCount: paths.length,
+          shortestLength: paths[0]?.length ?? null,
+          expansions,
+          truncated
+        }
+      });
+
+    } catch (searchError) {
+      console.error('Path search error:', searchError);
+
+      if (searchError instanceof Error) {
+        if (searchError.message.includes('Aborted')) {
+          return NextResponse.json(
+            {
+              error: 'Request cancelled',
+              message: 'The path search was cancelled',
+              type: 'cancelled_error'
+            },
+            { status: 499 }
+          );
+        }
+
+        if (searchError.message.includes('Not Found')) {
+          return NextResponse.json(
+            {
+              error: 'Entity not found',
+              message: 'One of the companies or officers could not be found',
+              type: 'not_found_error'
+            },
+            { status: 404 }
+          );
+        }
+
+        if (searchError.message.includes('Rate limit exceeded')) {
+          return NextResponse.json(
+            {
+              error: 'Rate limit exceeded',
+              message: 'Too many requests. Please try again later.',
+              type: 'rate_limit_error'
+            },
+            { status: 429 }
+          );
+        }
+      }
+
+      throw searchError; // Re-throw for general error handling
+    }
+
+  } catch (error) {
+    console.error('Path search error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while searching for connecting paths',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { networkBuilder } from '@/lib/graph/network-builder';
+import { diffGraphs } from '@/lib/graph/diff';
+import { getSavedNetworkView, updateSavedNetworkView } from '@/lib/db/queries-nexus';
+import { getTeamContext, isViewId } from '@/lib/graph/saved-views';
+import { getTeamOfficerRulings } from '@/lib/graph/officer-decisions';
+import type { GraphData, GraphFilters, GraphLayout } from '@/lib/graph/types';
+
+interface RouteParams {
+  params: Promise<{
+    viewId: string;
+  }>;
+}
+
+/**
+ * Re-run a saved view against live Companies House data and report what changed.
+ * The stored snapshot is only replaced when `save: true` is sent by an editor.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    const view = isViewId(viewId) ? await getSavedNetworkView(viewId, context.teamId) : null;
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const save = body?.save === true;
+
+    if (save && !context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot update saved network views',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const filters = view.filters as GraphFilters;
+    const layout = view.layout as GraphLayout;
+    const previous = view.graphData as GraphData;
+
+    // Use user ID for rate limiting
+    const rateLimitKey = `user:${context.authUserId}:graph`;
+
+    try {
+      const { truncated, officerMatches, ...graphData } = await networkBuilder.buildNetwork(view.rootCompanyNumber, {
+        maxHops: filters.maxHops,
+        filters,
+        rateLimitKey,
+        layout,
+        signal: request.signal,
+        officerResolution: { rulings: await getTeamOfficerRulings(context.teamId) }
+      });
+
+      const analysis = networkBuilder.analyzeNetwork(graphData);
+      const diff = diffGraphs(previous, graphData);
+      const generatedAt = new Date();
+
+      if (save) {
+        await updateSavedNetworkView(viewId, context.teamId, {
+          graphData,
+          analysis,
+          snapshotAt: generatedAt
+        });
+      }
+
+      return NextResponse.json({
+        graph: graphData,
+        analysis,
+        diff,
+        officerMatches,
+        metadata: {
+          companyNumber: view.rootCompanyNumber,
+          previousSnapshotAt: view.snapshotAt.toISOString(),
+          generatedAt: generatedAt.toISOString(),
+          saved: save,
+          truncated
+        }
+      });
+
+    } catch (networkError) {
+      console.error('Saved view refresh error:', networkError);
+
+      if (networkError instanceof Error) {
+        if (networkError.message.includes('Aborted')) {
+          return NextResponse.json(
+            {
+              error: 'Request cancelled',
+              message: 'The network build was cancelled',
+              type: 'cancelled_error'
+            },
+            { status: 499 }
+          );
+        }
+
+        if (networkError.message.includes('Not Found')) {
+          return NextResponse.json(
+            {
+              error: 'Company not found',
+              message: `No company found with number: ${view.rootCompanyNumber}`,
+              type: 'not_found_error'
+            },
+            { status: 404 }
+          );
+        }
+
+        if (networkError.message.includes('Rate limit exceeded')) {
+          return NextResponse.json(
+            {
+              error: 'Rate limit exceeded',
+              message: 'Too many requests. Please try again later.',
+              type: 'rate_limit_error'
+            },
+            { status: 429 }
+          );
+        }
+      }
+
+      throw networkError; // Re-throw for general error handling
+    }
+
+  } catch (error) {
+    console.error('Saved view refresh error:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('Unauthorized')) {
+        return NextResponse.json(
+          {
+            error: 'API authentication failed',
+            message: 'Invalid or expired API key',
+            type: 'auth_error'
+          },
+          { status: 503 }
+        );
+      }
+
+      if (error.message.includes('Service Unavailable')) {
+        return NextResponse.json(
+          {
+            error: 'Service unavailable',
+            message: 'Companies House API is temporarily unavailable',
+            type: 'service_error'
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while refreshing the saved view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
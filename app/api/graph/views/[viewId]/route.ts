@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteSavedNetworkView,
+  getSavedNetworkView,
+  updateSavedNetworkView
+} from '@/lib/db/queries-nexus';
+import {
+  getTeamContext,
+  isViewId,
+  stampAnnotations,
+  toSavedViewResponse,
+  validateSavedViewInput,
+  type SavedViewInput
+} from '@/lib/graph/saved-views';
+import type { NetworkAnnotation } from '@/lib/graph/types';
+
+interface RouteParams {
+  params: Promise<{
+    viewId: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    const view = isViewId(viewId) ? await getSavedNetworkView(viewId, context.teamId) : null;
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      view: toSavedViewResponse(view, { includeShareToken: context.canEdit }),
+      canEdit: context.canEdit
+    });
+
+  } catch (error) {
+    console.error('Saved view fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading the saved view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Rename a view or update its annotations, viewport or layout.
+ * The graph snapshot itself only changes through the refresh endpoint.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot change saved network views',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const existing = isViewId(viewId) ? await getSavedNetworkView(viewId, context.teamId) : null;
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as SavedViewInput;
+    const { name, description, layout, viewport, annotations } = body;
+    const validationError = validateSavedViewInput({ name, description, layout, viewport, annotations }, 'update');
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const view = await updateSavedNetworkView(viewId, context.teamId, {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description: description || null }),
+      ...(layout !== undefined && { layout }),
+      ...(viewport !== undefined && { viewport }),
+      ...(annotations !== undefined && {
+        annotations: stampAnnotations(annotations, existing.annotations as NetworkAnnotation[], context.authorName)
+      })
+    });
+
+    return NextResponse.json({
+      view: toSavedViewResponse(view!, { includeShareToken: true })
+    });
+
+  } catch (error) {
+    console.error('Saved view update error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while updating the saved view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot delete saved network views',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const deleted = isViewId(viewId) && await deleteSavedNetworkView(viewId, context.teamId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Saved view delete error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while deleting the saved view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
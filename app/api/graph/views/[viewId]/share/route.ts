@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedNetworkView, updateSavedNetworkView } from '@/lib/db/queries-nexus';
+import { generateShareToken, getTeamContext, isViewId } from '@/lib/graph/saved-views';
+
+interface RouteParams {
+  params: Promise<{
+    viewId: string;
+  }>;
+}
+
+/**
+ * Create (or return the existing) read-only share link for a view
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot share network views',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const existing = isViewId(viewId) ? await getSavedNetworkView(viewId, context.teamId) : null;
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    const shareToken = existing.shareToken
+      ?? (await updateSavedNetworkView(viewId, context.teamId, { shareToken: generateShareToken() }))!.shareToken!;
+
+    return NextResponse.json({
+      shareToken,
+      sharePath: `/dashboard/network/shared/${shareToken}`
+    });
+
+  } catch (error) {
+    console.error('Saved view share error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while sharing the saved view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revoke the share link. A later share generates a new token.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { viewId } = await params;
+
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot revoke share links',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const view = isViewId(viewId) ? await updateSavedNetworkView(viewId, context.teamId, { shareToken: null }) : null;
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Saved view not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Saved view unshare error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while revoking the share link',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSavedNetworkView, getTeamSavedNetworkViews } from '@/lib/db/queries-nexus';
+import {
+  getTeamContext,
+  stampAnnotations,
+  toSavedViewResponse,
+  validateSavedViewInput,
+  type SavedViewInput
+} from '@/lib/graph/saved-views';
+
+/**
+ * List the saved network views belonging to the caller's team
+ */
+export async function GET() {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    const views = await getTeamSavedNetworkViews(context.teamId);
+
+    return NextResponse.json({
+      views: views.map(view => ({
+        id: view.id,
+        name: view.name,
+        description: view.description,
+        companyNumber: view.rootCompanyNumber,
+        createdByName: view.createdByName,
+        shared: view.shared,
+        snapshotAt: view.snapshotAt.toISOString(),
+        createdAt: view.createdAt.toISOString(),
+        updatedAt: view.updatedAt.toISOString()
+      })),
+      canEdit: context.canEdit
+    });
+
+  } catch (error) {
+    console.error('Saved views list error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading saved views',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save the current network graph, filters, layout, viewport and annotations
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getTeamContext();
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Saved views require team membership' },
+        { status: 401 }
+      );
+    }
+
+    if (!context.canEdit) {
+      return NextResponse.json(
+        {
+          error: 'Forbidden',
+          message: 'Viewers cannot save network views',
+          type: 'permission_error'
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json() as SavedViewInput;
+    const validationError = validateSavedViewInput(body, 'create');
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const view = await createSavedNetworkView({
+      teamId: context.teamId,
+      createdBy: context.userId,
+      name: body.name!.trim(),
+      description: body.description || null,
+      rootCompanyNumber: body.companyNumber!.toUpperCase(),
+      graphData: body.graph!,
+      analysis: body.analysis || null,
+      filters: body.filters!,
+      layout: body.layout!,
+      viewport: body.viewport || null,
+      annotations: stampAnnotations(body.annotations || [], [], context.authorName),
+      snapshotAt: body.snapshotAt ? new Date(body.snapshotAt) : new Date()
+    });
+
+    return NextResponse.json(
+      { view: toSavedViewResponse(view, { includeShareToken: true }) },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Saved view create error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while saving the network view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
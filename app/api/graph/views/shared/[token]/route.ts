@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedNetworkViewByShareToken } from '@/lib/db/queries-nexus';
+import { isShareToken } from '@/lib/graph/saved-views';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import type {
+  GraphData,
+  GraphLayout,
+  GraphViewport,
+  NetworkAnalysis,
+  NetworkAnnotation
+} from '@/lib/graph/types';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * Read-only snapshot of a shared view. Any signed-in user with the link can open it;
+ * team-internal fields (IDs, filters, share token) are left out.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    // Authenticate user
+    const supabase = createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const view = isShareToken(token) ? await getSavedNetworkViewByShareToken(token) : null;
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Shared view not found or link revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      view: {
+        name: view.name,
+        description: view.description,
+        companyNumber: view.rootCompanyNumber,
+        graph: view.graphData as GraphData,
+        analysis: view.analysis as NetworkAnalysis | null,
+        layout: view.layout as GraphLayout,
+        viewport: view.viewport as GraphViewport | null,
+        annotations: view.annotations as NetworkAnnotation[],
+        snapshotAt: view.snapshotAt.toISOString()
+      },
+      readOnly: true
+    });
+
+  } catch (error) {
+    console.error('Shared view fetch error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred while loading the shared view',
+        type: 'internal_error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { UserCheck, AlertTriangle } from 'lucide-react';
+import type {
+  BeneficialOwnerStatus,
+  OwnershipBand,
+  UltimateOwnershipResult,
+  UnresolvedOwnerReason
+} from '@/lib/companies-house/types';
+import { cn } from '@/lib/utils';
+
+interface BeneficialOwnersPanelProps {
+  ownership: UltimateOwnershipResult;
+  compact?: boolean;
+}
+
+const STATUS_STYLES: Record<BeneficialOwnerStatus, { label: string; className: string }> = {
+  confirmed: { label: 'UBO', className: 'bg-red-100 text-red-800 border-red-200' },
+  possible: { label: 'Possible UBO', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  below_threshold: { label: 'Below threshold', className: 'bg-gray-100 text-gray-700 border-gray-200' }
+};
+
+const UNRESOLVED_LABELS: Record<UnresolvedOwnerReason, string> = {
+  foreign_entity: 'Registered outside the UK',
+  legal_person: 'Legal person (e.g. government body)',
+  protected: 'Details protected',
+  no_psc: 'No PSCs registered',
+  max_depth: 'Chain too deep to resolve',
+  circular: 'Circular ownership',
+  lookup_failed: 'Could not be retrieved'
+};
+
+const formatBand = (band: OwnershipBand) => {
+  const toPercent = (value: number) => Math.round(value * 1000) / 10;
+  if (band.min === band.max) return `${toPercent(band.min)}%`;
+  return `${toPercent(band.min)}-${toPercent(band.max)}%`;
+};
+
+export function BeneficialOwnersPanel({ ownership, compact = false }: BeneficialOwnersPanelProps) {
+  const visibleOwners = compact
+    ? ownership.owners.filter(owner => owner.status !== 'below_threshold')
+    : ownership.owners;
+
+  return (
+    <Card className={cn(compact && 'mb-4')}>
+      <CardHeader className={cn(compact && 'pb-3')}>
+        <CardTitle className={cn('flex items-center', compact ? 'text-sm' : 'space-x-2')}>
+          <UserCheck className={cn(compact ? 'mr-1 h-4 w-4' : 'h-5 w-5')} />
+          <span>Ultimate Beneficial Owners</span>
+        </CardTitle>
+        {!compact && (
+          <CardDescription>
+            Natural persons holding {Math.round(ownership.threshold * 100)}% or more through the PSC chain
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {visibleOwners.length === 0 && (
+          <p className={cn('text-gray-600', compact ? 'text-xs' : 'text-sm')}>
+            No natural persons identified at or above {Math.round(ownership.threshold * 100)}%.
+          </p>
+        )}
+
+        {visibleOwners.map((owner) => (
+          <div
+            key={`${owner.name}-${owner.dateOfBirth?.year || ''}`}
+            className={cn('rounded bg-gray-50', compact ? 'text-xs p-2' : 'text-sm p-3')}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{owner.name}</span>
+              <span className="font-mono">{formatBand(owner.effectiveOwnership)}</span>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-1">
+              <Badge variant="outline" className={cn('text-xs', STATUS_STYLES[owner.status].className)}>
+                {STATUS_STYLES[owner.status].label}
+              </Badge>
+              {owner.hasControlRights && (
+                <Badge variant="outline" className="text-xs">Control rights</Badge>
+              )}
+            </div>
+            {owner.chains.some(chain => chain.length > 0) && (
+              <div className="text-gray-500 mt-1">
+                {owner.chains
+                  .filter(chain => chain.length > 0)
+                  .map((chain, index) => (
+                    <div key={index}>via {chain.join(' → ')}</div>
+                  ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {ownership.unresolved.length > 0 && (
+          <div className="border-t pt-2">
+            <h4 className="text-xs font-medium text-yellow-700 mb-1 flex items-center">
+              <AlertTriangle className="mr-1 h-3 w-3" />
+              Unresolved owners
+            </h4>
+            {ownership.unresolved.map((entity, index) => (
+              <div key={index} className="text-xs p-2 bg-yellow-50 rounded mb-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{entity.name}</span>
+                  <span className="font-mono">{formatBand(entity.effectiveOwnership)}</span>
+                </div>
+                <div className="text-yellow-800">{UNRESOLVED_LABELS[entity.reason]}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Loader2, MapPin } from 'lucide-react';
+import { NODE_COLORS } from '@/lib/graph/types';
+
+// Loading and collapse hint for nodes expanded on the canvas
+const ExpansionState = ({ data }: { data: any }) => {
+  if (data.loading) {
+    return (
+      <div className="text-xs text-gray-500 flex items-center justify-center mt-1">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Expanding
+      </div>
+    );
+  }
+  if (data.expanded) {
+    return <div className="text-xs text-gray-500 mt-1">Expanded - double-click to collapse</div>;
+  }
+  return null;
+};
+
+// Custom node components
+const CompanyNodeComponent = ({ data }: { data: any }) => {
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active':
+        return NODE_COLORS.company.active;
+      case 'dissolved':
+        return NODE_COLORS.company.dissolved;
+      case 'liquidation':
+        return NODE_COLORS.company.liquidation;
+      default:
+        return NODE_COLORS.company.inactive;
+    }
+  };
+
+  return (
+    <div
+      className="px-4 py-2 shadow-md rounded-md bg-white border-2 min-w-[120px] text-center"
+      style={{
+        borderColor: getStatusColor(data.companyStatus || 'active'),
+        backgroundColor: data.clusterColor
+      }}
+    >
+      <div className="font-bold text-sm text-gray-900">{data.companyName || data.label}</div>
+      <div className="text-xs text-gray-600">{data.companyNumber}</div>
+      {data.companyStatus && (
+        <Badge variant="outline" className="text-xs mt-1">
+          {data.companyStatus}
+        </Badge>
+      )}
+      <ExpansionState data={data} />
+    </div>
+  );
+};
+
+const OfficerNodeComponent = ({ data }: { data: any }) => {
+  return (
+    <div
+      className="px-3 py-2 shadow-md rounded-md bg-blue-50 border-2 border-blue-300 min-w-[100px] text-center"
+      style={{ backgroundColor: data.clusterColor }}
+    >
+      <div className="font-medium text-sm text-blue-900">{data.officerName || data.label}</div>
+      <div className="text-xs text-blue-700">{data.officerRole}</div>
+      {data.resignedDate && (
+        <div className="text-xs text-red-600">Resigned</div>
+      )}
+      {data.mergedNodeIds?.length > 0 && (
+        <div className="text-xs text-blue-500">{data.mergedNodeIds.length + 1} records merged</div>
+      )}
+      <ExpansionState data={data} />
+    </div>
+  );
+};
+
+const PSCNodeComponent = ({ data }: { data: any }) => {
+  return (
+    <div
+      className="px-3 py-2 shadow-md rounded-md bg-purple-50 border-2 border-purple-300 min-w-[100px] text-center"
+      style={{ backgroundColor: data.clusterColor }}
+    >
+      <div className="font-medium text-sm text-purple-900">{data.pscName || data.label}</div>
+      <div className="text-xs text-purple-700">PSC</div>
+    </div>
+  );
+};
+
+const AddressNodeComponent = ({ data }: { data: any }) => {
+  return (
+    <div
+      className="px-3 py-2 shadow-md rounded-md bg-yellow-50 border-2 border-yellow-300 min-w-[100px] text-center"
+      style={{ backgroundColor: data.clusterColor }}
+    >
+      <div className="font-medium text-sm text-yellow-900">
+        <MapPin className="inline h-3 w-3 mr-1" />
+        Address
+      </div>
+      <div className="text-xs text-yellow-700 truncate max-w-[120px]">
+        {data.address?.split(',')[0] || data.label}
+      </div>
+      {data.massRegistration && (
+        <div className="text-xs text-red-600">
+          {data.massRegistration.kind === 'formation_agent' ? 'Formation agent' : 'Virtual office'}
+        </div>
+      )}
+      {data.registeredCompanyCount > 0 && (
+        <div className="text-xs text-yellow-600">{data.registeredCompanyCount} companies registered</div>
+      )}
+    </div>
+  );
+};
+
+// Defined once at module level so React Flow does not re-create node renderers
+export const networkNodeTypes = {
+  company: CompanyNodeComponent,
+  officer: OfficerNodeComponent,
+  psc: PSCNodeComponent,
+  address: AddressNodeComponent,
+};
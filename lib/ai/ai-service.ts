@@ -0,0 +1,224 @@
+// Provider-agnostic AI service - one prompt, one validated insight schema and one cost
+// ledger across every provider, with failover between providers
+
+import { resolveProviderChain } from './providers';
+import { buildInsightPrompt, toCompanyInsight } from './insights';
+import { completeWithRepair, insightResponseSchema } from './insight-schema';
+import { saveRecording } from './local-provider';
+import type {
+  AICompletion,
+  AICompletionRequest,
+  AICostTracker,
+  AIProvider,
+  AIProviderAttempt,
+  AIProviderId,
+  CompanyInsightInput,
+  CompanyInsightOptions,
+  CompanyInsightResult,
+  TeamAISettings
+} from './types';
+
+const REQUEST_TIMEOUT_MS = 45000; // A hung provider fails over rather than holding the request
+
+interface GenerateInsightOptions extends CompanyInsightOptions {
+  settings?: TeamAISettings | null;
+  userId?: string;
+  promptVersion?: number; // Registry version of the insight prompt, from the team's rollout variant
+}
+
+class AIService {
+  private costTracking: Map<string, AICostTracker> = new Map();
+
+  /**
+   * Generate a company insight with the team's provider, failing over to the next
+   * configured provider on an API error or timeout. Responses are checked against the
+   * insight schema and re-prompted with the errors; when no provider produces a valid
+   * response after repair, the best attempt is returned flagged as degraded.
+   */
+  async generateCompanyInsight(
+    input: CompanyInsightInput,
+    options: GenerateInsightOptions = {}
+  ): Promise<CompanyInsightResult> {
+    const { settings, userId = 'anonymous', promptVersion } = options;
+    const chain = resolveProviderChain(settings);
+
+    if (chain.length === 0) {
+      throw new Error('AI Service Unavailable: no AI provider is configured');
+    }
+
+    const { messages, stamp } = buildInsightPrompt(input, options, promptVersion);
+    const { maxTokens, temperature } = stamp.parameters;
+    const attempts: AIProviderAttempt[] = [];
+    let degraded: CompanyInsightResult | null = null;
+
+    for (const { provider, model } of chain) {
+      const start = Date.now();
+
+      try {
+        const result = await completeWithRepair(
+          conversation => this.complete(provider, {
+            model,
+            messages: conversation,
+            maxTokens,
+            temperature,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            context: input
+          }),
+          messages,
+          insightResponseSchema
+        );
+
+        const totalTokens = result.promptTokens + result.completionTokens;
+        const costUSD = provider.estimateCost(model, result.promptTokens, result.completionTokens);
+        this.trackCost(userId, provider.id, totalTokens, costUSD);
+
+        const failed = result.validation.status === 'failed';
+        attempts.push({
+          provider: provider.id,
+          model,
+          ...(failed ? { error: `Response failed schema validation: ${result.validation.errors.slice(0, 3).join('; ')}` } : {}),
+          latencyMs: Date.now() - start,
+          repairAttempts: result.validation.repairAttempts
+        });
+
+        const insightResult: CompanyInsightResult = {
+          insight: toCompanyInsight(result.data ?? result.raw, input, {
+            provider: provider.id,
+            model: result.model,
+            tokensUsed: totalTokens,
+            validation: result.validation,
+            prompt: stamp
+          }),
+          usage: {
+            provider: provider.id,
+            model: result.model,
+            promptTokens: result.promptTokens,
+            completionTokens: result.completionTokens,
+            totalTokens,
+            costUSD,
+            attempts,
+            validation: result.validation
+          },
+          messages
+        };
+
+        if (!failed) {
+          return insightResult;
+        }
+
+        // Keep the first unrepairable response in case no other provider does better
+        degraded = degraded ?? insightResult;
+        console.warn(`AI provider ${provider.id} (${model}) returned invalid output after ${result.validation.repairAttempts} repairs`);
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        attempts.push({ provider: provider.id, model, error: message, latencyMs: Date.now() - start });
+        console.warn(`AI provider ${provider.id} (${model}) failed: ${message}`);
+      }
+    }
+
+    if (degraded) {
+      return degraded;
+    }
+
+    throw new Error(`AI Service Unavailable: ${attempts.map(a => `${a.provider} - ${a.error}`).join('; ')}`);
+  }
+
+  // One provider call, saved for offline replay when recording is switched on
+  private async complete(provider: AIProvider, request: AICompletionRequest): Promise<AICompletion> {
+    const completion = await provider.complete(request);
+
+    if (process.env.AI_RECORD_RESPONSES === 'true' && provider.id !== 'local') {
+      await saveRecording(request.messages, provider.id, completion);
+    }
+
+    return completion;
+  }
+
+  private trackCost(userId: string, provider: AIProviderId, tokens: number, costUSD: number): void {
+    const tracker = this.costTracking.get(userId) || {
+      userId,
+      tokensUsed: 0,
+      costUSD: 0,
+      requestCount: 0,
+      lastRequest: '',
+      byProvider: {}
+    };
+
+    const byProvider = tracker.byProvider[provider] || { tokensUsed: 0, costUSD: 0, requestCount: 0 };
+    byProvider.tokensUsed += tokens;
+    byProvider.costUSD += costUSD;
+    byProvider.requestCount += 1;
+
+    tracker.byProvider[provider] = byProvider;
+    tracker.tokensUsed += tokens;
+    tracker.costUSD += costUSD;
+    tracker.requestCount += 1;
+    tracker.lastRequest = new Date().toISOString();
+
+    this.costTracking.set(userId, tracker);
+  }
+
+  /**
+   * Get cost tracking information for a user, across all providers
+   */
+  getCostTracking(userId: string): AICostTracker | null {
+    return this.costTracking.get(userId) || null;
+  }
+
+  /**
+   * Get total cost tracking across all users (admin function)
+   */
+  getTotalCostTracking(): {
+    totalUsers: number;
+    totalTokens: number;
+    totalCostUSD: number;
+    totalRequests: number;
+  } {
+    const trackers = Array.from(this.costTracking.values());
+
+    return {
+      totalUsers: trackers.length,
+      totalTokens: trackers.reduce((sum, t) => sum + t.tokensUsed, 0),
+      totalCostUSD: trackers.reduce((sum, t) => sum + t.costUSD, 0),
+      totalRequests: trackers.reduce((sum, t) => sum + t.requestCount, 0)
+    };
+  }
+
+  /**
+   * Health check for every configured provider with its default model
+   */
+  async checkProviders(): Promise<Array<{
+    provider: AIProviderId;
+    model: string;
+    status: 'healthy' | 'unhealthy';
+    latency: number;
+    error?: string;
+  }>> {
+    return Promise.all(resolveProviderChain().map(async ({ provider, model }) => {
+      const start = Date.now();
+
+      try {
+        await provider.complete({
+          model,
+          messages: [{ role: 'user', content: 'Reply with the word OK.' }],
+          maxTokens: 5,
+          temperature: 0,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+        return { provider: provider.id, model, status: 'healthy' as const, latency: Date.now() - start };
+      } catch (error) {
+        return {
+          provider: provider.id,
+          model,
+          status: 'unhealthy' as const,
+          latency: Date.now() - start,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    }));
+  }
+}
+
+// Export singleton instance
+export const aiService = new AIService();
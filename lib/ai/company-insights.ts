@@ -0,0 +1,192 @@
+// Company insights for the API routes - Companies House input, team provider settings,
+// a short-lived cache and usage records
+
+import { companiesHouseClient } from '@/lib/companies-house/client';
+import { summarizeCharges } from '@/lib/companies-house/charges';
+import { summarizeInsolvency } from '@/lib/companies-house/insolvency';
+import {
+  createAIJob,
+  getCompanyByNumber,
+  getTeamAISettings,
+  getTeamMembershipByEmail,
+  incrementAITokenQuota,
+  updateCompanyAIData
+} from '@/lib/db/queries-nexus';
+import { aiService } from './ai-service';
+import { resolveInsightOptions } from './insights';
+import { companyInsightSchema } from './insight-schema';
+import { COMPANY_INSIGHT_PROMPT, assignPromptVersion } from './prompts';
+import { resolveProviderChain } from './providers';
+import type { CompanyInsightInput, CompanyInsightOptions, CompanyInsightResult, TeamAISettings } from './types';
+
+// Every page asking about the same company within this window sees the same insight
+const INSIGHT_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_INSIGHTS = 500;
+
+export interface InsightCompany {
+  name: string;
+  number: string;
+  status: string;
+}
+
+export interface CompanyInsightRequest {
+  companyNumber: string;
+  rateLimitKey: string;
+  user: { id: string; email?: string };
+  options?: CompanyInsightOptions;
+  refresh?: boolean; // Skip the cache and generate a new insight
+}
+
+export interface CompanyInsightResponse extends CompanyInsightResult {
+  company: InsightCompany;
+  cached: boolean;
+}
+
+interface InsightTeam {
+  userId: number;
+  teamId: number;
+  settings: TeamAISettings | null;
+}
+
+const insightCache = new Map<string, { result: CompanyInsightResult; company: InsightCompany; expiresAt: number }>();
+
+/**
+ * The team's AI settings for a signed-in user. A failed lookup falls back to the
+ * default providers rather than failing the insight.
+ */
+async function getInsightTeam(email?: string): Promise<InsightTeam | null> {
+  if (!email) return null;
+
+  try {
+    const membership = await getTeamMembershipByEmail(email);
+    if (!membership) return null;
+
+    return {
+      userId: membership.userId,
+      teamId: membership.teamId,
+      settings: await getTeamAISettings(membership.teamId)
+    };
+  } catch (error) {
+    console.error('Team AI settings lookup error:', error);
+    return null;
+  }
+}
+
+/**
+ * Everything the insight prompt needs from Companies House. Officers, charges and
+ * insolvency are best effort; a missing profile is an error.
+ */
+export async function loadCompanyInsightInput(companyNumber: string, rateLimitKey: string): Promise<CompanyInsightInput> {
+  const [profile, officers] = await Promise.all([
+    companiesHouseClient.getCompanyProfile(companyNumber, { rateLimitKey }),
+    companiesHouseClient.getCompanyOfficers(companyNumber, {
+      rateLimitKey,
+      itemsPerPage: 10 // Limit officers for AI analysis
+    }).catch(() => ({ items: [] })) // Fallback if officers not available
+  ]);
+
+  // Give the model the outstanding secured lending rather than a bare Yes/No
+  const charges = profile.has_charges
+    ? await companiesHouseClient.getCompanyCharges(profile.company_number, { rateLimitKey })
+        .then(response => summarizeCharges(response.items || []))
+        .catch(() => undefined)
+    : undefined;
+
+  const insolvency = profile.has_insolvency_history
+    ? await companiesHouseClient.getInsolvency(profile.company_number, { rateLimitKey })
+        .then(response => summarizeInsolvency(response))
+        .catch(() => undefined)
+    : undefined;
+
+  return { profile, officers: officers.items || [], charges, insolvency };
+}
+
+// Keyed on the resolved provider chain and every generation option, so an insight is only
+// reused for requests that would have produced it the same way
+function cacheKey(companyNumber: string, settings: TeamAISettings | null, promptVersion: number, options: CompanyInsightOptions): string {
+  return JSON.stringify({
+    companyNumber,
+    providers: resolveProviderChain(settings).map(({ provider, model }) => `${provider.id}:${model}`),
+    promptVersion,
+    options: resolveInsightOptions(options)
+  });
+}
+
+// Cache the insight on the company row and log the job with its provider usage,
+// validation status and the exact prompt sent. Degraded insights, and any that don't
+// match the stored insight schema, are logged but never replace the stored one.
+async function recordInsight(team: InsightTeam, companyNumber: string, result: CompanyInsightResult, options: CompanyInsightOptions) {
+  try {
+    await incrementAITokenQuota(team.userId, result.usage.totalTokens);
+
+    const company = await getCompanyByNumber(companyNumber);
+    if (!company) return;
+
+    if (result.insight.validation.status !== 'failed') {
+      const stored = companyInsightSchema.safeParse(result.insight);
+      if (stored.success) {
+        await updateCompanyAIData(company.id, stored.data.summary, stored.data.riskScore, stored.data);
+      } else {
+        console.error('AI insight failed the stored insight schema:', stored.error.issues);
+      }
+    }
+    await createAIJob({
+      jobType: 'company_insight',
+      entityId: company.id,
+      entityType: 'company',
+      status: 'completed',
+      inputData: { companyNumber, options, prompt: { ...result.insight.prompt, messages: result.messages } },
+      aiResponse: result.insight,
+      providerUsage: result.usage,
+      createdBy: team.userId,
+      completedAt: new Date()
+    });
+  } catch (error) {
+    console.error('AI insight recording error:', error);
+  }
+}
+
+/**
+ * The insight for a company, generated with the user's team provider settings. Both
+ * insight routes go through here so a company gets the same risk score on every page.
+ */
+export async function getCompanyInsight(request: CompanyInsightRequest): Promise<CompanyInsightResponse> {
+  const companyNumber = request.companyNumber.toUpperCase();
+  const options = request.options || {};
+  const team = await getInsightTeam(request.user.email);
+  const promptVersion = assignPromptVersion(COMPANY_INSIGHT_PROMPT, team?.teamId);
+  const key = cacheKey(companyNumber, team?.settings || null, promptVersion, options);
+
+  const cached = insightCache.get(key);
+  if (cached && cached.expiresAt > Date.now() && !request.refresh) {
+    return { ...cached.result, company: cached.company, cached: true };
+  }
+
+  const input = await loadCompanyInsightInput(companyNumber, request.rateLimitKey);
+  const result = await aiService.generateCompanyInsight(input, {
+    ...options,
+    settings: team?.settings,
+    userId: request.user.id,
+    promptVersion
+  });
+
+  const company = {
+    name: input.profile.company_name,
+    number: input.profile.company_number,
+    status: input.profile.company_status
+  };
+
+  // A degraded insight is retried on the next request rather than served from cache
+  if (result.insight.validation.status !== 'failed') {
+    if (insightCache.size >= MAX_CACHED_INSIGHTS) {
+      insightCache.delete(insightCache.keys().next().value!);
+    }
+    insightCache.set(key, { result, company, expiresAt: Date.now() + INSIGHT_CACHE_TTL_MS });
+  }
+
+  if (team) {
+    await recordInsight(team, companyNumber, result, options);
+  }
+
+  return { ...result, company, cached: false };
+}
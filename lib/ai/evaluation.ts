@@ -0,0 +1,291 @@
+// AI evaluation - scores insights for golden company fixtures on schema validity, risk
+// band, required findings, hallucinated people and cost, and compares prompt versions and models
+
+import { summarizeCharges } from '@/lib/companies-house/charges';
+import { summarizeInsolvency } from '@/lib/companies-house/insolvency';
+import type {
+  Charge,
+  CompanyProfile,
+  InsolvencyResponse,
+  Officer,
+  PersonWithSignificantControl
+} from '@/lib/companies-house/types';
+import { AI_PROVIDERS } from './providers';
+import type { AIProviderId, CompanyInsight, CompanyInsightInput, CompanyInsightResult, InsightRiskLevel } from './types';
+
+/**
+ * A recorded Companies House bundle for one company, with what a correct insight
+ * must say about it
+ */
+export interface EvalFixture {
+  id: string;
+  description: string;
+  profile: CompanyProfile;
+  officers: Officer[];
+  pscs?: PersonWithSignificantControl[];
+  charges?: Charge[];
+  insolvency?: InsolvencyResponse;
+  expected: {
+    riskBands: InsightRiskLevel[]; // Any of these counts as correct
+    requiredFindings: string[]; // Case-insensitive; each must appear somewhere in the insight text
+  };
+}
+
+export interface EvalTarget {
+  provider: AIProviderId;
+  model: string;
+}
+
+export interface EvalCaseResult {
+  fixtureId: string;
+  status: 'scored' | 'not_recorded' | 'error';
+  error?: string;
+  schemaValid: boolean; // Valid first time or after repair
+  firstPassValid: boolean;
+  repairAttempts: number;
+  riskScore: number | null;
+  riskLevel: InsightRiskLevel | null;
+  riskBandCorrect: boolean;
+  missingFindings: string[];
+  hallucinations: string[]; // People named in the insight who aren't in the fixture
+  tokens: number;
+  costUSD: number;
+}
+
+export interface EvalRunSummary {
+  target: EvalTarget;
+  promptId: string;
+  promptVersion: number;
+  cases: EvalCaseResult[];
+  scored: number;
+  notRecorded: number;
+  errors: number;
+  // Shares of scored cases, 0-1
+  schemaValidity: number;
+  firstPassValidity: number;
+  riskBandAccuracy: number;
+  findingsRecall: number; // Share of all required findings present
+  hallucinationRate: number; // Share of cases naming at least one unknown person
+  totalTokens: number;
+  totalCostUSD: number;
+}
+
+// Words near a capitalised name that mark it as a person
+const PERSON_CONTEXT = /\b(mr|mrs|ms|miss|dr|sir|dame|director|directors|secretary|officer|officers|shareholder|owner|founder|chair|chairman|chairwoman|ceo|cfo|partner|psc|liquidator|liquidators|administrator|receiver|practitioner)\b/i;
+const NAME_CANDIDATE = /\b[A-Z][A-Za-z'-]+(?:,?\s+[A-Z][A-Za-z'-]+){1,3}\b/g;
+const CONTEXT_WINDOW = 40;
+
+// Capitalised words that start sentences or name roles rather than people
+const NON_NAME_WORDS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'sir', 'dame', 'the', 'a', 'an', 'and', 'of', 'its', 'their', 'this', 'that', 'both',
+  'director', 'directors', 'secretary', 'officer', 'officers', 'shareholder', 'owner', 'founder', 'chair', 'chairman',
+  'chairwoman', 'ceo', 'cfo', 'partner', 'psc', 'liquidator', 'liquidators', 'administrator', 'receiver', 'practitioner',
+  'companies', 'house', 'company', 'limited', 'ltd', 'plc', 'llp', 'uk', 'key', 'active', 'appointed', 'resigned',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'
+]);
+
+export function buildFixtureInput(fixture: EvalFixture): CompanyInsightInput {
+  return {
+    profile: fixture.profile,
+    officers: fixture.officers,
+    charges: fixture.charges ? summarizeCharges(fixture.charges) : undefined,
+    insolvency: fixture.insolvency ? summarizeInsolvency(fixture.insolvency) : undefined
+  };
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z'-]+/).filter(token => token.length >= 2 && !NON_NAME_WORDS.has(token));
+}
+
+// Every name the fixture gives the model: officers, PSCs, lenders, practitioners and the company itself
+function getKnownNameTokens(fixture: EvalFixture): Set<string> {
+  const names = [
+    fixture.profile.company_name,
+    ...fixture.officers.map(officer => officer.name),
+    ...(fixture.pscs || []).map(psc => psc.name),
+    ...(fixture.charges || []).flatMap(charge => (charge.persons_entitled || []).map(person => person.name)),
+    ...(fixture.insolvency?.cases || []).flatMap(c => c.practitioners.map(practitioner => practitioner.name))
+  ];
+  return new Set(names.flatMap(nameTokens));
+}
+
+function getInsightTexts(insight: CompanyInsight): string[] {
+  return [
+    insight.summary,
+    ...insight.keyFindings,
+    ...insight.riskFactors.flatMap(factor => [factor.risk, factor.explanation]),
+    ...insight.strengths,
+    ...insight.opportunities,
+    ...insight.recommendations,
+    insight.marketPosition,
+    insight.financialHealth,
+    insight.growthPotential
+  ];
+}
+
+/**
+ * People the insight names who don't appear anywhere in the fixture. A heuristic: a
+ * capitalised run of words counts as a person when a title or role sits next to it,
+ * and as hallucinated when none of its words match a known name.
+ */
+export function findHallucinatedPeople(insight: CompanyInsight, fixture: EvalFixture): string[] {
+  const known = getKnownNameTokens(fixture);
+  const hallucinated = new Set<string>();
+
+  for (const text of getInsightTexts(insight)) {
+    for (const match of text.matchAll(NAME_CANDIDATE)) {
+      const start = match.index ?? 0;
+      const context = text.slice(Math.max(0, start - CONTEXT_WINDOW), start + match[0].length + CONTEXT_WINDOW);
+      if (!PERSON_CONTEXT.test(context)) continue;
+
+      const tokens = nameTokens(match[0]);
+      if (tokens.length > 0 && !tokens.some(token => known.has(token))) {
+        hallucinated.add(match[0]);
+      }
+    }
+  }
+
+  return Array.from(hallucinated);
+}
+
+export function scoreInsight(fixture: EvalFixture, result: CompanyInsightResult, target: EvalTarget): EvalCaseResult {
+  const { insight, usage } = result;
+  const text = getInsightTexts(insight).join('\n').toLowerCase();
+
+  return {
+    fixtureId: fixture.id,
+    status: 'scored',
+    schemaValid: insight.validation.status !== 'failed',
+    firstPassValid: insight.validation.status === 'valid',
+    repairAttempts: insight.validation.repairAttempts,
+    riskScore: insight.riskScore,
+    riskLevel: insight.riskLevel,
+    riskBandCorrect: fixture.expected.riskBands.includes(insight.riskLevel),
+    missingFindings: fixture.expected.requiredFindings.filter(finding => !text.includes(finding.toLowerCase())),
+    hallucinations: findHallucinatedPeople(insight, fixture),
+    tokens: usage.totalTokens,
+    // Priced as the target model, since replayed responses come back through the free local provider
+    costUSD: AI_PROVIDERS[target.provider].estimateCost(target.model, usage.promptTokens, usage.completionTokens)
+  };
+}
+
+export function unscoredCase(fixtureId: string, status: 'not_recorded' | 'error', error?: string): EvalCaseResult {
+  return {
+    fixtureId,
+    status,
+    error,
+    schemaValid: false,
+    firstPassValid: false,
+    repairAttempts: 0,
+    riskScore: null,
+    riskLevel: null,
+    riskBandCorrect: false,
+    missingFindings: [],
+    hallucinations: [],
+    tokens: 0,
+    costUSD: 0
+  };
+}
+
+function share(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+export function summariseRun(
+  target: EvalTarget,
+  promptId: string,
+  promptVersion: number,
+  cases: EvalCaseResult[],
+  fixtures: EvalFixture[]
+): EvalRunSummary {
+  const scored = cases.filter(c => c.status === 'scored');
+  const requiredFindings = scored.reduce((sum, c) =>
+    sum + (fixtures.find(f => f.id === c.fixtureId)?.expected.requiredFindings.length || 0), 0);
+  const missingFindings = scored.reduce((sum, c) => sum + c.missingFindings.length, 0);
+
+  return {
+    target,
+    promptId,
+    promptVersion,
+    cases,
+    scored: scored.length,
+    notRecorded: cases.filter(c => c.status === 'not_recorded').length,
+    errors: cases.filter(c => c.status === 'error').length,
+    schemaValidity: share(scored.filter(c => c.schemaValid).length, scored.length),
+    firstPassValidity: share(scored.filter(c => c.firstPassValid).length, scored.length),
+    riskBandAccuracy: share(scored.filter(c => c.riskBandCorrect).length, scored.length),
+    findingsRecall: requiredFindings > 0 ? 1 - missingFindings / requiredFindings : share(scored.length, scored.length),
+    hallucinationRate: share(scored.filter(c => c.hallucinations.length > 0).length, scored.length),
+    totalTokens: scored.reduce((sum, c) => sum + c.tokens, 0),
+    totalCostUSD: scored.reduce((sum, c) => sum + c.costUSD, 0)
+  };
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Markdown comparison of every run, one row per model and prompt version, followed by
+ * the individual cases that lost points
+ */
+export function renderComparisonReport(
+  runs: EvalRunSummary[],
+  meta: { generatedAt: string; mode: string; fixtureCount: number; rulesDate: string }
+): string {
+  const modelRuns = runs.filter(run => run.target.provider !== 'local');
+  const lines = [
+    '# AI evaluation report',
+    '',
+    `Generated ${meta.generatedAt} - ${meta.fixtureCount} fixtures - ${meta.mode} mode - rule-based insights as of ${meta.rulesDate}`,
+    '',
+    // Replays can only score what has been recorded, so say when no model was evaluated at all
+    ...(meta.mode === 'replay' && modelRuns.every(run => run.scored === 0)
+      ? ['No model responses are recorded, so only the rule-based insights were scored. Run with --record to evaluate the models.', '']
+      : []),
+    '## Comparison',
+    '',
+    '| Provider | Model | Prompt | Scored | Not recorded | Errors | Schema valid | First pass | Risk band | Findings | Hallucinations | Tokens | Cost (USD) |',
+    '| --- | --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...runs.map(run => [
+      run.target.provider,
+      run.target.model,
+      `${run.promptId} v${run.promptVersion}`,
+      run.scored,
+      run.notRecorded,
+      run.errors,
+      percent(run.schemaValidity),
+      percent(run.firstPassValidity),
+      percent(run.riskBandAccuracy),
+      percent(run.findingsRecall),
+      percent(run.hallucinationRate),
+      run.totalTokens,
+      run.totalCostUSD.toFixed(4)
+    ].join(' | ')).map(row => `| ${row} |`),
+    ''
+  ];
+
+  for (const run of runs) {
+    const problems = run.cases.filter(c =>
+      c.status === 'error'
+      || (c.status === 'scored' && (!c.schemaValid || !c.riskBandCorrect || c.missingFindings.length > 0 || c.hallucinations.length > 0))
+    );
+    if (problems.length === 0) continue;
+
+    lines.push(`## ${run.target.provider} ${run.target.model} - ${run.promptId} v${run.promptVersion}`, '');
+    for (const c of problems) {
+      const issues = c.status === 'error'
+        ? [`error: ${c.error}`]
+        : [
+            !c.schemaValid ? `schema invalid after ${c.repairAttempts} repairs` : null,
+            !c.riskBandCorrect ? `risk ${c.riskScore} (${c.riskLevel}) outside the expected band` : null,
+            c.missingFindings.length > 0 ? `missing findings: ${c.missingFindings.join(', ')}` : null,
+            c.hallucinations.length > 0 ? `unknown people: ${c.hallucinations.join(', ')}` : null
+          ].filter((issue): issue is string => !!issue);
+      lines.push(`- **${c.fixtureId}**: ${issues.join('; ')}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
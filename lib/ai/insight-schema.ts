@@ -0,0 +1,164 @@
+// Zod schemas for structured AI output, and the repair loop that re-prompts a model
+// with the validation errors until its JSON matches
+
+import { z } from 'zod';
+import { parseInsightContent } from './insights';
+import type { AIChatMessage, AICompletion, CompanyInsight, InsightValidation } from './types';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+const text = z.string().trim().min(1, 'must not be empty');
+const textList = z.array(text);
+const score = z.number().min(0).max(100);
+
+export const insightRiskFactorSchema = z.object({
+  category: z.enum(['financial', 'operational', 'regulatory', 'market']),
+  risk: text,
+  severity: z.enum(['low', 'medium', 'high']),
+  explanation: z.string()
+});
+
+// The JSON the insight prompt asks every provider for
+export const insightResponseSchema = z.object({
+  summary: text,
+  keyFindings: textList.min(1, 'must list at least one finding'),
+  riskScore: score,
+  riskFactors: z.array(insightRiskFactorSchema),
+  strengths: textList,
+  opportunities: textList,
+  recommendations: textList,
+  marketPosition: text,
+  financialHealth: text,
+  growthPotential: text,
+  confidence: score,
+  dataQuality: z.enum(['excellent', 'good', 'fair', 'limited'])
+});
+
+export type InsightResponse = z.infer<typeof insightResponseSchema>;
+
+export const insightValidationSchema = z.object({
+  status: z.enum(['valid', 'repaired', 'failed']),
+  repairAttempts: z.number().int().min(0),
+  errors: z.array(z.string())
+});
+
+export const insightPromptStampSchema = z.object({
+  id: z.string(),
+  version: z.number().int().min(1),
+  hash: z.string(),
+  parameters: z.object({
+    maxTokens: z.number().int(),
+    temperature: z.number(),
+    includeRiskAnalysis: z.boolean(),
+    includeFinancialInsights: z.boolean(),
+    includeCompetitiveAnalysis: z.boolean()
+  })
+});
+
+// A finished insight as returned by the AI routes and stored on the company
+export const companyInsightSchema: z.ZodType<CompanyInsight> = insightResponseSchema.extend({
+  riskLevel: z.enum(['low', 'medium', 'high', 'critical']),
+  generatedAt: z.string(),
+  tokensUsed: z.number().int().min(0),
+  provider: z.enum(['deepseek', 'openrouter', 'local']),
+  model: z.string(),
+  prompt: insightPromptStampSchema,
+  validation: insightValidationSchema
+});
+
+export interface StructuredCompletion<T> {
+  data: T | null; // Null when the last response still failed validation
+  raw: Record<string, unknown>; // The last parsed object, empty if there was none
+  model: string;
+  promptTokens: number; // Summed across the first call and every repair
+  completionTokens: number;
+  validation: InsightValidation;
+}
+
+export function getMaxRepairAttempts(): number {
+  const configured = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '', 10);
+  return Number.isFinite(configured) ? Math.min(5, Math.max(0, configured)) : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+}
+
+/**
+ * Check a model response against a schema. Never throws; a response with no
+ * parseable JSON object fails with that as its only error.
+ */
+export function validateStructuredContent<T>(
+  content: string,
+  schema: z.ZodType<T>
+): { success: true; data: T; raw: Record<string, unknown> } | { success: false; raw: Record<string, unknown>; errors: string[] } {
+  let raw: Record<string, unknown>;
+  try {
+    raw = parseInsightContent(content);
+  } catch (error) {
+    return { success: false, raw: {}, errors: [error instanceof Error ? error.message : 'Response is not valid JSON'] };
+  }
+
+  const result = schema.safeParse(raw);
+  return result.success
+    ? { success: true, data: result.data, raw }
+    : { success: false, raw, errors: formatIssues(result.error) };
+}
+
+/**
+ * The original prompt followed by the rejected response and the errors to fix. Each
+ * repair starts from the original prompt so the conversation doesn't grow with every try.
+ */
+export function buildRepairMessages(messages: AIChatMessage[], content: string, errors: string[]): AIChatMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content: `Your response did not match the required JSON format:
+${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON object, with every field from the format above and no additional text.`
+    }
+  ];
+}
+
+/**
+ * Run a completion and validate it, re-prompting with the validation errors up to
+ * maxRepairs times. Provider errors are thrown; a response that never validates is
+ * returned with status "failed" so the caller decides whether to use it.
+ */
+export async function completeWithRepair<T>(
+  complete: (messages: AIChatMessage[]) => Promise<AICompletion>,
+  messages: AIChatMessage[],
+  schema: z.ZodType<T>,
+  maxRepairs: number = getMaxRepairAttempts()
+): Promise<StructuredCompletion<T>> {
+  let conversation = messages;
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  for (let repairAttempts = 0; ; repairAttempts++) {
+    const completion = await complete(conversation);
+    promptTokens += completion.promptTokens;
+    completionTokens += completion.completionTokens;
+
+    const result = validateStructuredContent(completion.content, schema);
+    if (result.success || repairAttempts >= maxRepairs) {
+      return {
+        data: result.success ? result.data : null,
+        raw: result.raw,
+        model: completion.model,
+        promptTokens,
+        completionTokens,
+        validation: {
+          status: !result.success ? 'failed' : repairAttempts > 0 ? 'repaired' : 'valid',
+          repairAttempts,
+          errors: result.success ? [] : result.errors
+        }
+      };
+    }
+
+    conversation = buildRepairMessages(messages, completion.content, result.errors);
+  }
+}
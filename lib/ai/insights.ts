@@ -0,0 +1,253 @@
+// Company insight prompt variables, response parsing and risk normalisation shared by every AI provider
+
+import { getInsolvencyRiskFloor } from '@/lib/companies-house/insolvency';
+import { COMPANY_INSIGHT_PROMPT, assignPromptVersion, getPromptTemplate, hashPrompt, renderPrompt } from './prompts';
+import type {
+  AIChatMessage,
+  AIProviderId,
+  CompanyInsight,
+  CompanyInsightInput,
+  CompanyInsightOptions,
+  InsightPromptStamp,
+  InsightRiskFactor,
+  InsightRiskLevel,
+  InsightValidation
+} from './types';
+
+// Statuses that pin the risk score to at least this value, whatever the model says
+const STATUS_RISK_FLOORS: Record<string, number> = {
+  'liquidation': 90,
+  'dissolved': 85,
+  'converted-closed': 85,
+  'administration': 75,
+  'receivership': 75,
+  'insolvency-proceedings': 75,
+  'voluntary-arrangement': 60
+};
+
+const RISK_CATEGORIES = new Set(['financial', 'operational', 'regulatory', 'market']);
+const SEVERITIES = new Set(['low', 'medium', 'high']);
+const DATA_QUALITIES = new Set(['excellent', 'good', 'fair', 'limited']);
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_TEMPERATURE = 0.3;
+
+export interface InsightPrompt {
+  messages: AIChatMessage[];
+  stamp: InsightPromptStamp;
+}
+
+// Values for the company insight template's placeholders
+export function buildInsightPromptVariables(input: CompanyInsightInput, options: CompanyInsightOptions = {}): Record<string, string> {
+  const { profile: company, officers } = input;
+  const {
+    includeRiskAnalysis = true,
+    includeFinancialInsights = true,
+    includeCompetitiveAnalysis = false
+  } = options;
+
+  return {
+    companyName: `${company.company_name}`,
+    companyNumber: `${company.company_number}`,
+    companyStatus: `${company.company_status}`,
+    companyType: `${company.type}`,
+    jurisdiction: `${company.jurisdiction}`,
+    incorporationDate: `${company.date_of_creation}`,
+    sicCodes: company.sic_codes?.join(', ') || 'None specified',
+    registeredOffice: company.registered_office_address
+      ? Object.values(company.registered_office_address).filter(Boolean).join(', ')
+      : 'Not available',
+    officerCount: `${officers.length}`,
+    officers: officers.slice(0, 5).map(officer =>
+      `- ${officer.name}: ${officer.officer_role} (appointed: ${officer.appointed_on}${officer.resigned_on ? `, resigned: ${officer.resigned_on}` : ''})`
+    ).join('\n'),
+    chargesContext: buildChargesContext(input),
+    insolvencyContext: buildInsolvencyContext(input),
+    filingStatus: company.accounts?.overdue ? 'Overdue' : 'Up to date',
+    lastAccountsDate: company.accounts?.last_accounts?.made_up_to || 'Not available',
+    riskAnalysisSection: includeRiskAnalysis ? `
+**RISK ANALYSIS REQUESTED:**
+Provide detailed risk assessment including financial, operational, regulatory, and market risks.
+` : '',
+    financialAnalysisSection: includeFinancialInsights ? `
+**FINANCIAL ANALYSIS REQUESTED:**
+Analyze financial health based on available data and filing patterns.
+` : '',
+    competitiveAnalysisSection: includeCompetitiveAnalysis ? `
+**COMPETITIVE ANALYSIS REQUESTED:**
+Assess market position based on SIC codes and business description.
+` : ''
+  };
+}
+
+function buildChargesContext({ profile, charges }: CompanyInsightInput): string {
+  if (!charges) {
+    return `- Has Charges: ${profile.has_charges ? 'Yes' : 'No'}`;
+  }
+
+  if (charges.outstandingCount === 0) {
+    return `- Charges: ${charges.totalCount} registered, none outstanding`;
+  }
+
+  const lenders = charges.lenders.slice(0, 5)
+    .map(lender => `${lender.name} (${lender.outstandingCount})`)
+    .join(', ');
+
+  return [
+    `- Charges: ${charges.totalCount} registered, ${charges.outstandingCount} outstanding (${charges.partSatisfiedCount} part-satisfied)`,
+    `- Outstanding Charge Holders: ${lenders || 'Not specified'}`,
+    `- Oldest Outstanding Charge: ${charges.oldestOutstanding?.createdOn || 'Unknown'}`,
+    `- Most Recent Outstanding Charge: ${charges.newestOutstanding?.createdOn || 'Unknown'}`,
+    `- Floating Charge Over All Assets: ${charges.outstanding.some(c => c.floatingChargeCoversAll) ? 'Yes' : 'No'}`
+  ].join('\n');
+}
+
+function buildInsolvencyContext({ profile, insolvency }: CompanyInsightInput): string {
+  if (!insolvency || insolvency.caseCount === 0) {
+    return `- Has Insolvency History: ${profile.has_insolvency_history ? 'Yes' : 'No'}`;
+  }
+
+  return [
+    `- Insolvency Cases: ${insolvency.caseCount} (${insolvency.hasActiveCase ? 'at least one ongoing' : 'all concluded'})`,
+    ...insolvency.cases.slice(0, 5).map(c =>
+      `  - ${c.label}: started ${c.startDate || 'unknown'}${c.endDate ? `, ended ${c.endDate}` : ''}${c.practitioners.length ? `, practitioners: ${c.practitioners.map(p => p.name).join(', ')}` : ''}`
+    )
+  ].join('\n');
+}
+
+// Options with every default filled in, as recorded in the prompt stamp
+export function resolveInsightOptions(options: CompanyInsightOptions = {}): InsightPromptStamp['parameters'] {
+  return {
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    includeRiskAnalysis: options.includeRiskAnalysis ?? true,
+    includeFinancialInsights: options.includeFinancialInsights ?? true,
+    includeCompetitiveAnalysis: options.includeCompetitiveAnalysis ?? false
+  };
+}
+
+/**
+ * Render the company insight prompt at a registry version (the untargeted rollout
+ * default if none is given), stamped with everything needed to reproduce it.
+ */
+export function buildInsightPrompt(
+  input: CompanyInsightInput,
+  options: CompanyInsightOptions = {},
+  version: number = assignPromptVersion(COMPANY_INSIGHT_PROMPT)
+): InsightPrompt {
+  const template = getPromptTemplate(COMPANY_INSIGHT_PROMPT, version);
+  const messages = renderPrompt(template, buildInsightPromptVariables(input, options));
+
+  return {
+    messages,
+    stamp: {
+      id: template.id,
+      version: template.version,
+      hash: hashPrompt(messages),
+      parameters: resolveInsightOptions(options)
+    }
+  };
+}
+
+/**
+ * Pull the JSON object out of a model response, tolerating code fences or text
+ * around it. Throws when there is no parseable object.
+ */
+export function parseInsightContent(content: string): Record<string, unknown> {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('AI response did not contain a JSON object');
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('AI response JSON is not an object');
+  }
+  return parsed;
+}
+
+export function getInsightRiskLevel(score: number): InsightRiskLevel {
+  if (score <= 25) return 'low';
+  if (score <= 50) return 'medium';
+  if (score <= 75) return 'high';
+  return 'critical';
+}
+
+/**
+ * Clamp a model's risk score to 0-100 and raise it to the floor set by the company's
+ * status and insolvency history, so every provider lands in the same band.
+ */
+export function normaliseRiskScore(score: unknown, input: CompanyInsightInput): number {
+  const floors = [
+    STATUS_RISK_FLOORS[input.profile.company_status],
+    input.insolvency ? getInsolvencyRiskFloor(input.insolvency) : null
+  ].filter((floor): floor is number => typeof floor === 'number');
+
+  const modelScore = typeof score === 'number' && Number.isFinite(score)
+    ? Math.min(100, Math.max(0, score))
+    : 50;
+
+  return Math.round(Math.max(modelScore, ...floors));
+}
+
+function toStringList(value: unknown, limit: number): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').slice(0, limit)
+    : [];
+}
+
+function toText(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : fallback;
+}
+
+function toRiskFactors(value: unknown): InsightRiskFactor[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(factor => factor && typeof factor === 'object' && typeof factor.risk === 'string')
+    .slice(0, 8)
+    .map(factor => ({
+      category: RISK_CATEGORIES.has(factor.category) ? factor.category : 'operational',
+      risk: factor.risk,
+      severity: SEVERITIES.has(factor.severity) ? factor.severity : 'medium',
+      explanation: typeof factor.explanation === 'string' ? factor.explanation : ''
+    }));
+}
+
+/**
+ * Build the unified insight from a parsed model response. A schema-valid response only
+ * has its risk floors and list limits applied; in a failed one, fields the model got
+ * wrong fall back to placeholders and the insight carries the failed validation.
+ */
+export function toCompanyInsight(
+  raw: Record<string, unknown>,
+  input: CompanyInsightInput,
+  meta: { provider: AIProviderId; model: string; tokensUsed: number; validation: InsightValidation; prompt: InsightPromptStamp }
+): CompanyInsight {
+  const riskScore = normaliseRiskScore(raw.riskScore, input);
+  const confidence = typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)
+    ? Math.round(Math.min(100, Math.max(0, raw.confidence)))
+    : 60;
+
+  return {
+    summary: toText(raw.summary, 'Analysis generated but summary not available'),
+    keyFindings: toStringList(raw.keyFindings, 6),
+    riskScore,
+    riskLevel: getInsightRiskLevel(riskScore),
+    riskFactors: toRiskFactors(raw.riskFactors),
+    strengths: toStringList(raw.strengths, 5),
+    opportunities: toStringList(raw.opportunities, 5),
+    recommendations: toStringList(raw.recommendations, 5),
+    marketPosition: toText(raw.marketPosition, 'Not assessed'),
+    financialHealth: toText(raw.financialHealth, 'Not assessed'),
+    growthPotential: toText(raw.growthPotential, 'Not assessed'),
+    confidence,
+    dataQuality: DATA_QUALITIES.has(raw.dataQuality as string) ? raw.dataQuality as CompanyInsight['dataQuality'] : 'fair',
+    generatedAt: new Date().toISOString(),
+    tokensUsed: meta.tokensUsed,
+    provider: meta.provider,
+    model: meta.model,
+    prompt: meta.prompt,
+    validation: meta.validation
+  };
+}
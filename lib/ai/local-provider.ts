@@ -0,0 +1,268 @@
+// Offline AI provider - replays recorded completions by prompt hash, otherwise derives a
+// deterministic rule-based insight from the Companies House data behind the prompt
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getMassRegistrationMarker } from '@/lib/companies-house/address';
+import { hashPrompt } from './prompts';
+import type {
+  AIChatMessage,
+  AICompletion,
+  AICompletionRequest,
+  AIProvider,
+  AIProviderId,
+  CompanyInsightInput,
+  InsightRiskFactor
+} from './types';
+
+export const LOCAL_RULES_MODEL = 'rules-v1';
+
+export interface AIRecording {
+  promptHash: string;
+  provider: AIProviderId;
+  recordedAt: string;
+  completion: AICompletion;
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// The date rule-based insights are assessed on, so replays and evaluations don't drift with the calendar
+function getRulesDate(): Date | undefined {
+  const date = process.env.AI_RULES_DATE ? new Date(process.env.AI_RULES_DATE) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+export function getRecordingsDir(): string {
+  return process.env.AI_RECORDINGS_DIR || path.join(process.cwd(), 'lib', 'ai', 'recordings');
+}
+
+export async function loadRecording(messages: AIChatMessage[]): Promise<AIRecording | null> {
+  try {
+    const file = path.join(getRecordingsDir(), `${hashPrompt(messages)}.json`);
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a real provider's completion so it can be replayed offline. Recording is
+ * switched on with AI_RECORD_RESPONSES=true and never fails the request.
+ */
+export async function saveRecording(messages: AIChatMessage[], provider: AIProviderId, completion: AICompletion): Promise<void> {
+  const promptHash = hashPrompt(messages);
+  const recording: AIRecording = { promptHash, provider, recordedAt: new Date().toISOString(), completion };
+
+  try {
+    await fs.mkdir(getRecordingsDir(), { recursive: true });
+    await fs.writeFile(path.join(getRecordingsDir(), `${promptHash}.json`), `${JSON.stringify(recording, null, 2)}\n`);
+  } catch (error) {
+    console.error('AI recording save error:', error);
+  }
+}
+
+function yearsBetween(from: string, to: Date): number {
+  return (to.getTime() - new Date(from).getTime()) / MS_PER_YEAR;
+}
+
+/**
+ * A rule-based insight in the same JSON shape the models are asked for. The same
+ * input and date always give the same result.
+ */
+export function buildRuleBasedInsight(input: CompanyInsightInput, now: Date = new Date()): Record<string, unknown> {
+  const { profile, officers, charges, insolvency } = input;
+  const riskFactors: InsightRiskFactor[] = [];
+  const strengths: string[] = [];
+  const recommendations: string[] = [];
+  let riskScore = 25;
+
+  const active = profile.company_status === 'active';
+  const age = profile.date_of_creation ? yearsBetween(profile.date_of_creation, now) : null;
+  const activeOfficers = officers.filter(officer => !officer.resigned_on);
+  const recentResignations = officers.filter(officer => officer.resigned_on && yearsBetween(officer.resigned_on, now) <= 1);
+
+  if (!active) {
+    riskScore += 50;
+    riskFactors.push({
+      category: 'operational',
+      risk: `Company status is ${profile.company_status.replace(/-/g, ' ')}`,
+      severity: 'high',
+      explanation: profile.date_of_cessation
+        ? `The company ceased on ${profile.date_of_cessation}.`
+        : 'The company is not currently active on the register.'
+    });
+    recommendations.push('Confirm the company can still contract before relying on it');
+  } else {
+    strengths.push('Active on the Companies House register');
+  }
+
+  if (age !== null && age < 2) {
+    riskScore += 15;
+    riskFactors.push({
+      category: 'operational',
+      risk: 'Recently incorporated',
+      severity: 'medium',
+      explanation: `Incorporated on ${profile.date_of_creation}, so there is little filing history to assess.`
+    });
+  } else if (age !== null && age >= 10) {
+    riskScore -= 5;
+    strengths.push(`Trading history of ${Math.floor(age)} years`);
+  }
+
+  if (profile.accounts?.overdue) {
+    riskScore += 15;
+    riskFactors.push({
+      category: 'regulatory',
+      risk: 'Accounts overdue',
+      severity: 'high',
+      explanation: `Accounts were due on ${profile.accounts.next_due || 'an earlier date'} and have not been filed.`
+    });
+    recommendations.push('Request the latest management accounts before extending credit');
+  } else if (profile.accounts?.last_accounts?.made_up_to) {
+    strengths.push('Accounts filed on time');
+  }
+
+  if (profile.confirmation_statement?.overdue) {
+    riskScore += 10;
+    riskFactors.push({
+      category: 'regulatory',
+      risk: 'Confirmation statement overdue',
+      severity: 'medium',
+      explanation: `The confirmation statement was due on ${profile.confirmation_statement.next_due}.`
+    });
+  }
+
+  if (profile.accounts?.last_accounts?.type?.toLowerCase() === 'dormant') {
+    riskScore += 10;
+    riskFactors.push({
+      category: 'operational',
+      risk: 'Files dormant accounts',
+      severity: 'medium',
+      explanation: 'The last accounts were filed as dormant, so the company reported no significant trading.'
+    });
+  }
+
+  if (charges && charges.outstandingCount > 0) {
+    riskScore += Math.min(15, charges.outstandingCount * 5);
+    const coversAll = charges.outstanding.some(charge => charge.floatingChargeCoversAll);
+    riskFactors.push({
+      category: 'financial',
+      risk: `${charges.outstandingCount} outstanding ${charges.outstandingCount === 1 ? 'charge' : 'charges'}`,
+      severity: coversAll ? 'high' : 'medium',
+      explanation: `Held by ${charges.lenders.slice(0, 3).map(lender => lender.name).join(', ') || 'unnamed lenders'}${coversAll ? ', including a floating charge over all assets' : ''}.`
+    });
+    recommendations.push('Review outstanding charges and lender priority before taking security');
+  } else if (charges || profile.has_charges === false) {
+    strengths.push('No outstanding secured lending');
+  }
+
+  if (insolvency && insolvency.caseCount > 0) {
+    riskFactors.push({
+      category: 'financial',
+      risk: insolvency.hasActiveCase ? 'Ongoing insolvency case' : 'Insolvency history',
+      severity: insolvency.hasActiveCase ? 'high' : 'medium',
+      explanation: insolvency.cases.slice(0, 3).map(c => `${c.label} from ${c.startDate || 'an unknown date'}`).join('; ')
+    });
+    recommendations.push('Check the insolvency practitioner notices before any dealings');
+  }
+
+  if (activeOfficers.length === 0) {
+    riskScore += 10;
+    riskFactors.push({
+      category: 'regulatory',
+      risk: 'No active officers on record',
+      severity: 'medium',
+      explanation: 'None of the officers returned by Companies House are currently appointed.'
+    });
+  } else {
+    strengths.push(`${activeOfficers.length} active ${activeOfficers.length === 1 ? 'officer' : 'officers'}`);
+  }
+
+  if (recentResignations.length >= 2) {
+    riskScore += 5;
+    riskFactors.push({
+      category: 'operational',
+      risk: 'Recent officer turnover',
+      severity: 'low',
+      explanation: `${recentResignations.length} officers resigned in the last year.`
+    });
+  }
+
+  const massRegistration = profile.registered_office_address
+    ? getMassRegistrationMarker(profile.registered_office_address)
+    : null;
+  if (massRegistration) {
+    riskScore += 5;
+    riskFactors.push({
+      category: 'operational',
+      risk: 'Registered at a mass-registration address',
+      severity: 'low',
+      explanation: massRegistration.reason
+    });
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push('Re-check the Companies House record before relying on this analysis');
+  }
+
+  const keyFindings = [
+    `Status: ${profile.company_status}`,
+    profile.date_of_creation ? `Incorporated on ${profile.date_of_creation}` : null,
+    `${activeOfficers.length} of ${officers.length} listed officers currently appointed`,
+    charges ? `${charges.outstandingCount} of ${charges.totalCount} registered charges outstanding` : null,
+    insolvency && insolvency.caseCount > 0 ? `${insolvency.caseCount} insolvency ${insolvency.caseCount === 1 ? 'case' : 'cases'}` : null
+  ].filter((finding): finding is string => !!finding);
+
+  return {
+    summary: `${profile.company_name} is ${active ? 'an active' : `a ${profile.company_status.replace(/-/g, ' ')}`} ${profile.type || 'UK'} company${profile.date_of_creation ? ` incorporated on ${profile.date_of_creation}` : ''}. This rule-based assessment found ${riskFactors.length} risk ${riskFactors.length === 1 ? 'factor' : 'factors'} in the Companies House record.`,
+    keyFindings,
+    riskScore: Math.min(100, Math.max(0, riskScore)),
+    riskFactors,
+    strengths,
+    opportunities: active && riskFactors.length === 0 ? ['No adverse registry indicators for standard trading terms'] : [],
+    recommendations,
+    marketPosition: profile.sic_codes?.length ? `Registered activity: SIC ${profile.sic_codes.join(', ')}` : 'Not assessed from registry data',
+    financialHealth: profile.accounts?.overdue
+      ? 'Uncertain - accounts overdue'
+      : charges && charges.outstandingCount > 0 ? 'Secured borrowing outstanding' : 'No adverse registry indicators',
+    growthPotential: 'Not assessed from registry data',
+    confidence: 60,
+    dataQuality: profile.accounts?.last_accounts ? 'fair' : 'limited'
+  };
+}
+
+// Rough token count for offline completions, about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Offline (recorded and rule-based)',
+  models: [LOCAL_RULES_MODEL],
+  defaultModel: LOCAL_RULES_MODEL,
+  isConfigured: () => true,
+
+  async complete(request: AICompletionRequest): Promise<AICompletion> {
+    const recording = await loadRecording(request.messages);
+    if (recording) {
+      return recording.completion;
+    }
+
+    // Evaluation replays must not quietly score the rules in place of a missing recording
+    if (process.env.AI_REPLAY_ONLY === 'true') {
+      throw new Error(`No recorded response for prompt ${hashPrompt(request.messages)}`);
+    }
+
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'));
+
+    // Prompts that aren't about a company (health checks) get a plain acknowledgement
+    const content = request.context
+      ? JSON.stringify(buildRuleBasedInsight(request.context, getRulesDate()), null, 2)
+      : 'OK';
+
+    return { content, model: LOCAL_RULES_MODEL, promptTokens, completionTokens: estimateTokens(content) };
+  },
+
+  estimateCost: () => 0
+};
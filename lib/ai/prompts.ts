@@ -0,0 +1,227 @@
+// Prompt registry - versioned prompt templates with {{variable}} placeholders, A/B
+// rollout between versions by team, and the hash that ties an insight to its exact prompt
+
+import crypto from 'crypto';
+import type { AIChatMessage } from './types';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string; // What changed from the previous version
+  createdAt: string;
+  system: string;
+  user: string;
+  variables: string[]; // Every placeholder the templates use; rendering fails if one is missing
+}
+
+// Share of teams on each version of a prompt, by weight
+export interface PromptRollout {
+  promptId: string;
+  variants: Array<{ version: number; weight: number }>;
+}
+
+export const COMPANY_INSIGHT_PROMPT = 'company-insight';
+
+const COMPANY_INSIGHT_SYSTEM = `You are a senior financial analyst and business intelligence expert specializing in UK corporate analysis. You analyze company data from Companies House and provide comprehensive business insights.
+
+Your analysis should be:
+- Professional and objective
+- Data-driven with specific observations
+- Risk-aware but balanced
+- Actionable for business decision-making
+
+Risk Score Guidelines (0 = lowest risk, 100 = highest risk):
+- Active companies with up-to-date filings: 15-45, adjusted for age, sector and filing history
+- Companies in administration or receivership: 75-95
+- Companies in liquidation: 90-100
+- Dissolved companies: 85-100
+- Ongoing insolvency cases and overdue filings raise the score
+
+Only describe people, charges and events that appear in the data you are given.
+Always specify your confidence level and data quality assessment.
+Return responses in valid JSON format only.`;
+
+const COMPANY_INSIGHT_USER = `
+Analyze this UK company comprehensively:
+
+**COMPANY PROFILE:**
+- Name: {{companyName}}
+- Number: {{companyNumber}}
+- Status: {{companyStatus}}
+- Type: {{companyType}}
+- Jurisdiction: {{jurisdiction}}
+- Incorporation Date: {{incorporationDate}}
+- SIC Codes: {{sicCodes}}
+
+**REGISTERED OFFICE:**
+{{registeredOffice}}
+
+**KEY OFFICERS ({{officerCount}} total):**
+{{officers}}
+
+**ADDITIONAL CONTEXT:**
+{{chargesContext}}
+{{insolvencyContext}}
+- Filing Status: {{filingStatus}}
+- Last Accounts Date: {{lastAccountsDate}}
+
+{{riskAnalysisSection}}
+
+{{financialAnalysisSection}}
+
+{{competitiveAnalysisSection}}
+
+Provide your analysis in the following JSON format:
+{
+  "summary": "Executive summary in 2-3 sentences",
+  "keyFindings": ["Finding 1", "Finding 2", "Finding 3"],
+  "riskScore": 45,
+  "riskFactors": [
+    {
+      "category": "financial",
+      "risk": "Risk description",
+      "severity": "medium",
+      "explanation": "Detailed explanation"
+    }
+  ],
+  "strengths": ["Strength 1", "Strength 2"],
+  "opportunities": ["Opportunity 1", "Opportunity 2"],
+  "recommendations": ["Recommendation 1", "Recommendation 2"],
+  "marketPosition": "Brief position description",
+  "financialHealth": "Assessment",
+  "growthPotential": "Assessment",
+  "confidence": 85,
+  "dataQuality": "good"
+}
+
+Return only valid JSON with no additional text or formatting.`;
+
+const COMPANY_INSIGHT_VARIABLES = [
+  'companyName',
+  'companyNumber',
+  'companyStatus',
+  'companyType',
+  'jurisdiction',
+  'incorporationDate',
+  'sicCodes',
+  'registeredOffice',
+  'officerCount',
+  'officers',
+  'chargesContext',
+  'insolvencyContext',
+  'filingStatus',
+  'lastAccountsDate',
+  'riskAnalysisSection',
+  'financialAnalysisSection',
+  'competitiveAnalysisSection'
+];
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: COMPANY_INSIGHT_PROMPT,
+    version: 1,
+    description: 'Unified insight prompt shared by every provider',
+    createdAt: '2026-10-12',
+    system: COMPANY_INSIGHT_SYSTEM,
+    user: COMPANY_INSIGHT_USER,
+    variables: COMPANY_INSIGHT_VARIABLES
+  },
+  {
+    id: COMPANY_INSIGHT_PROMPT,
+    version: 2,
+    description: 'Asks for each risk factor to cite the register entry it is based on',
+    createdAt: '2026-10-19',
+    system: `${COMPANY_INSIGHT_SYSTEM}
+
+Base every risk factor on a specific entry in the data - an officer, charge, insolvency case or filing - and name that entry in its explanation. Never name a person, lender or event that is not listed.`,
+    user: COMPANY_INSIGHT_USER,
+    variables: COMPANY_INSIGHT_VARIABLES
+  }
+];
+
+// Prompts without a rollout always use their latest version
+const PROMPT_ROLLOUTS: PromptRollout[] = [
+  {
+    promptId: COMPANY_INSIGHT_PROMPT,
+    // Compare schema validity and hallucinated entities between the two before promoting v2
+    variants: [
+      { version: 1, weight: 50 },
+      { version: 2, weight: 50 }
+    ]
+  }
+];
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return PROMPT_TEMPLATES;
+}
+
+export function getPromptRollout(promptId: string): PromptRollout | null {
+  return PROMPT_ROLLOUTS.find(rollout => rollout.promptId === promptId) || null;
+}
+
+/**
+ * A prompt template by ID, at the given version or the latest one. Throws for an
+ * unknown prompt or version so a stale stamp can't silently render a different prompt.
+ */
+export function getPromptTemplate(promptId: string, version?: number): PromptTemplate {
+  const versions = PROMPT_TEMPLATES.filter(template => template.id === promptId);
+  const template = version === undefined
+    ? versions.reduce<PromptTemplate | undefined>((latest, t) => (!latest || t.version > latest.version ? t : latest), undefined)
+    : versions.find(t => t.version === version);
+
+  if (!template) {
+    throw new Error(`Unknown prompt: ${promptId}${version === undefined ? '' : ` v${version}`}`);
+  }
+  return template;
+}
+
+/**
+ * The version of a prompt a team gets. Teams are bucketed by a hash of the team and
+ * prompt IDs, so a team stays on the same variant for the life of the rollout.
+ * Requests without a team get the first variant.
+ */
+export function assignPromptVersion(promptId: string, teamId?: number | null): number {
+  const rollout = getPromptRollout(promptId);
+  if (!rollout || rollout.variants.length === 0) {
+    return getPromptTemplate(promptId).version;
+  }
+
+  if (teamId === undefined || teamId === null) {
+    return rollout.variants[0].version;
+  }
+
+  const totalWeight = rollout.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const hash = crypto.createHash('sha256').update(`${promptId}:${teamId}`).digest();
+  let bucket = hash.readUInt32BE(0) % totalWeight;
+
+  for (const variant of rollout.variants) {
+    if (bucket < variant.weight) return variant.version;
+    bucket -= variant.weight;
+  }
+  return rollout.variants[rollout.variants.length - 1].version;
+}
+
+function renderTemplate(text: string, template: PromptTemplate, variables: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!template.variables.includes(name) || variables[name] === undefined) {
+      throw new Error(`Prompt ${template.id} v${template.version} is missing variable: ${name}`);
+    }
+    return variables[name];
+  });
+}
+
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): AIChatMessage[] {
+  return [
+    { role: 'system', content: renderTemplate(template.system, template, variables) },
+    { role: 'user', content: renderTemplate(template.user, template, variables) }
+  ];
+}
+
+// Role and content only, so the same prompt hashes the same whichever model it was sent to
+export function hashPrompt(messages: AIChatMessage[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(messages.map(message => [message.role, message.content])))
+    .digest('hex')
+    .slice(0, 32);
+}
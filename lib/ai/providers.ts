@@ -0,0 +1,118 @@
+// AI provider registry - DeepSeek, OpenRouter and the offline provider behind the shared AIProvider contract
+
+import { deepSeekClient } from './deepseek-client';
+import { localProvider } from './local-provider';
+import { openRouterClient } from '@/lib/openrouter/client';
+import type { AIProvider, AIProviderId, TeamAISettings } from './types';
+
+// USD per 1M tokens, [input, output]
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'deepseek-chat': [0.14, 0.28],
+  'deepseek-reasoner': [0.55, 2.19],
+  'anthropic/claude-3-haiku': [0.25, 1.25],
+  'openai/gpt-4o-mini': [0.15, 0.6],
+  'anthropic/claude-3-opus': [15, 75],
+  'meta-llama/llama-3.1-8b-instruct': [0.05, 0.05]
+};
+
+// Unknown models are costed high rather than free
+const UNKNOWN_MODEL_PRICING: [number, number] = [15, 75];
+
+function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const [input, output] = MODEL_PRICING[model] || UNKNOWN_MODEL_PRICING;
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  deepseek: {
+    id: 'deepseek',
+    name: 'DeepSeek',
+    models: ['deepseek-chat', 'deepseek-reasoner'],
+    defaultModel: 'deepseek-chat',
+    isConfigured: () => !!process.env.DEEPSEEK_API_KEY,
+    complete: request => deepSeekClient.complete(request),
+    estimateCost
+  },
+  openrouter: {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    models: openRouterClient.listModels(),
+    defaultModel: 'openai/gpt-4o-mini',
+    isConfigured: () => openRouterClient.isConfigured(),
+    complete: request => openRouterClient.complete(request),
+    estimateCost
+  },
+  local: localProvider
+};
+
+// Used for teams that haven't chosen a provider, and as the failover order after a team's own choices
+export const DEFAULT_PROVIDER_ORDER: AIProviderId[] = ['openrouter', 'deepseek'];
+
+// Providers a team can pick in settings
+export const TEAM_SELECTABLE_PROVIDERS: AIProviderId[] = ['deepseek', 'openrouter'];
+
+export function isAIProviderId(value: unknown): value is AIProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value);
+}
+
+/**
+ * Check team AI settings from a request body. Returns an error message, or null
+ * when the settings are valid.
+ */
+export function validateTeamAISettings(value: unknown): string | null {
+  const settings = value as Partial<TeamAISettings> | null;
+  if (!settings || typeof settings !== 'object') {
+    return 'settings must be an object';
+  }
+
+  if (!isAIProviderId(settings.provider) || !TEAM_SELECTABLE_PROVIDERS.includes(settings.provider)) {
+    return `provider must be one of: ${TEAM_SELECTABLE_PROVIDERS.join(', ')}`;
+  }
+
+  if (settings.model !== undefined && !AI_PROVIDERS[settings.provider].models.includes(settings.model)) {
+    return `model must be one of: ${AI_PROVIDERS[settings.provider].models.join(', ')}`;
+  }
+
+  if (settings.fallbackProviders !== undefined) {
+    if (!Array.isArray(settings.fallbackProviders)
+      || !settings.fallbackProviders.every(id => isAIProviderId(id) && TEAM_SELECTABLE_PROVIDERS.includes(id))) {
+      return `fallbackProviders must be an array of: ${TEAM_SELECTABLE_PROVIDERS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The deployment-wide provider from AI_PROVIDER. "local" runs every AI path offline
+ * and overrides team settings; a remote provider only moves to the front of the default order.
+ */
+export function getConfiguredProvider(): AIProviderId | null {
+  const configured = process.env.AI_PROVIDER;
+  return isAIProviderId(configured) ? configured : null;
+}
+
+/**
+ * Providers to try for a team, in order: the team's choice with its model, then its
+ * fallbacks, then the remaining default providers. Unconfigured providers are left out.
+ * A team with fallbackProviders set to [] opts out of failover entirely.
+ */
+export function resolveProviderChain(settings?: TeamAISettings | null): Array<{ provider: AIProvider; model: string }> {
+  const configured = getConfiguredProvider();
+  if (configured === 'local') {
+    return [{ provider: localProvider, model: localProvider.defaultModel }];
+  }
+
+  const defaultOrder = configured ? [configured, ...DEFAULT_PROVIDER_ORDER] : DEFAULT_PROVIDER_ORDER;
+  const order: AIProviderId[] = settings
+    ? [settings.provider, ...(settings.fallbackProviders ?? defaultOrder)]
+    : defaultOrder;
+
+  return Array.from(new Set(order))
+    .map(id => AI_PROVIDERS[id])
+    .filter(provider => provider.isConfigured())
+    .map(provider => ({
+      provider,
+      model: settings?.provider === provider.id && settings.model ? settings.model : provider.defaultModel
+    }));
+}
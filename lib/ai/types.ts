@@ -0,0 +1,156 @@
+// Provider-agnostic AI types - one insight schema whichever model produced it
+
+import type { ChargesSummary, CompanyProfile, InsolvencySummary, Officer } from '@/lib/companies-house/types';
+
+export type AIProviderId = 'deepseek' | 'openrouter' | 'local';
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  model: string;
+  messages: AIChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+  context?: CompanyInsightInput; // The data behind the prompt, for providers that don't call a model
+}
+
+export interface AICompletion {
+  content: string;
+  model: string; // As reported back by the provider
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * A chat-completion backend. Providers only move messages; prompts, parsing and
+ * risk scoring live in the AI service so every provider is held to the same schema.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  models: string[]; // Models a team may select, cheapest first
+  defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: AICompletionRequest): Promise<AICompletion>;
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number; // USD
+}
+
+// Stored in teams.ai_settings. The local provider is chosen by deployment config, never by a team
+export interface TeamAISettings {
+  provider: AIProviderId;
+  model?: string; // Defaults to the provider's default model
+  fallbackProviders?: AIProviderId[]; // Tried in order when the preferred provider fails
+}
+
+export type InsightRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+export type InsightRiskCategory = 'financial' | 'operational' | 'regulatory' | 'market';
+
+export interface InsightRiskFactor {
+  category: InsightRiskCategory;
+  risk: string;
+  severity: 'low' | 'medium' | 'high';
+  explanation: string;
+}
+
+/**
+ * Whether the model's JSON matched the insight schema. A failed insight is still
+ * returned with safe defaults in place of the bad fields, but is flagged as degraded.
+ */
+export interface InsightValidation {
+  status: 'valid' | 'repaired' | 'failed';
+  repairAttempts: number; // Re-prompts sent with the validation errors
+  errors: string[]; // From the last response checked, empty unless failed
+}
+
+/**
+ * The registry prompt and settings an insight was generated with. The template version
+ * and parameters re-render the exact prompt; the hash proves it matches what was sent.
+ */
+export interface InsightPromptStamp {
+  id: string;
+  version: number;
+  hash: string; // Of the rendered messages, also the offline recording key
+  parameters: {
+    maxTokens: number;
+    temperature: number;
+    includeRiskAnalysis: boolean;
+    includeFinancialInsights: boolean;
+    includeCompetitiveAnalysis: boolean;
+  };
+}
+
+export interface CompanyInsight {
+  summary: string;
+  keyFindings: string[];
+  riskScore: number; // 0-100, higher = more risky
+  riskLevel: InsightRiskLevel; // Band of riskScore, the same on every page
+  riskFactors: InsightRiskFactor[];
+  strengths: string[];
+  opportunities: string[];
+  recommendations: string[];
+  marketPosition: string;
+  financialHealth: string;
+  growthPotential: string;
+  confidence: number; // 0-100, how confident the AI is in its analysis
+  dataQuality: 'excellent' | 'good' | 'fair' | 'limited';
+  generatedAt: string;
+  tokensUsed: number;
+  provider: AIProviderId;
+  model: string;
+  prompt: InsightPromptStamp;
+  validation: InsightValidation;
+}
+
+// Everything the insight prompt is built from
+export interface CompanyInsightInput {
+  profile: CompanyProfile;
+  officers: Officer[];
+  charges?: ChargesSummary;
+  insolvency?: InsolvencySummary;
+}
+
+export interface CompanyInsightOptions {
+  includeRiskAnalysis?: boolean;
+  includeFinancialInsights?: boolean;
+  includeCompetitiveAnalysis?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface AIProviderAttempt {
+  provider: AIProviderId;
+  model: string;
+  error?: string;
+  latencyMs: number;
+  repairAttempts?: number;
+}
+
+export interface AIUsage {
+  provider: AIProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number; // Includes repair re-prompts
+  attempts: AIProviderAttempt[]; // Every provider tried, including the ones that failed over
+  validation: InsightValidation;
+}
+
+export interface CompanyInsightResult {
+  insight: CompanyInsight;
+  usage: AIUsage;
+  messages: AIChatMessage[]; // The rendered prompt as sent, kept on the AI job for audit
+}
+
+export interface AICostTracker {
+  userId: string;
+  tokensUsed: number;
+  costUSD: number;
+  requestCount: number;
+  lastRequest: string;
+  byProvider: Partial<Record<AIProviderId, { tokensUsed: number; costUSD: number; requestCount: number }>>;
+}
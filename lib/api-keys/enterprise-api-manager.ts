@@ -263,6 +263,36 @@ class EnterpriseAPIManager {
     }
   }
 
+  /**
+   * Scopes granted to a signed-in user through their active API key.
+   * Lets session-authenticated dashboard features honour the same permissions.
+   */
+  async getUserScopes(userId: string): Promise<APIScope[]> {
+    const { data, error } = await this.supabase
+      .from('user_quotas')
+      .select('api_keys_metadata')
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !data?.api_keys_metadata) {
+      return [];
+    }
+
+    const keyInfo = data.api_keys_metadata as APIKey;
+    if (keyInfo.status !== 'active') return [];
+    if (keyInfo.expires_at && new Date() > new Date(keyInfo.expires_at)) return [];
+
+    return keyInfo.scopes || [];
+  }
+
+  /**
+   * Whether a signed-in user holds a scope, directly or through admin:all
+   */
+  async userHasScope(userId: string, scope: APIScope): Promise<boolean> {
+    const scopes = await this.getUserScopes(userId);
+    return scopes.includes(scope) || scopes.includes('admin:all');
+  }
+
   /**
    * Advanced rate limiting with multiple tiers
    */
@@ -0,0 +1,191 @@
+// UK address normalisation - postcodes, premises cleanup and mass-registration addresses
+
+import type { CompanyProfile } from './types';
+
+export type RegisteredOfficeAddress = CompanyProfile['registered_office_address'];
+
+export interface NormalisedAddress {
+  key: string; // Identifies the exact address, including suite/unit/flat
+  buildingKey: string; // Identifies the building, ignoring suite/unit/flat - what mass registration is counted on
+  label: string;
+  postcode?: string;
+  subPremises: string[];
+  building: string[];
+}
+
+export type MassRegistrationKind = 'formation_agent' | 'virtual_office';
+
+export interface MassRegistrationMarker {
+  kind: MassRegistrationKind;
+  reason: string;
+}
+
+// Inner London addresses widely used as registered offices by formation agents and virtual offices
+const KNOWN_MASS_REGISTRATION_ADDRESSES: Array<{ postcode: string; street: string; kind: MassRegistrationKind; name: string }> = [
+  { postcode: 'N1 7GU', street: 'WENLOCK ROAD', kind: 'virtual_office', name: 'Wenlock Road, London' },
+  { postcode: 'WC2H 9JQ', street: 'SHELTON STREET', kind: 'virtual_office', name: 'Shelton Street, London' },
+  { postcode: 'EC1V 2NX', street: 'CITY ROAD', kind: 'formation_agent', name: 'City Road, London' },
+  { postcode: 'WC1N 3AX', street: 'OLD GLOUCESTER STREET', kind: 'virtual_office', name: 'Old Gloucester Street, London' },
+  { postcode: 'EC2A 4NE', street: 'PAUL STREET', kind: 'virtual_office', name: 'Paul Street, London' }
+];
+
+// Care-of lines that name a company secretarial or formation service
+const AGENT_CARE_OF_PATTERN = /\b(FORMATIONS?|SECRETARIES|SECRETARIAL|REGISTRARS?|COMPANY SERVICES|INCORPORATIONS?|REGISTERED OFFICE)\b/;
+
+const POSTCODE_PATTERN = /^([A-Z]{1,2}[0-9][A-Z0-9]?)([0-9][A-Z]{2})$/;
+const SUB_PREMISES_PATTERN = /^(SUITE|UNIT|FLAT|OFFICE|ROOM|APARTMENT|APT|STUDIO|BOX|PO BOX|(GROUND|BASEMENT|\d+(ST|ND|RD|TH)|FIRST|SECOND|THIRD|FOURTH|FIFTH|TOP) FLOOR|FLOOR \d+)\b/;
+const STREET_NUMBER_PATTERN = /^\d+[A-Z]?(-\d+[A-Z]?)?$/;
+
+const ABBREVIATIONS: Record<string, string> = {
+  RD: 'ROAD',
+  AVE: 'AVENUE',
+  AV: 'AVENUE',
+  LN: 'LANE',
+  DR: 'DRIVE',
+  CT: 'COURT',
+  PL: 'PLACE',
+  SQ: 'SQUARE',
+  CRES: 'CRESCENT',
+  GDNS: 'GARDENS',
+  GRN: 'GREEN',
+  HSE: 'HOUSE',
+  BLDG: 'BUILDING',
+  BLDGS: 'BUILDINGS',
+  STE: 'SUITE',
+  FL: 'FLOOR',
+  PK: 'PARK',
+  TER: 'TERRACE',
+  TERR: 'TERRACE'
+};
+
+// Country and nation lines add nothing to a UK address match
+const COUNTRY_LINES = new Set(['UNITED KINGDOM', 'UK', 'GREAT BRITAIN', 'ENGLAND', 'WALES', 'SCOTLAND', 'NORTHERN IRELAND', 'ENGLAND AND WALES']);
+
+/**
+ * Canonical UK postcode ("ec1v2nx", "EC1V  2NX" -> "EC1V 2NX"). A letter O typed for
+ * the leading digit of the inward code is corrected. Returns undefined when the
+ * value is not a UK postcode.
+ */
+export function normalisePostcode(postcode: string | undefined): string | undefined {
+  if (!postcode) return undefined;
+
+  let compact = postcode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (compact.length >= 5 && compact[compact.length - 3] === 'O') {
+    compact = `${compact.slice(0, -3)}0${compact.slice(-2)}`;
+  }
+
+  if (compact === 'GIR0AA') return 'GIR 0AA';
+  const match = compact.match(POSTCODE_PATTERN);
+  return match ? `${match[1]} ${match[2]}` : undefined;
+}
+
+function cleanLine(line: string | undefined): string {
+  if (!line) return '';
+
+  const words = line
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .replace(/[.'"]/g, '')
+    .replace(/\s*-\s*/g, '-') // "20 - 22" -> "20-22"
+    .replace(/[^A-Z0-9,\s/-]/g, ' ')
+    .replace(/\bNO\s+(?=\d)/g, '') // "No 5" -> "5"
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return words
+    .map((word, index) => {
+      // "ST" at the end is Street; elsewhere it is usually Saint ("St Albans")
+      if (word === 'ST' && index === words.length - 1 && index > 0) return 'STREET';
+      return ABBREVIATIONS[word] || word;
+    })
+    .join(' ')
+    .replace(/^[,\s]+|[,\s]+$/g, '');
+}
+
+function toTitleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s-])([a-z])/g, (_, prefix, letter) => prefix + letter.toUpperCase());
+}
+
+/**
+ * Normalise a registered office so trivially different formats of the same address
+ * compare equal. Premises, address lines and any comma-separated parts within them
+ * are split into sub-premises (suite, unit, floor) and building parts, duplicates are
+ * dropped, and a bare street number is joined to the street that follows it.
+ */
+export function normaliseAddress(address: RegisteredOfficeAddress): NormalisedAddress {
+  const postcode = normalisePostcode(address.postal_code);
+  const locality = cleanLine(address.locality);
+
+  const segments: string[] = [];
+  for (const line of [address.premises, address.address_line_1, address.address_line_2]) {
+    for (const part of cleanLine(line).split(',')) {
+      const segment = part.trim();
+      if (!segment || COUNTRY_LINES.has(segment) || segment === locality) continue;
+      // Skip a segment already covered by another ("20-22" then "20-22 WENLOCK ROAD")
+      if (segments.some(existing => existing === segment || existing.startsWith(`${segment} `))) continue;
+      const coveredIndex = segments.findIndex(existing => segment.startsWith(`${existing} `));
+      if (coveredIndex >= 0 && STREET_NUMBER_PATTERN.test(segments[coveredIndex])) {
+        segments[coveredIndex] = segment;
+        continue;
+      }
+      segments.push(segment);
+    }
+  }
+
+  const subPremises: string[] = [];
+  const building: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (SUB_PREMISES_PATTERN.test(segment)) {
+      subPremises.push(segment);
+    } else if (STREET_NUMBER_PATTERN.test(segment) && segments[i + 1] && !/^\d/.test(segments[i + 1])) {
+      building.push(`${segment} ${segments[++i]}`);
+    } else {
+      building.push(segment);
+    }
+  }
+
+  // The postcode pins the address down; fall back to the town when there isn't a valid one
+  const area = postcode || locality;
+  const labelParts = [...subPremises, ...building, locality].filter(Boolean).map(toTitleCase);
+
+  return {
+    key: [area, ...subPremises, ...building].join('|'),
+    buildingKey: [area, ...building].join('|'),
+    label: [...labelParts, postcode || address.postal_code?.trim()].filter(Boolean).join(', '),
+    postcode,
+    subPremises,
+    building
+  };
+}
+
+/**
+ * Whether an address is a known formation-agent or virtual-office address, or its
+ * filing says as much (a PO box, or care of a company secretarial service).
+ */
+export function getMassRegistrationMarker(
+  address: RegisteredOfficeAddress,
+  normalised: NormalisedAddress = normaliseAddress(address)
+): MassRegistrationMarker | null {
+  const known = KNOWN_MASS_REGISTRATION_ADDRESSES.find(entry =>
+    entry.postcode === normalised.postcode
+    && normalised.building.some(part => part.includes(entry.street))
+  );
+  if (known) {
+    return {
+      kind: known.kind,
+      reason: `${known.name} is a well-known ${known.kind === 'formation_agent' ? 'formation agent' : 'virtual office'} address`
+    };
+  }
+
+  const careOf = cleanLine(address.care_of);
+  if (careOf && AGENT_CARE_OF_PATTERN.test(careOf)) {
+    return { kind: 'formation_agent', reason: `Registered care of ${toTitleCase(careOf)}` };
+  }
+
+  if (address.po_box || normalised.subPremises.some(part => /^(PO )?BOX\b/.test(part))) {
+    return { kind: 'virtual_office', reason: 'Registered office is a PO box' };
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+// Charges register analysis - outstanding secured lending by lender and age
+
+import type { Charge, ChargesSummary, OutstandingCharge } from './types';
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Extract the charge ID, falling back to the last segment of the self link
+ */
+export function getChargeId(charge: Charge): string {
+  return charge.id || charge.links.self.split('/').pop() || String(charge.charge_number);
+}
+
+function toOutstandingCharge(charge: Charge, now: number): OutstandingCharge {
+  const createdOn = charge.created_on || charge.delivered_on;
+
+  return {
+    chargeId: getChargeId(charge),
+    createdOn,
+    ageInYears: createdOn
+      ? Math.floor(((now - new Date(createdOn).getTime()) / MS_PER_YEAR) * 10) / 10
+      : null,
+    status: charge.status,
+    classification: charge.classification?.description || 'Unspecified charge',
+    personsEntitled: (charge.persons_entitled || []).map(p => p.name),
+    securedDetails: charge.secured_details?.description,
+    floatingChargeCoversAll: !!charge.particulars?.floating_charge_covers_all
+  };
+}
+
+/**
+ * Summarize a charges register into outstanding-charge counts, lenders and ages.
+ * Part-satisfied charges still secure lending, so they count as outstanding.
+ */
+export function summarizeCharges(charges: Charge[], now: number = Date.now()): ChargesSummary {
+  const outstanding = charges
+    .filter(c => c.status === 'outstanding' || c.status === 'part-satisfied')
+    .map(c => toOutstandingCharge(c, now))
+    .sort((a, b) => (a.createdOn || '').localeCompare(b.createdOn || ''));
+
+  const lenderCounts = new Map<string, number>();
+  for (const charge of outstanding) {
+    for (const name of charge.personsEntitled) {
+      lenderCounts.set(name, (lenderCounts.get(name) || 0) + 1);
+    }
+  }
+
+  const lenders = Array.from(lenderCounts.entries())
+    .map(([name, outstandingCount]) => ({ name, outstandingCount }))
+    .sort((a, b) => b.outstandingCount - a.outstandingCount || a.name.localeCompare(b.name));
+
+  return {
+    totalCount: charges.length,
+    outstandingCount: outstanding.length,
+    partSatisfiedCount: charges.filter(c => c.status === 'part-satisfied').length,
+    satisfiedCount: charges.filter(c => c.status === 'satisfied' || c.status === 'fully-satisfied').length,
+    lenders,
+    oldestOutstanding: outstanding[0],
+    newestOutstanding: outstanding[outstanding.length - 1],
+    outstanding
+  };
+}
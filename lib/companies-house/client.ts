@@ -5,7 +5,15 @@ import type {
   CompanySearchResponse,
   CompanyProfile,
   OfficersResponse,
+  OfficerAppointment,
+  OfficerAppointmentsResponse,
   PSCResponse,
+  FilingCategory,
+  FilingHistoryItem,
+  FilingHistoryResponse,
+  Charge,
+  ChargesResponse,
+  InsolvencyResponse,
   CompaniesHouseError,
   RateLimitInfo
 } from './types';
@@ -252,6 +260,62 @@ class CompaniesHouseClient {
     });
   }
 
+  /**
+   * Get every company an officer is appointed to, paging through the list up to
+   * maxItems. `total_results` is kept from Companies House, so a list cut short by
+   * maxItems has fewer items than it.
+   * Accepts either the officer ID or the `links.officer.appointments` path from an officer record.
+   */
+  async getOfficerAppointments(
+    officerIdOrLink: string,
+    options: {
+      itemsPerPage?: number;
+      maxItems?: number;
+      rateLimitKey?: string;
+    } = {}
+  ): Promise<OfficerAppointmentsResponse> {
+    const { itemsPerPage = 50, maxItems = 1000, rateLimitKey } = options;
+
+    const endpoint = officerIdOrLink.startsWith('/officers/')
+      ? officerIdOrLink
+      : `/officers/${officerIdOrLink}/appointments`;
+
+    const pageSize = Math.min(itemsPerPage, 50);
+    const items: OfficerAppointment[] = [];
+    let startIndex = 0;
+    let firstPage: OfficerAppointmentsResponse | null = null;
+
+    while (items.length < maxItems) {
+      const page = await this.makeRequest<OfficerAppointmentsResponse>(endpoint, {
+        params: {
+          items_per_page: pageSize,
+          start_index: startIndex
+        },
+        rateLimitKey,
+        cacheTTL: 60 * 60 * 1000 // Cache appointments for 1 hour
+      });
+
+      if (!firstPage) firstPage = page;
+
+      const pageItems = page.items || [];
+      items.push(...pageItems);
+      startIndex += pageItems.length;
+
+      if (pageItems.length === 0 || startIndex >= page.total_results) {
+        break;
+      }
+    }
+
+    const appointments = items.slice(0, maxItems);
+    return {
+      ...firstPage!,
+      items: appointments,
+      items_per_page: appointments.length,
+      start_index: 0,
+      total_results: firstPage?.total_results ?? appointments.length
+    };
+  }
+
   /**
    * Get persons with significant control (PSCs)
    */
@@ -280,6 +344,161 @@ class CompaniesHouseClient {
     });
   }
 
+  /**
+   * Get company filing history
+   * Pages through the register until `maxItems` is reached. Companies House returns
+   * filings newest first, so paging stops as soon as a page goes past `dateFrom`.
+   */
+  async getFilingHistory(
+    companyNumber: string,
+    options: {
+      category?: FilingCategory | FilingCategory[];
+      dateFrom?: string;
+      dateTo?: string;
+      itemsPerPage?: number;
+      maxItems?: number;
+      rateLimitKey?: string;
+    } = {}
+  ): Promise<FilingHistoryResponse> {
+    const { category, dateFrom, dateTo, itemsPerPage = 100, maxItems = 500, rateLimitKey } = options;
+
+    const pageSize = Math.min(itemsPerPage, 100);
+    const categories = Array.isArray(category) ? category : category ? [category] : [];
+    const items: FilingHistoryItem[] = [];
+    let startIndex = 0;
+    let firstPage: FilingHistoryResponse | null = null;
+
+    while (items.length < maxItems) {
+      const params: Record<string, any> = {
+        items_per_page: pageSize,
+        start_index: startIndex
+      };
+
+      if (categories.length > 0) params.category = categories.join(',');
+
+      const page = await this.makeRequest<FilingHistoryResponse>(`/company/${companyNumber}/filing-history`, {
+        params,
+        rateLimitKey,
+        cacheTTL: 60 * 60 * 1000 // Cache filing history for 1 hour
+      });
+
+      if (!firstPage) firstPage = page;
+
+      const pageItems = page.items || [];
+      let reachedDateFrom = false;
+
+      for (const item of pageItems) {
+        if (dateFrom && item.date < dateFrom) {
+          reachedDateFrom = true;
+          break;
+        }
+        if (dateTo && item.date > dateTo) continue;
+        items.push(item);
+      }
+
+      startIndex += pageItems.length;
+
+      if (reachedDateFrom || pageItems.length === 0 || startIndex >= page.total_count) {
+        break;
+      }
+    }
+
+    return {
+      etag: firstPage?.etag || '',
+      filing_history_status: firstPage?.filing_history_status,
+      kind: firstPage?.kind || 'filing-history',
+      items_per_page: pageSize,
+      start_index: 0,
+      total_count: firstPage?.total_count || 0,
+      items: items.slice(0, maxItems)
+    };
+  }
+
+  /**
+   * Get the charges register (mortgages and other secured lending), paging through
+   * the register until total_count or maxItems charges have been fetched
+   */
+  async getCompanyCharges(
+    companyNumber: string,
+    options: {
+      itemsPerPage?: number;
+      maxItems?: number;
+      rateLimitKey?: string;
+    } = {}
+  ): Promise<ChargesResponse> {
+    const { itemsPerPage = 100, maxItems = 1000, rateLimitKey } = options;
+
+    const pageSize = Math.min(itemsPerPage, 100);
+    const items: Charge[] = [];
+    let startIndex = 0;
+    let firstPage: ChargesResponse | null = null;
+
+    while (items.length < maxItems) {
+      const page = await this.makeRequest<ChargesResponse>(`/company/${companyNumber}/charges`, {
+        params: {
+          items_per_page: pageSize,
+          start_index: startIndex
+        },
+        rateLimitKey,
+        cacheTTL: 60 * 60 * 1000 // Cache charges for 1 hour
+      });
+
+      if (!firstPage) firstPage = page;
+
+      const pageItems = page.items || [];
+      items.push(...pageItems);
+      startIndex += pageItems.length;
+
+      if (pageItems.length === 0 || startIndex >= page.total_count) {
+        break;
+      }
+    }
+
+    return {
+      etag: firstPage?.etag || '',
+      part_satisfied_count: firstPage?.part_satisfied_count || 0,
+      satisfied_count: firstPage?.satisfied_count || 0,
+      total_count: firstPage?.total_count || 0,
+      unfiltered_count: firstPage?.unfiltered_count || 0,
+      items: items.slice(0, maxItems)
+    };
+  }
+
+  /**
+   * Get a single charge by its charge ID
+   */
+  async getCharge(
+    companyNumber: string,
+    chargeId: string,
+    options: {
+      rateLimitKey?: string;
+    } = {}
+  ): Promise<Charge> {
+    const { rateLimitKey } = options;
+
+    return this.makeRequest<Charge>(`/company/${companyNumber}/charges/${chargeId}`, {
+      rateLimitKey,
+      cacheTTL: 60 * 60 * 1000
+    });
+  }
+
+  /**
+   * Get insolvency case history (liquidations, administrations, CVAs, receiverships)
+   */
+  async getInsolvency(
+    companyNumber: string,
+    options: {
+      rateLimitKey?: string;
+    } = {}
+  ): Promise<InsolvencyResponse> {
+    const { rateLimitKey } = options;
+
+    return this.makeRequest<InsolvencyResponse>(`/company/${companyNumber}/insolvency`, {
+      rateLimitKey,
+      cacheTTL: 60 * 60 * 1000 // Cache insolvency cases for 1 hour
+    });
+  }
+
   /**
    * Get current rate limit status
    */
@@ -363,5 +582,5 @@ class CompaniesHouseClient {
 export const companiesHouseClient = CompaniesHouseClient.getInstance();
 
 // Export types and utilities
-export type { CompanySearchResponse, CompanyProfile, OfficersResponse, PSCResponse } from './types';
+export type { CompanySearchResponse, CompanyProfile, OfficersResponse, OfficerAppointmentsResponse, PSCResponse, FilingHistoryResponse, ChargesResponse, InsolvencyResponse } from './types';
 export { rateLimiter } from './rate-limiter';
\ No newline at end of file
@@ -0,0 +1,133 @@
+// Insolvency case analysis - case types, dates and risk weighting
+
+import type {
+  InsolvencyCase,
+  InsolvencyCaseSummary,
+  InsolvencyCaseType,
+  InsolvencyDateType,
+  InsolvencyResponse,
+  InsolvencySummary
+} from './types';
+
+const CASE_LABELS: Record<InsolvencyCaseType, string> = {
+  'compulsory-liquidation': 'Compulsory liquidation',
+  'creditors-voluntary-liquidation': "Creditors' voluntary liquidation",
+  'members-voluntary-liquidation': "Members' voluntary liquidation",
+  'in-administration': 'Administration',
+  'corporate-voluntary-arrangement': 'Company voluntary arrangement',
+  'corporate-voluntary-arrangement-moratorium': 'CVA moratorium',
+  'administration-order': 'Administration order',
+  'receiver-manager': 'Receiver/manager',
+  'administrative-receiver': 'Administrative receivership',
+  'receivership': 'Receivership',
+  'foreign-insolvency': 'Foreign insolvency',
+  'moratorium': 'Moratorium'
+};
+
+// Risk score an open case implies on its own (0-100, higher = more risky).
+// A members' voluntary liquidation is a solvent wind-down, so it carries far less weight.
+const CASE_RISK_WEIGHTS: Record<InsolvencyCaseType, number> = {
+  'compulsory-liquidation': 95,
+  'creditors-voluntary-liquidation': 95,
+  'members-voluntary-liquidation': 45,
+  'in-administration': 85,
+  'administration-order': 85,
+  'administrative-receiver': 80,
+  'receiver-manager': 80,
+  'receivership': 80,
+  'foreign-insolvency': 75,
+  'corporate-voluntary-arrangement': 70,
+  'corporate-voluntary-arrangement-moratorium': 70,
+  'moratorium': 65
+};
+
+const END_DATE_TYPES: InsolvencyDateType[] = [
+  'concluded-winding-up-on',
+  'administration-ended-on',
+  'administration-discharged-on',
+  'voluntary-arrangement-ended-on',
+  'moratorium-ended-on',
+  'case-end-on'
+];
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+function summarizeCase(insolvencyCase: InsolvencyCase, now: number): InsolvencyCaseSummary {
+  const dates = insolvencyCase.dates || [];
+  const startDates = dates
+    .filter(d => !END_DATE_TYPES.includes(d.type) && d.type !== 'due-to-be-dissolved-on')
+    .map(d => d.date)
+    .sort();
+  const endDates = dates
+    .filter(d => END_DATE_TYPES.includes(d.type))
+    .map(d => d.date)
+    .sort();
+
+  const endDate = endDates[endDates.length - 1];
+
+  return {
+    number: insolvencyCase.number,
+    type: insolvencyCase.type,
+    label: CASE_LABELS[insolvencyCase.type] || insolvencyCase.type,
+    startDate: startDates[0],
+    endDate,
+    active: !endDate || new Date(endDate).getTime() > now,
+    practitioners: (insolvencyCase.practitioners || []).map(p => ({
+      name: p.name,
+      role: p.role,
+      appointedOn: p.appointed_on,
+      ceasedToActOn: p.ceased_to_act_on
+    }))
+  };
+}
+
+/**
+ * Summarize the insolvency resource into typed cases, most recent first
+ */
+export function summarizeInsolvency(response: InsolvencyResponse, now: number = Date.now()): InsolvencySummary {
+  const cases = (response.cases || [])
+    .map(c => summarizeCase(c, now))
+    .sort((a, b) => (b.startDate || '').localeCompare(a.startDate || ''));
+
+  return {
+    caseCount: cases.length,
+    hasActiveCase: cases.some(c => c.active),
+    cases,
+    mostRecent: cases[0],
+    status: response.status || []
+  };
+}
+
+/**
+ * Minimum risk score implied by the insolvency history.
+ * Open cases carry their full weight; closed cases decay with time since the case ended.
+ */
+export function getInsolvencyRiskFloor(summary: InsolvencySummary, now: number = Date.now()): number | null {
+  if (summary.caseCount === 0) return null;
+
+  const scores = summary.cases.map(c => {
+    const weight = CASE_RISK_WEIGHTS[c.type] ?? 60;
+    if (c.active || !c.endDate) return weight;
+
+    const yearsSinceEnd = (now - new Date(c.endDate).getTime()) / MS_PER_YEAR;
+    if (yearsSinceEnd <= 2) return weight - 15;
+    if (yearsSinceEnd <= 5) return weight - 30;
+    return Math.max(20, weight - 45);
+  });
+
+  return Math.max(...scores);
+}
+
+/**
+ * Severity bucket for the insolvency history, matching the network risk factor scale
+ */
+export function getInsolvencySeverity(
+  summary: InsolvencySummary,
+  now: number = Date.now()
+): 'low' | 'medium' | 'high' | null {
+  const floor = getInsolvencyRiskFloor(summary, now);
+  if (floor === null) return null;
+  if (floor >= 75) return 'high';
+  if (floor >= 50) return 'medium';
+  return 'low';
+}
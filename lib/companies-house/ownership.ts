@@ -0,0 +1,266 @@
+// Beneficial ownership resolution - walks corporate PSCs up to natural persons
+
+import { companiesHouseClient } from './client';
+import type {
+  BeneficialOwner,
+  BeneficialOwnerStatus,
+  OwnershipBand,
+  PersonWithSignificantControl,
+  UltimateOwnershipResult,
+  UnresolvedOwner
+} from './types';
+
+export const UBO_THRESHOLD = 0.25;
+
+const MAX_OWNERSHIP_DEPTH = 6;
+
+// A PSC with control rights but no disclosed shares holds at most 25%, otherwise
+// the shareholding band would have been registered as well
+const CONTROL_ONLY_BAND: OwnershipBand = { min: 0, max: 0.25 };
+
+const CONTROL_NATURES = [
+  'right-to-appoint-and-remove-directors',
+  'right-to-appoint-and-remove-members',
+  'right-to-appoint-and-remove-person',
+  'significant-influence-or-control'
+];
+
+const UK_REGISTERS = [
+  'united kingdom',
+  'england',
+  'wales',
+  'scotland',
+  'northern ireland',
+  'great britain',
+  'companies house',
+  'uk'
+];
+
+const SHARE_BAND_PATTERN = /^(?:ownership-of-shares|right-to-share-surplus-assets|part-right-to-share-surplus-assets)-(\d+)-to-(\d+)-percent/;
+const VOTING_BAND_PATTERN = /^voting-rights-(\d+)-to-(\d+)-percent/;
+const MORE_THAN_PATTERN = /^(?:ownership-of-shares|voting-rights)-more-than-(\d+)-percent/;
+
+function parseBand(natures: string[], pattern: RegExp): OwnershipBand | null {
+  let band: OwnershipBand | null = null;
+
+  for (const nature of natures) {
+    const match = nature.match(pattern);
+    if (!match) continue;
+
+    const candidate = { min: Number(match[1]) / 100, max: Number(match[2]) / 100 };
+    if (!band || candidate.max > band.max) {
+      band = candidate;
+    }
+  }
+
+  return band;
+}
+
+/**
+ * Ownership band implied by a PSC's natures of control.
+ * Shareholding takes precedence; voting rights are used when no shares are disclosed.
+ */
+export function getOwnershipBand(naturesOfControl: string[] = []): OwnershipBand {
+  const shares = parseBand(naturesOfControl, SHARE_BAND_PATTERN);
+  if (shares) return shares;
+
+  const votes = parseBand(naturesOfControl, VOTING_BAND_PATTERN);
+  if (votes) return votes;
+
+  for (const nature of naturesOfControl) {
+    const match = nature.match(MORE_THAN_PATTERN);
+    if (match) return { min: Number(match[1]) / 100, max: 1 };
+  }
+
+  return CONTROL_ONLY_BAND;
+}
+
+export function hasControlRights(naturesOfControl: string[] = []): boolean {
+  return naturesOfControl.some(nature => CONTROL_NATURES.some(control => nature.startsWith(control)));
+}
+
+/**
+ * Format an ownership band for display, e.g. "25-50%"
+ */
+export function formatOwnershipBand(band: OwnershipBand): string {
+  const toPercent = (value: number) => Math.round(value * 1000) / 10;
+  if (band.min === band.max) return `${toPercent(band.min)}%`;
+  return `${toPercent(band.min)}-${toPercent(band.max)}%`;
+}
+
+function multiplyBands(a: OwnershipBand, b: OwnershipBand): OwnershipBand {
+  return { min: a.min * b.min, max: a.max * b.max };
+}
+
+/**
+ * Companies House number of a UK-registered corporate PSC, or null when the PSC
+ * is a person, a legal person or an entity registered outside the UK
+ */
+export function getCorporateRegistrationNumber(psc: PersonWithSignificantControl): string | null {
+  if (!psc.kind.startsWith('corporate-entity')) return null;
+
+  const identification = psc.identification;
+  if (!identification?.registration_number) return null;
+
+  const register = `${identification.place_registered || ''} ${identification.country_registered || ''}`.toLowerCase();
+  const isUKRegister = UK_REGISTERS.some(name => new RegExp(`\\b${name}\\b`).test(register))
+    || /companies act/i.test(identification.legal_authority || '');
+
+  if (!isUKRegister) return null;
+
+  const number = identification.registration_number.replace(/\s+/g, '').toUpperCase();
+  const normalized = /^\d+$/.test(number) ? number.padStart(8, '0') : number;
+
+  return /^[A-Z0-9]{8}$/.test(normalized) ? normalized : null;
+}
+
+function getOwnerStatus(band: OwnershipBand, controlRights: boolean, threshold: number): BeneficialOwnerStatus {
+  if (band.min >= threshold) return 'confirmed';
+  if (band.max >= threshold || controlRights) return 'possible';
+  return 'below_threshold';
+}
+
+function getOwnerKey(psc: PersonWithSignificantControl): string {
+  const dob = psc.date_of_birth ? `${psc.date_of_birth.year}-${psc.date_of_birth.month}` : '';
+  return `${psc.name.toLowerCase().replace(/\s+/g, ' ').trim()}|${dob}`;
+}
+
+/**
+ * Resolve the ultimate beneficial owners of a company by recursively following
+ * UK-registered corporate PSCs. Effective ownership is the product of the bands
+ * at each layer, summed across chains when a person owns through several routes.
+ */
+export async function resolveUltimateOwners(
+  companyNumber: string,
+  options: {
+    rateLimitKey?: string;
+    threshold?: number;
+    maxDepth?: number;
+  } = {}
+): Promise<UltimateOwnershipResult> {
+  const { rateLimitKey, threshold = UBO_THRESHOLD, maxDepth = MAX_OWNERSHIP_DEPTH } = options;
+
+  const owners = new Map<string, BeneficialOwner>();
+  const unresolved: UnresolvedOwner[] = [];
+
+  const walk = async (
+    number: string,
+    inherited: OwnershipBand,
+    chain: string[],
+    visited: Set<string>,
+    depth: number
+  ): Promise<void> => {
+    // Companies with no PSC register at all return 404 rather than an empty list
+    const items = await companiesHouseClient
+      .getCompanyPSCs(number, { rateLimitKey, itemsPerPage: 100 })
+      .then(pscs => pscs.items || [])
+      .catch(error => {
+        if (error instanceof Error && error.message.includes('Not Found')) return [];
+        throw error;
+      });
+    const active = items.filter(psc => !psc.ceased_on);
+
+    if (active.length === 0 && depth > 0) {
+      unresolved.push({
+        name: chain[chain.length - 1],
+        kind: 'corporate-entity-person-with-significant-control',
+        registrationNumber: number,
+        reason: 'no_psc',
+        effectiveOwnership: inherited,
+        chain: chain.slice(0, -1)
+      });
+      return;
+    }
+
+    for (const psc of active) {
+      const band = multiplyBands(inherited, getOwnershipBand(psc.natures_of_control));
+
+      if (psc.kind.startsWith('individual')) {
+        const key = getOwnerKey(psc);
+        const existing = owners.get(key);
+        const controlRights = hasControlRights(psc.natures_of_control);
+
+        if (existing) {
+          existing.effectiveOwnership = {
+            min: Math.min(1, existing.effectiveOwnership.min + band.min),
+            max: Math.min(1, existing.effectiveOwnership.max + band.max)
+          };
+          existing.hasControlRights = existing.hasControlRights || controlRights;
+          existing.chains.push(chain);
+        } else {
+          owners.set(key, {
+            name: psc.name,
+            kind: psc.kind,
+            nationality: psc.nationality,
+            countryOfResidence: psc.country_of_residence,
+            dateOfBirth: psc.date_of_birth,
+            effectiveOwnership: band,
+            hasControlRights: controlRights,
+            status: 'below_threshold',
+            chains: [chain]
+          });
+        }
+        continue;
+      }
+
+      const registrationNumber = getCorporateRegistrationNumber(psc);
+      const base = {
+        name: psc.name,
+        kind: psc.kind,
+        registrationNumber: registrationNumber || psc.identification?.registration_number,
+        effectiveOwnership: band,
+        chain
+      };
+
+      if (!registrationNumber) {
+        const reason = psc.kind.startsWith('legal-person')
+          ? 'legal_person'
+          : psc.kind.startsWith('super-secure')
+            ? 'protected'
+            : 'foreign_entity';
+        unresolved.push({ ...base, reason });
+        continue;
+      }
+
+      if (visited.has(registrationNumber)) {
+        unresolved.push({ ...base, reason: 'circular' });
+        continue;
+      }
+
+      if (depth + 1 >= maxDepth) {
+        unresolved.push({ ...base, reason: 'max_depth' });
+        continue;
+      }
+
+      try {
+        await walk(
+          registrationNumber,
+          band,
+          [...chain, `${psc.name} (${registrationNumber})`],
+          new Set([...visited, registrationNumber]),
+          depth + 1
+        );
+      } catch (error) {
+        console.error(`Error resolving corporate PSC ${registrationNumber}:`, error);
+        unresolved.push({ ...base, reason: 'lookup_failed' });
+      }
+    }
+  };
+
+  await walk(companyNumber, { min: 1, max: 1 }, [], new Set([companyNumber]), 0);
+
+  const resolvedOwners = Array.from(owners.values())
+    .map(owner => ({
+      ...owner,
+      status: getOwnerStatus(owner.effectiveOwnership, owner.hasControlRights, threshold)
+    }))
+    .sort((a, b) => b.effectiveOwnership.max - a.effectiveOwnership.max || a.name.localeCompare(b.name));
+
+  return {
+    companyNumber,
+    threshold,
+    owners: resolvedOwners,
+    unresolved,
+    resolvedAt: new Date().toISOString()
+  };
+}
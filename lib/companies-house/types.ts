@@ -207,6 +207,60 @@ export interface OfficersResponse {
   total_results: number;
 }
 
+export interface OfficerAppointment {
+  address?: {
+    address_line_1?: string;
+    address_line_2?: string;
+    care_of?: string;
+    country?: string;
+    locality?: string;
+    postal_code?: string;
+    premises?: string;
+    region?: string;
+  };
+  appointed_before?: string;
+  appointed_on?: string;
+  appointed_to: {
+    company_name?: string;
+    company_number: string;
+    company_status?: string;
+  };
+  country_of_residence?: string;
+  is_pre_1992_appointment?: boolean;
+  links: {
+    company: string;
+  };
+  name: string;
+  name_elements?: {
+    forename?: string;
+    other_forenames?: string;
+    surname: string;
+    title?: string;
+  };
+  nationality?: string;
+  occupation?: string;
+  officer_role: string;
+  resigned_on?: string;
+}
+
+export interface OfficerAppointmentsResponse {
+  date_of_birth?: {
+    month: number;
+    year: number;
+  };
+  etag: string;
+  is_corporate_officer: boolean;
+  items: OfficerAppointment[];
+  items_per_page: number;
+  kind: string;
+  links: {
+    self: string;
+  };
+  name: string;
+  start_index: number;
+  total_results: number;
+}
+
 export interface PersonWithSignificantControl {
   address?: {
     address_line_1?: string;
@@ -263,6 +317,295 @@ export interface PSCResponse {
   total_results: number;
 }
 
+// Ownership bands are fractions (0-1) derived from PSC natures_of_control
+export interface OwnershipBand {
+  min: number;
+  max: number;
+}
+
+export type BeneficialOwnerStatus = 'confirmed' | 'possible' | 'below_threshold';
+
+export interface BeneficialOwner {
+  name: string;
+  kind: string;
+  nationality?: string;
+  countryOfResidence?: string;
+  dateOfBirth?: {
+    month: number;
+    year: number;
+  };
+  effectiveOwnership: OwnershipBand;
+  hasControlRights: boolean;
+  status: BeneficialOwnerStatus;
+  chains: string[][]; // Intermediate corporate PSCs between the company and the owner
+}
+
+export type UnresolvedOwnerReason =
+  | 'foreign_entity'
+  | 'legal_person'
+  | 'protected'
+  | 'no_psc'
+  | 'max_depth'
+  | 'circular'
+  | 'lookup_failed';
+
+export interface UnresolvedOwner {
+  name: string;
+  kind: string;
+  registrationNumber?: string;
+  reason: UnresolvedOwnerReason;
+  effectiveOwnership: OwnershipBand;
+  chain: string[];
+}
+
+export interface UltimateOwnershipResult {
+  companyNumber: string;
+  threshold: number;
+  owners: BeneficialOwner[];
+  unresolved: UnresolvedOwner[];
+  resolvedAt: string;
+}
+
+export type FilingCategory =
+  | 'accounts'
+  | 'address'
+  | 'annual-return'
+  | 'capital'
+  | 'change-of-name'
+  | 'confirmation-statement'
+  | 'gazette'
+  | 'incorporation'
+  | 'insolvency'
+  | 'liquidation'
+  | 'miscellaneous'
+  | 'mortgage'
+  | 'officers'
+  | 'persons-with-significant-control'
+  | 'resolution';
+
+export interface FilingHistoryItem {
+  action_date?: string;
+  annotations?: Array<{
+    annotation: string;
+    date: string;
+    description: string;
+  }>;
+  associated_filings?: Array<{
+    date: string;
+    description: string;
+    type: string;
+  }>;
+  barcode?: string;
+  category: FilingCategory;
+  date: string;
+  description: string;
+  description_values?: Record<string, string>;
+  links: {
+    self: string;
+    document_metadata?: string;
+  };
+  pages?: number;
+  paper_filed?: boolean;
+  resolutions?: Array<{
+    category: string;
+    description: string;
+    document_id?: string;
+    receive_date: string;
+    subcategory: string;
+    type: string;
+  }>;
+  subcategory?: string;
+  transaction_id: string;
+  type: string;
+}
+
+export interface FilingHistoryResponse {
+  etag: string;
+  filing_history_status?: string;
+  items: FilingHistoryItem[];
+  items_per_page: number;
+  kind: string;
+  start_index: number;
+  total_count: number;
+}
+
+export type ChargeStatus =
+  | 'outstanding'
+  | 'fully-satisfied'
+  | 'part-satisfied'
+  | 'satisfied';
+
+export interface Charge {
+  acquired_on?: string;
+  assets_ceased_released?: string;
+  charge_code?: string;
+  charge_number: number;
+  classification: {
+    description: string;
+    type: string;
+  };
+  covering_instrument_date?: string;
+  created_on?: string;
+  delivered_on: string;
+  etag: string;
+  id?: string;
+  links: {
+    self: string;
+  };
+  more_than_four_persons_entitled?: boolean;
+  particulars?: {
+    chargor_acting_as_bare_trustee?: boolean;
+    contains_fixed_charge?: boolean;
+    contains_floating_charge?: boolean;
+    contains_negative_pledge?: boolean;
+    description?: string;
+    floating_charge_covers_all?: boolean;
+    type?: string;
+  };
+  persons_entitled?: Array<{
+    name: string;
+  }>;
+  resolved_on?: string;
+  satisfied_on?: string;
+  secured_details?: {
+    description: string;
+    type: string;
+  };
+  status: ChargeStatus;
+  transactions?: Array<{
+    delivered_on: string;
+    filing_type: string;
+    insolvency_case_number?: number;
+    links?: {
+      filing?: string;
+      insolvency_case?: string;
+    };
+  }>;
+}
+
+export interface ChargesResponse {
+  etag: string;
+  items: Charge[];
+  part_satisfied_count: number;
+  satisfied_count: number;
+  total_count: number;
+  unfiltered_count: number;
+}
+
+export interface OutstandingCharge {
+  chargeId: string;
+  createdOn?: string;
+  ageInYears: number | null;
+  status: ChargeStatus;
+  classification: string;
+  personsEntitled: string[];
+  securedDetails?: string;
+  floatingChargeCoversAll: boolean;
+}
+
+export interface ChargesSummary {
+  totalCount: number;
+  outstandingCount: number;
+  partSatisfiedCount: number;
+  satisfiedCount: number;
+  lenders: Array<{
+    name: string;
+    outstandingCount: number;
+  }>;
+  oldestOutstanding?: OutstandingCharge;
+  newestOutstanding?: OutstandingCharge;
+  outstanding: OutstandingCharge[];
+}
+
+export type InsolvencyCaseType =
+  | 'compulsory-liquidation'
+  | 'creditors-voluntary-liquidation'
+  | 'members-voluntary-liquidation'
+  | 'in-administration'
+  | 'corporate-voluntary-arrangement'
+  | 'corporate-voluntary-arrangement-moratorium'
+  | 'administration-order'
+  | 'receiver-manager'
+  | 'administrative-receiver'
+  | 'receivership'
+  | 'foreign-insolvency'
+  | 'moratorium';
+
+export type InsolvencyDateType =
+  | 'instrumented-on'
+  | 'administration-started-on'
+  | 'administration-discharged-on'
+  | 'administration-ended-on'
+  | 'concluded-winding-up-on'
+  | 'petitioned-on'
+  | 'ordered-to-wind-up-on'
+  | 'due-to-be-dissolved-on'
+  | 'case-end-on'
+  | 'wound-up-on'
+  | 'voluntary-arrangement-started-on'
+  | 'voluntary-arrangement-ended-on'
+  | 'moratorium-started-on'
+  | 'moratorium-ended-on'
+  | 'declaration-solvent-on';
+
+export interface InsolvencyPractitioner {
+  address?: {
+    address_line_1?: string;
+    address_line_2?: string;
+    country?: string;
+    locality?: string;
+    postal_code?: string;
+    region?: string;
+  };
+  appointed_on?: string;
+  ceased_to_act_on?: string;
+  name: string;
+  role: 'final-liquidator' | 'receiver' | 'receiver-manager' | 'proposed-liquidator' | 'provisional-liquidator' | 'administrative-receiver' | 'practitioner' | 'interim-liquidator';
+}
+
+export interface InsolvencyCase {
+  dates: Array<{
+    date: string;
+    type: InsolvencyDateType;
+  }>;
+  links?: {
+    charge?: string;
+  };
+  notes?: string[];
+  number: string;
+  practitioners: InsolvencyPractitioner[];
+  type: InsolvencyCaseType;
+}
+
+export interface InsolvencyResponse {
+  cases: InsolvencyCase[];
+  etag: string;
+  status?: string[];
+}
+
+export interface InsolvencyCaseSummary {
+  number: string;
+  type: InsolvencyCaseType;
+  label: string;
+  startDate?: string;
+  endDate?: string;
+  active: boolean;
+  practitioners: Array<{
+    name: string;
+    role: string;
+    appointedOn?: string;
+    ceasedToActOn?: string;
+  }>;
+}
+
+export interface InsolvencySummary {
+  caseCount: number;
+  hasActiveCase: boolean;
+  cases: InsolvencyCaseSummary[];
+  mostRecent?: InsolvencyCaseSummary;
+  status: string[];
+}
+
 export interface RateLimitInfo {
   requests: number;
   resetTime: number;
@@ -9,6 +9,9 @@ import {
   searchHistory, 
   quotaCounters,
   auditLogs,
+  teamMembers,
+  savedNetworkViews,
+  officerMatchDecisions,
   type User,
   type Company,
   type CompanyOfficer,
@@ -22,8 +25,15 @@ import {
   type NewAIProcessingJob,
   type NewSearchHistory,
   type NewQuotaCounter,
+  type SavedNetworkView,
+  type NewSavedNetworkView,
+  type OfficerMatchDecision,
+  type NewOfficerMatchDecision,
 } from './schema-nexus';
-import { eq, and, desc, count, gte, lte, ilike, or, isNull, sql } from 'drizzle-orm';
+import { eq, and, desc, count, gte, lte, ilike, or, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import type { CompanyProfile, Charge, ChargesSummary } from '@/lib/companies-house/types';
+import { normaliseAddress, type RegisteredOfficeAddress } from '@/lib/companies-house/address';
+import type { TeamAISettings } from '@/lib/ai/types';
 
 // User operations
 export async function createUser(userData: NewUser): Promise<User> {
@@ -61,8 +71,22 @@ export async function getPlanBySlug(slug: string): Promise<Plan | null> {
 }
 
 // Company operations
+
+// Address index columns kept alongside the cached registered office
+function registeredOfficeIndex(address: unknown): Pick<NewCompany, 'registeredOfficeKey' | 'registeredOfficePostcode'> {
+  if (!address || typeof address !== 'object') return {};
+  const normalised = normaliseAddress(address as RegisteredOfficeAddress);
+  return {
+    registeredOfficeKey: normalised.buildingKey.slice(0, 500) || null,
+    registeredOfficePostcode: normalised.postcode || null,
+  };
+}
+
 export async function createCompany(companyData: NewCompany): Promise<Company> {
-  const [company] = await db.insert(companies).values(companyData).returning();
+  const [company] = await db
+    .insert(companies)
+    .values({ ...registeredOfficeIndex(companyData.registeredOffice), ...companyData })
+    .returning();
   return company;
 }
 
@@ -112,6 +136,39 @@ export async function updateCompanyAIData(
   return company || null;
 }
 
+export async function saveCompanyCharges(
+  profile: CompanyProfile,
+  charges: Charge[],
+  summary: ChargesSummary
+): Promise<Company> {
+  const chargesData = { items: charges, summary, syncedAt: new Date().toISOString() };
+
+  const [company] = await db
+    .insert(companies)
+    .values({
+      companyNumber: profile.company_number,
+      companyName: profile.company_name,
+      status: profile.company_status,
+      type: profile.type,
+      registeredOffice: profile.registered_office_address,
+      ...registeredOfficeIndex(profile.registered_office_address),
+      sicCodes: profile.sic_codes,
+      companiesHouseData: profile,
+      chargesData,
+      lastChSync: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: companies.companyNumber,
+      set: {
+        chargesData,
+        lastChSync: new Date(),
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return company;
+}
+
 // Company officers operations
 export async function createCompanyOfficer(officerData: NewCompanyOfficer): Promise<CompanyOfficer> {
   const [officer] = await db.insert(companyOfficers).values(officerData).returning();
@@ -312,6 +369,50 @@ export async function getCompaniesNeedingSync(hours: number = 24): Promise<Compa
     .limit(100);
 }
 
+// Address index - how many cached companies share each registered office building
+export async function getRegisteredOfficeCounts(buildingKeys: string[]): Promise<Map<string, number>> {
+  if (buildingKeys.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      key: companies.registeredOfficeKey,
+      count: count(),
+    })
+    .from(companies)
+    .where(inArray(companies.registeredOfficeKey, buildingKeys))
+    .groupBy(companies.registeredOfficeKey);
+
+  return new Map(rows.map(row => [row.key!, Number(row.count)]));
+}
+
+export async function getCompaniesAtRegisteredOffice(buildingKey: string, limit: number = 50): Promise<Company[]> {
+  return await db
+    .select()
+    .from(companies)
+    .where(eq(companies.registeredOfficeKey, buildingKey))
+    .orderBy(desc(companies.incorporationDate))
+    .limit(limit);
+}
+
+// Backfill the address index for companies cached before it existed; returns how many were indexed
+export async function indexRegisteredOffices(batchSize: number = 500): Promise<number> {
+  const pending = await db
+    .select({ id: companies.id, registeredOffice: companies.registeredOffice })
+    .from(companies)
+    .where(and(isNull(companies.registeredOfficeKey), isNotNull(companies.registeredOffice)))
+    .limit(batchSize);
+
+  for (const company of pending) {
+    const index = registeredOfficeIndex(company.registeredOffice);
+    await db
+      .update(companies)
+      .set({ registeredOfficeKey: index.registeredOfficeKey ?? '', registeredOfficePostcode: index.registeredOfficePostcode })
+      .where(eq(companies.id, company.id));
+  }
+
+  return pending.length;
+}
+
 export async function getTopSearchQueries(limit: number = 10): Promise<{ query: string; count: number }[]> {
   return await db
     .select({
@@ -390,4 +491,143 @@ export async function getCompanyNetwork(companyId: string, depth: number = 2): P
     officers,
     relatedCompanies: relatedCompanies.map(r => r.companies),
   };
-}
\ No newline at end of file
+}
+
+// Team membership for a signed-in user, matched on email. Users in several teams get
+// the team they joined first, so saved views and settings don't switch between requests.
+export async function getTeamMembershipByEmail(email: string): Promise<{
+  userId: number;
+  teamId: number;
+  role: User['role'];
+} | null> {
+  const [membership] = await db
+    .select({
+      userId: users.id,
+      teamId: teamMembers.teamId,
+      role: users.role,
+    })
+    .from(users)
+    .innerJoin(teamMembers, eq(users.id, teamMembers.userId))
+    .where(and(eq(users.email, email), isNull(users.deletedAt)))
+    .orderBy(teamMembers.joinedAt, teamMembers.id)
+    .limit(1);
+  return membership || null;
+}
+
+// Saved network view operations
+export async function createSavedNetworkView(viewData: NewSavedNetworkView): Promise<SavedNetworkView> {
+  const [view] = await db.insert(savedNetworkViews).values(viewData).returning();
+  return view;
+}
+
+// Listing leaves out the graph itself, which can be large
+export async function getTeamSavedNetworkViews(teamId: number) {
+  return await db
+    .select({
+      id: savedNetworkViews.id,
+      name: savedNetworkViews.name,
+      description: savedNetworkViews.description,
+      rootCompanyNumber: savedNetworkViews.rootCompanyNumber,
+      createdBy: savedNetworkViews.createdBy,
+      createdByName: users.name,
+      shared: sql<boolean>`${savedNetworkViews.shareToken} IS NOT NULL`,
+      snapshotAt: savedNetworkViews.snapshotAt,
+      createdAt: savedNetworkViews.createdAt,
+      updatedAt: savedNetworkViews.updatedAt,
+    })
+    .from(savedNetworkViews)
+    .leftJoin(users, eq(savedNetworkViews.createdBy, users.id))
+    .where(eq(savedNetworkViews.teamId, teamId))
+    .orderBy(desc(savedNetworkViews.updatedAt));
+}
+
+export async function getSavedNetworkView(id: string, teamId: number): Promise<SavedNetworkView | null> {
+  const [view] = await db
+    .select()
+    .from(savedNetworkViews)
+    .where(and(eq(savedNetworkViews.id, id), eq(savedNetworkViews.teamId, teamId)));
+  return view || null;
+}
+
+export async function getSavedNetworkViewByShareToken(shareToken: string): Promise<SavedNetworkView | null> {
+  const [view] = await db
+    .select()
+    .from(savedNetworkViews)
+    .where(eq(savedNetworkViews.shareToken, shareToken));
+  return view || null;
+}
+
+export async function updateSavedNetworkView(
+  id: string,
+  teamId: number,
+  viewData: Partial<Omit<NewSavedNetworkView, 'id' | 'teamId' | 'createdBy' | 'createdAt'>>
+): Promise<SavedNetworkView | null> {
+  const [view] = await db
+    .update(savedNetworkViews)
+    .set({ ...viewData, updatedAt: new Date() })
+    .where(and(eq(savedNetworkViews.id, id), eq(savedNetworkViews.teamId, teamId)))
+    .returning();
+  return view || null;
+}
+
+export async function deleteSavedNetworkView(id: string, teamId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(savedNetworkViews)
+    .where(and(eq(savedNetworkViews.id, id), eq(savedNetworkViews.teamId, teamId)))
+    .returning({ id: savedNetworkViews.id });
+  return deleted.length > 0;
+}
+
+// Officer entity-resolution decisions
+export async function getTeamOfficerMatchDecisions(teamId: number): Promise<OfficerMatchDecision[]> {
+  return await db
+    .select()
+    .from(officerMatchDecisions)
+    .where(eq(officerMatchDecisions.teamId, teamId))
+    .orderBy(desc(officerMatchDecisions.updatedAt));
+}
+
+// A later decision on the same pair replaces the earlier one
+export async function upsertOfficerMatchDecision(decisionData: NewOfficerMatchDecision): Promise<OfficerMatchDecision> {
+  const [decision] = await db
+    .insert(officerMatchDecisions)
+    .values(decisionData)
+    .onConflictDoUpdate({
+      target: [officerMatchDecisions.teamId, officerMatchDecisions.officerNodeId, officerMatchDecisions.matchedNodeId],
+      set: {
+        decision: decisionData.decision,
+        confidence: decisionData.confidence,
+        note: decisionData.note,
+        decidedBy: decisionData.decidedBy,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return decision;
+}
+
+export async function deleteOfficerMatchDecision(id: number, teamId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(officerMatchDecisions)
+    .where(and(eq(officerMatchDecisions.id, id), eq(officerMatchDecisions.teamId, teamId)))
+    .returning({ id: officerMatchDecisions.id });
+  return deleted.length > 0;
+}
+
+// Team AI provider settings
+export async function getTeamAISettings(teamId: number): Promise<TeamAISettings | null> {
+  const [team] = await db
+    .select({ aiSettings: teams.aiSettings })
+    .from(teams)
+    .where(eq(teams.id, teamId));
+  return (team?.aiSettings as TeamAISettings | null) || null;
+}
+
+export async function updateTeamAISettings(teamId: number, settings: TeamAISettings | null): Promise<TeamAISettings | null> {
+  const [team] = await db
+    .update(teams)
+    .set({ aiSettings: settings, updatedAt: new Date() })
+    .where(eq(teams.id, teamId))
+    .returning({ aiSettings: teams.aiSettings });
+  return (team?.aiSettings as TeamAISettings | null) || null;
+}
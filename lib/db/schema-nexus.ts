@@ -60,6 +60,7 @@ export const teams = pgTable('teams', {
   planId: integer('plan_id').references(() => plans.id),
   planName: varchar('plan_name', { length: 50 }),
   subscriptionStatus: subscriptionStatusEnum('subscription_status'),
+  aiSettings: jsonb('ai_settings'), // { provider, model, fallbackProviders } - see lib/ai/types
 });
 
 // Team members relationship
@@ -84,18 +85,23 @@ export const companies = pgTable('companies', {
   type: varchar('type', { length: 100 }),
   incorporationDate: date('incorporation_date'),
   registeredOffice: jsonb('registered_office'),
+  registeredOfficeKey: varchar('registered_office_key', { length: 500 }), // Normalised building key, see lib/companies-house/address
+  registeredOfficePostcode: varchar('registered_office_postcode', { length: 10 }),
   sicCodes: jsonb('sic_codes'), // array of SIC codes as integers
   lastChSync: timestamp('last_ch_sync', { withTimezone: true }),
   companiesHouseData: jsonb('companies_house_data'), // raw API response
+  chargesData: jsonb('charges_data'), // charges register and outstanding-charges summary
   aiSummary: text('ai_summary'),
   aiRiskScore: numeric('ai_risk_score', { precision: 5, scale: 2 }), // 0-100
-  aiInsights: jsonb('ai_insights'), // confidence, caveats, prompt_version, etc
+  aiInsights: jsonb('ai_insights'), // CompanyInsight, with its prompt stamp (id, version, hash, parameters) and validation
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => ({
   companyNumberIdx: index('idx_companies_company_number').on(table.companyNumber),
   companyNameIdx: index('idx_companies_company_name').on(table.companyName),
   aiRiskScoreIdx: index('idx_companies_ai_risk_score').on(table.aiRiskScore),
+  registeredOfficeKeyIdx: index('idx_companies_registered_office_key').on(table.registeredOfficeKey),
+  registeredOfficePostcodeIdx: index('idx_companies_registered_office_postcode').on(table.registeredOfficePostcode),
 }));
 
 // Company officers and PSCs (Persons with Significant Control)
@@ -180,6 +186,45 @@ export const auditLogs = pgTable('audit_logs', {
   actionTimestampIdx: index('idx_audit_logs_action_timestamp').on(table.action, table.timestamp),
 }));
 
+// Saved network graph snapshots, shared within a team
+export const savedNetworkViews = pgTable('saved_network_views', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  teamId: integer('team_id').notNull().references(() => teams.id, { onDelete: 'cascade' }),
+  createdBy: integer('created_by').notNull().references(() => users.id),
+  name: varchar('name', { length: 200 }).notNull(),
+  description: text('description'),
+  rootCompanyNumber: varchar('root_company_number', { length: 20 }).notNull(),
+  graphData: jsonb('graph_data').notNull(), // GraphData exactly as the analyst saw it
+  analysis: jsonb('analysis'), // NetworkAnalysis at snapshot time
+  filters: jsonb('filters').notNull(), // GraphFilters
+  layout: jsonb('layout').notNull(), // GraphLayout
+  viewport: jsonb('viewport'), // GraphViewport
+  annotations: jsonb('annotations').notNull().default([]), // NetworkAnnotation[]
+  shareToken: varchar('share_token', { length: 64 }).unique(), // set while a viewer-only link is active
+  snapshotAt: timestamp('snapshot_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  teamCreatedIdx: index('idx_saved_network_views_team_created').on(table.teamId, table.createdAt),
+}));
+
+// Analyst decisions on officer entity-resolution matches, applied to every network the team builds.
+// Node IDs are stored in sorted order so a pair has one row whichever way it was matched.
+export const officerMatchDecisions = pgTable('officer_match_decisions', {
+  id: serial('id').primaryKey(),
+  teamId: integer('team_id').notNull().references(() => teams.id, { onDelete: 'cascade' }),
+  officerNodeId: varchar('officer_node_id', { length: 100 }).notNull(),
+  matchedNodeId: varchar('matched_node_id', { length: 100 }).notNull(),
+  decision: varchar('decision', { length: 20 }).notNull(), // 'confirmed' (same person) or 'split' (different people)
+  confidence: numeric('confidence', { precision: 4, scale: 3 }), // Score shown when the decision was made
+  note: text('note'),
+  decidedBy: integer('decided_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  teamPairIdx: unique('unique_team_officer_pair').on(table.teamId, table.officerNodeId, table.matchedNodeId),
+}));
+
 // Activity logs (existing from starter)
 export const activityLogs = pgTable('activity_logs', {
   id: serial('id').primaryKey(),
@@ -222,6 +267,8 @@ export const teamsRelations = relations(teams, ({ many, one }) => ({
   invitations: many(invitations),
   searchHistory: many(searchHistory),
   quotaCounters: many(quotaCounters),
+  savedNetworkViews: many(savedNetworkViews),
+  officerMatchDecisions: many(officerMatchDecisions),
   plan: one(plans, {
     fields: [teams.planId],
     references: [plans.id],
@@ -295,6 +342,28 @@ export const invitationsRelations = relations(invitations, ({ one }) => ({
   }),
 }));
 
+export const savedNetworkViewsRelations = relations(savedNetworkViews, ({ one }) => ({
+  team: one(teams, {
+    fields: [savedNetworkViews.teamId],
+    references: [teams.id],
+  }),
+  createdByUser: one(users, {
+    fields: [savedNetworkViews.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const officerMatchDecisionsRelations = relations(officerMatchDecisions, ({ one }) => ({
+  team: one(teams, {
+    fields: [officerMatchDecisions.teamId],
+    references: [teams.id],
+  }),
+  decidedByUser: one(users, {
+    fields: [officerMatchDecisions.decidedBy],
+    references: [users.id],
+  }),
+}));
+
 export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
   team: one(teams, {
     fields: [activityLogs.teamId],
@@ -331,6 +400,10 @@ export type ActivityLog = typeof activityLogs.$inferSelect;
 export type NewActivityLog = typeof activityLogs.$inferInsert;
 export type Invitation = typeof invitations.$inferSelect;
 export type NewInvitation = typeof invitations.$inferInsert;
+export type SavedNetworkView = typeof savedNetworkViews.$inferSelect;
+export type NewSavedNetworkView = typeof savedNetworkViews.$inferInsert;
+export type OfficerMatchDecision = typeof officerMatchDecisions.$inferSelect;
+export type NewOfficerMatchDecision = typeof officerMatchDecisions.$inferInsert;
 
 // Extended types for complex queries
 export type TeamDataWithMembers = Team & {
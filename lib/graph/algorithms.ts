@@ -0,0 +1,307 @@
+// Graph algorithms over relationship graphs - cycles, centrality and communities
+
+import type { RelationshipEdge } from './types';
+
+export interface GraphCycle {
+  nodes: string[];
+  edges: string[];
+}
+
+const MAX_CYCLES = 25;
+
+/**
+ * Find the elementary directed cycles formed by the given edges.
+ * Each cycle is reported once, rotated to start at its smallest node ID.
+ * Enumeration stops after `maxCycles` to keep dense graphs bounded.
+ */
+export function findDirectedCycles(
+  edges: RelationshipEdge[],
+  maxCycles: number = MAX_CYCLES
+): GraphCycle[] {
+  const adjacency = new Map<string, RelationshipEdge[]>();
+  for (const edge of edges) {
+    if (!adjacency.has(edge.source)) {
+      adjacency.set(edge.source, []);
+    }
+    adjacency.get(edge.source)!.push(edge);
+  }
+
+  const cycles: GraphCycle[] = [];
+  const startNodes = Array.from(adjacency.keys()).sort();
+
+  for (const start of startNodes) {
+    if (cycles.length >= maxCycles) break;
+
+    const pathNodes: string[] = [start];
+    const pathEdges: string[] = [];
+    const onPath = new Set<string>([start]);
+
+    // Only visit nodes ordered after the start node so each cycle is found from its smallest member
+    const visit = (nodeId: string): void => {
+      for (const edge of adjacency.get(nodeId) || []) {
+        if (cycles.length >= maxCycles) return;
+
+        if (edge.target === start) {
+          cycles.push({ nodes: [...pathNodes], edges: [...pathEdges, edge.id] });
+          continue;
+        }
+
+        if (edge.target < start || onPath.has(edge.target)) {
+          continue;
+        }
+
+        onPath.add(edge.target);
+        pathNodes.push(edge.target);
+        pathEdges.push(edge.id);
+
+        visit(edge.target);
+
+        onPath.delete(edge.target);
+        pathNodes.pop();
+        pathEdges.pop();
+      }
+    };
+
+    visit(start);
+  }
+
+  return cycles;
+}
+
+type UndirectedAdjacency = Map<string, Map<string, number>>;
+
+function buildUndirectedAdjacency(nodeIds: string[], edges: RelationshipEdge[]): UndirectedAdjacency {
+  const adjacency: UndirectedAdjacency = new Map(nodeIds.map(id => [id, new Map<string, number>()]));
+
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    if (!adjacency.has(edge.source) || !adjacency.has(edge.target)) continue;
+
+    const weight = edge.data?.strength ?? 1;
+    const current = adjacency.get(edge.source)!.get(edge.target) || 0;
+    adjacency.get(edge.source)!.set(edge.target, Math.max(current, weight));
+    adjacency.get(edge.target)!.set(edge.source, Math.max(current, weight));
+  }
+
+  return adjacency;
+}
+
+/**
+ * Betweenness centrality (Brandes) over the undirected, unweighted graph,
+ * normalized to 0-1 by the number of node pairs excluding the node itself
+ */
+export function betweennessCentrality(nodeIds: string[], edges: RelationshipEdge[]): Map<string, number> {
+  const adjacency = buildUndirectedAdjacency(nodeIds, edges);
+  const centrality = new Map<string, number>(nodeIds.map(id => [id, 0]));
+
+  for (const source of nodeIds) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(nodeIds.map(id => [id, []]));
+    const pathCounts = new Map<string, number>(nodeIds.map(id => [id, 0]));
+    const distances = new Map<string, number>(nodeIds.map(id => [id, -1]));
+
+    pathCounts.set(source, 1);
+    distances.set(source, 0);
+
+    const queue: string[] = [source];
+    let head = 0;
+    while (head < queue.length) {
+      const v = queue[head++];
+      stack.push(v);
+
+      for (const w of adjacency.get(v)!.keys()) {
+        if (distances.get(w)! < 0) {
+          distances.set(w, distances.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distances.get(w) === distances.get(v)! + 1) {
+          pathCounts.set(w, pathCounts.get(w)! + pathCounts.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      }
+    }
+
+    const dependency = new Map<string, number>(nodeIds.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w)!) {
+        const share = (pathCounts.get(v)! / pathCounts.get(w)!) * (1 + dependency.get(w)!);
+        dependency.set(v, dependency.get(v)! + share);
+      }
+      if (w !== source) {
+        centrality.set(w, centrality.get(w)! + dependency.get(w)!);
+      }
+    }
+  }
+
+  // Each undirected path was counted from both ends
+  const n = nodeIds.length;
+  const normalization = n > 2 ? (n - 1) * (n - 2) : 1;
+  for (const [id, value] of centrality) {
+    centrality.set(id, value / normalization);
+  }
+
+  return centrality;
+}
+
+/**
+ * Eigenvector centrality by power iteration, scaled so the top node scores 1.
+ * Iterates on (A + I): company/officer graphs are close to bipartite, which makes
+ * plain power iteration oscillate instead of converging.
+ */
+export function eigenvectorCentrality(
+  nodeIds: string[],
+  edges: RelationshipEdge[],
+  options: { maxIterations?: number; tolerance?: number } = {}
+): Map<string, number> {
+  const { maxIterations = 100, tolerance = 1e-6 } = options;
+  const adjacency = buildUndirectedAdjacency(nodeIds, edges);
+
+  let scores = new Map<string, number>(nodeIds.map(id => [id, 1]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Map<string, number>();
+    for (const id of nodeIds) {
+      let sum = scores.get(id)!;
+      for (const [neighbour, weight] of adjacency.get(id)!) {
+        sum += weight * scores.get(neighbour)!;
+      }
+      next.set(id, sum);
+    }
+
+    const max = Math.max(...next.values(), 0);
+    if (max === 0) return next;
+
+    let delta = 0;
+    for (const id of nodeIds) {
+      const value = next.get(id)! / max;
+      delta += Math.abs(value - scores.get(id)!);
+      next.set(id, value);
+    }
+
+    scores = next;
+    if (delta < tolerance * nodeIds.length) break;
+  }
+
+  return scores;
+}
+
+const GAIN_EPSILON = 1e-12;
+
+/**
+ * One Louvain local-moving phase: move each node to the neighbouring community
+ * with the best modularity gain until nothing moves. Returns node -> community.
+ */
+function moveNodesLocally(
+  graph: UndirectedAdjacency,
+  selfLoops: Map<string, number>,
+  maxIterations: number
+): { communities: Map<string, string>; moved: boolean } {
+  const order = Array.from(graph.keys()).sort();
+  const degrees = new Map<string, number>();
+  for (const id of order) {
+    let degree = 2 * (selfLoops.get(id) || 0);
+    for (const weight of graph.get(id)!.values()) degree += weight;
+    degrees.set(id, degree);
+  }
+
+  const communities = new Map<string, string>(order.map(id => [id, id]));
+  const totals = new Map<string, number>(degrees);
+  const totalWeight = Array.from(degrees.values()).reduce((sum, d) => sum + d, 0);
+  let moved = false;
+
+  if (totalWeight === 0) return { communities, moved };
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    for (const id of order) {
+      const degree = degrees.get(id)!;
+      const current = communities.get(id)!;
+
+      const links = new Map<string, number>();
+      for (const [neighbour, weight] of graph.get(id)!) {
+        const community = communities.get(neighbour)!;
+        links.set(community, (links.get(community) || 0) + weight);
+      }
+
+      totals.set(current, totals.get(current)! - degree);
+
+      // Staying put wins ties, which keeps the pass from oscillating
+      let best = current;
+      let bestGain = (links.get(current) || 0) - (totals.get(current)! * degree) / totalWeight;
+      for (const community of Array.from(links.keys()).sort()) {
+        const gain = links.get(community)! - (totals.get(community)! * degree) / totalWeight;
+        if (gain > bestGain + GAIN_EPSILON) {
+          best = community;
+          bestGain = gain;
+        }
+      }
+
+      totals.set(best, totals.get(best)! + degree);
+      if (best !== current) {
+        communities.set(id, best);
+        changed = true;
+        moved = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  return { communities, moved };
+}
+
+/**
+ * Community detection with the Louvain method (modularity optimisation).
+ * Nodes are visited in sorted order and ties keep the current community, so the
+ * same graph always yields the same communities. Returns node ID -> community label.
+ */
+export function detectCommunities(
+  nodeIds: string[],
+  edges: RelationshipEdge[],
+  options: { maxPasses?: number; maxIterations?: number } = {}
+): Map<string, string> {
+  const { maxPasses = 10, maxIterations = 50 } = options;
+
+  let graph = buildUndirectedAdjacency(nodeIds, edges);
+  let selfLoops = new Map<string, number>();
+  const membership = new Map<string, string>(nodeIds.map(id => [id, id]));
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const { communities, moved } = moveNodesLocally(graph, selfLoops, maxIterations);
+    if (!moved) break;
+
+    for (const [nodeId, superNode] of membership) {
+      membership.set(nodeId, communities.get(superNode)!);
+    }
+
+    // Collapse each community into a single node for the next pass
+    const aggregated: UndirectedAdjacency = new Map();
+    const aggregatedLoops = new Map<string, number>();
+    for (const community of new Set(communities.values())) {
+      aggregated.set(community, new Map());
+    }
+
+    for (const [id, neighbours] of graph) {
+      const source = communities.get(id)!;
+      aggregatedLoops.set(source, (aggregatedLoops.get(source) || 0) + (selfLoops.get(id) || 0));
+
+      for (const [neighbour, weight] of neighbours) {
+        const target = communities.get(neighbour)!;
+        if (source === target) {
+          // Internal edges are seen from both ends
+          aggregatedLoops.set(source, aggregatedLoops.get(source)! + weight / 2);
+        } else {
+          const links = aggregated.get(source)!;
+          links.set(target, (links.get(target) || 0) + weight);
+        }
+      }
+    }
+
+    graph = aggregated;
+    selfLoops = aggregatedLoops;
+  }
+
+  return membership;
+}
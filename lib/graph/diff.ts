@@ -0,0 +1,109 @@
+// Comparison of two GraphData snapshots of the same network
+
+import type { AttributeChange, CompanyNode, GraphData, GraphDiff, GraphElementChange, RelationshipEdge } from './types';
+
+// Attributes compared on nodes present in both snapshots; layout and display fields are ignored
+const NODE_FIELDS: Array<{ field: string; value: (node: CompanyNode) => unknown }> = [
+  { field: 'companyName', value: node => node.data.companyName },
+  { field: 'companyStatus', value: node => node.data.companyStatus },
+  { field: 'companyType', value: node => node.data.companyType },
+  { field: 'cessationDate', value: node => node.data.cessationDate },
+  { field: 'officerName', value: node => node.data.officerName },
+  { field: 'officerRole', value: node => node.data.officerRole },
+  { field: 'appointedDate', value: node => node.data.appointedDate },
+  { field: 'resignedDate', value: node => node.data.resignedDate },
+  { field: 'pscName', value: node => node.data.pscName },
+  { field: 'controlType', value: node => node.data.controlType },
+  { field: 'address', value: node => node.data.address },
+  { field: 'insolvencyCases', value: node => node.data.insolvency?.caseCount }
+];
+
+const EDGE_FIELDS: Array<{ field: string; value: (edge: RelationshipEdge) => unknown }> = [
+  { field: 'role', value: edge => edge.data?.role },
+  { field: 'startDate', value: edge => edge.data?.startDate },
+  { field: 'endDate', value: edge => edge.data?.endDate },
+  { field: 'description', value: edge => edge.data?.description }
+];
+
+function formatValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : undefined;
+  return String(value);
+}
+
+function compareFields<T>(
+  before: T,
+  after: T,
+  fields: Array<{ field: string; value: (item: T) => unknown }>
+): AttributeChange[] {
+  return fields
+    .map(({ field, value }) => ({ field, before: formatValue(value(before)), after: formatValue(value(after)) }))
+    .filter(change => change.before !== change.after);
+}
+
+function edgeLabel(edge: RelationshipEdge, nodeLabels: Map<string, string>): string {
+  const source = nodeLabels.get(edge.source) || edge.source;
+  const target = nodeLabels.get(edge.target) || edge.target;
+  return `${source} → ${target}`;
+}
+
+/**
+ * Change set between two snapshots: nodes and edges present in only one of them,
+ * plus tracked attributes that changed on those present in both. IDs are derived
+ * from Companies House identifiers, so they are stable across rebuilds.
+ */
+export function diffGraphs(before: GraphData, after: GraphData): GraphDiff {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const beforeEdges = new Map(before.edges.map(edge => [edge.id, edge]));
+  const afterEdges = new Map(after.edges.map(edge => [edge.id, edge]));
+  const nodeLabels = new Map([...before.nodes, ...after.nodes].map(node => [node.id, node.data.label]));
+
+  const changedNodes: GraphElementChange[] = [];
+  for (const [id, node] of afterNodes) {
+    const previous = beforeNodes.get(id);
+    if (!previous) continue;
+    const changes = compareFields(previous, node, NODE_FIELDS);
+    if (changes.length > 0) changedNodes.push({ id, label: node.data.label, changes });
+  }
+
+  const changedEdges: GraphElementChange[] = [];
+  for (const [id, edge] of afterEdges) {
+    const previous = beforeEdges.get(id);
+    if (!previous) continue;
+    const changes = compareFields(previous, edge, EDGE_FIELDS);
+    if (changes.length > 0) changedEdges.push({ id, label: edgeLabel(edge, nodeLabels), changes });
+  }
+
+  return {
+    addedNodes: Array.from(afterNodes.keys()).filter(id => !beforeNodes.has(id)),
+    removedNodes: Array.from(beforeNodes.keys()).filter(id => !afterNodes.has(id)),
+    addedEdges: Array.from(afterEdges.keys()).filter(id => !beforeEdges.has(id)),
+    removedEdges: Array.from(beforeEdges.keys()).filter(id => !afterEdges.has(id)),
+    changedNodes,
+    changedEdges
+  };
+}
+
+export function hasChanges(diff: GraphDiff): boolean {
+  return diff.addedNodes.length > 0
+    || diff.removedNodes.length > 0
+    || diff.addedEdges.length > 0
+    || diff.removedEdges.length > 0
+    || diff.changedNodes.length > 0
+    || diff.changedEdges.length > 0;
+}
+
+/**
+ * The newer snapshot plus whatever was removed since the older one, so both can be
+ * drawn together. Removed nodes keep their old positions.
+ */
+export function mergeSnapshots(before: GraphData, after: GraphData, diff: GraphDiff): GraphData {
+  const removedNodes = new Set(diff.removedNodes);
+  const removedEdges = new Set(diff.removedEdges);
+
+  return {
+    nodes: [...after.nodes, ...before.nodes.filter(node => removedNodes.has(node.id))],
+    edges: [...after.edges, ...before.edges.filter(edge => removedEdges.has(edge.id))]
+  };
+}
@@ -0,0 +1,97 @@
+// Dormant and dissolved companies in a network, weighted by distance from the root
+
+import type { GraphData } from './types';
+
+export type DormancyKind = 'dissolved' | 'dormant' | 'overdue';
+
+export interface DormantCompany {
+  nodeId: string;
+  label: string;
+  level: number;
+  kind: DormancyKind;
+  reasons: string[];
+  weight: number; // Kind weight scaled by proximity to the root, 0-1
+}
+
+export interface DormancySummary {
+  companies: DormantCompany[];
+  totalCompanies: number;
+  score: number; // Proximity-weighted share of the network that is dormant or dissolved, 0-1
+  rootAffected: boolean;
+}
+
+// How strongly each finding suggests a shell; an overdue filing alone is the weakest signal
+const KIND_WEIGHTS: Record<DormancyKind, number> = {
+  dissolved: 1,
+  dormant: 0.8,
+  overdue: 0.5
+};
+
+const CLOSED_STATUSES = new Set(['dissolved', 'converted-closed', 'closed', 'removed']);
+
+// The root counts fully, each hop away counts less (1, 1/2, 1/3, 1/4)
+export function proximityWeight(level: number): number {
+  return 1 / (Math.max(0, level) + 1);
+}
+
+/**
+ * Every company node that is dissolved, files dormant accounts or is behind on its
+ * filings, strongest and closest to the root first.
+ */
+export function findDormantCompanies(graph: GraphData): DormantCompany[] {
+  const found: DormantCompany[] = [];
+
+  for (const node of graph.nodes) {
+    if (node.type !== 'company' || node.data.error) continue;
+
+    const { companyStatus, cessationDate, lastAccountsType, accountsOverdue, confirmationStatementOverdue } = node.data;
+    const reasons: string[] = [];
+    let kind: DormancyKind | null = null;
+
+    if ((companyStatus && CLOSED_STATUSES.has(companyStatus)) || cessationDate) {
+      kind = 'dissolved';
+      const status = companyStatus && CLOSED_STATUSES.has(companyStatus)
+        ? companyStatus.charAt(0).toUpperCase() + companyStatus.slice(1).replace(/-/g, ' ')
+        : 'Ceased';
+      reasons.push(`${status}${cessationDate ? ` on ${cessationDate}` : ''}`);
+    }
+
+    if (lastAccountsType?.toLowerCase() === 'dormant') {
+      kind = kind || 'dormant';
+      reasons.push('Last accounts filed as dormant');
+    }
+
+    // Overdue flags only matter while the company is still meant to be filing
+    if (kind !== 'dissolved') {
+      if (accountsOverdue) reasons.push('Accounts overdue');
+      if (confirmationStatementOverdue) reasons.push('Confirmation statement overdue');
+      if (reasons.length > 0) kind = kind || 'overdue';
+    }
+
+    if (!kind) continue;
+
+    found.push({
+      nodeId: node.id,
+      label: node.data.label,
+      level: node.data.level,
+      kind,
+      reasons,
+      weight: Number((KIND_WEIGHTS[kind] * proximityWeight(node.data.level)).toFixed(3))
+    });
+  }
+
+  return found.sort((a, b) => b.weight - a.weight || a.level - b.level);
+}
+
+export function summarizeDormancy(graph: GraphData): DormancySummary {
+  const companies = findDormantCompanies(graph);
+  const companyNodes = graph.nodes.filter(node => node.type === 'company' && !node.data.error);
+  const totalWeight = companyNodes.reduce((sum, node) => sum + proximityWeight(node.data.level), 0);
+
+  return {
+    companies,
+    totalCompanies: companyNodes.length,
+    score: totalWeight > 0 ? Number((companies.reduce((sum, c) => sum + c.weight, 0) / totalWeight).toFixed(3)) : 0,
+    rootAffected: companies.some(c => c.level === 0 && c.kind !== 'overdue')
+  };
+}
@@ -0,0 +1,316 @@
+// Officer entity resolution - decides which officer nodes are the same person
+
+import type { CompanyNode, GraphData, OfficerMatch, RelationshipEdge } from './types';
+
+export interface OfficerMatchRuling {
+  nodeIds: [string, string];
+  decision: 'confirmed' | 'split';
+}
+
+export interface OfficerResolutionOptions {
+  rulings?: OfficerMatchRuling[]; // Analyst decisions, which always win over the score
+  autoMergeThreshold?: number; // Pairs scoring at least this and sharing an appointment are merged without review
+  suggestThreshold?: number; // Pairs scoring at least this are returned for review
+}
+
+export interface OfficerResolutionResult {
+  graph: GraphData;
+  matches: OfficerMatch[];
+}
+
+export interface NormalisedName {
+  surname: string;
+  forenames: string[];
+}
+
+const DEFAULT_AUTO_MERGE_THRESHOLD = 0.95;
+const DEFAULT_SUGGEST_THRESHOLD = 0.5;
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'sir', 'dame', 'lord', 'lady', 'prof', 'professor', 'rev', 'revd']);
+const SUFFIXES = new Set(['jr', 'jnr', 'sr', 'snr', 'ii', 'iii', 'iv', 'obe', 'mbe', 'cbe', 'kc', 'qc']);
+
+// Home-nation and country spellings Companies House filings use for British nationals
+const BRITISH_NATIONALITIES = new Set(['british', 'english', 'scottish', 'welsh', 'northern irish', 'united kingdom', 'uk']);
+
+function tokenise(value: string): string[] {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token) && !SUFFIXES.has(token));
+}
+
+/**
+ * Split an officer name into surname and forenames. Companies House lists
+ * individuals as "SURNAME, Forenames"; anything else is read as "Forenames Surname".
+ */
+export function normaliseOfficerName(name: string): NormalisedName {
+  const commaIndex = name.indexOf(',');
+  if (commaIndex > 0) {
+    return {
+      surname: tokenise(name.slice(0, commaIndex)).join(' '),
+      forenames: tokenise(name.slice(commaIndex + 1))
+    };
+  }
+
+  const tokens = tokenise(name);
+  return {
+    surname: tokens[tokens.length - 1] || '',
+    forenames: tokens.slice(0, -1)
+  };
+}
+
+export function normaliseNationality(nationality: string | undefined): string | undefined {
+  if (!nationality) return undefined;
+  const value = nationality.trim().toLowerCase().replace(/\s+/g, ' ');
+  return BRITISH_NATIONALITIES.has(value) ? 'british' : value;
+}
+
+/**
+ * Forenames agree when every name in the shorter list matches, in order, a name or
+ * initial in the longer one ("John" vs "John Michael", "J M" vs "John Michael").
+ */
+function compareForenames(a: string[], b: string[]): 'exact' | 'compatible' | 'initials' | 'conflict' {
+  if (a.length === 0 || b.length === 0) return 'initials';
+  if (a.join(' ') === b.join(' ')) return 'exact';
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  let fullNameMatches = 0;
+  for (let i = 0; i < shorter.length; i++) {
+    const x = shorter[i];
+    const y = longer[i];
+    if (x === y) {
+      fullNameMatches++;
+    } else if (!((x.length === 1 && y.startsWith(x)) || (y.length === 1 && x.startsWith(y)))) {
+      return 'conflict';
+    }
+  }
+
+  // The first forename must be spelled out on both sides to count as more than initials
+  return fullNameMatches > 0 && shorter[0] === longer[0] ? 'compatible' : 'initials';
+}
+
+function connectedCompanies(nodeId: string, edges: RelationshipEdge[]): Set<string> {
+  const companies = new Set<string>();
+  for (const edge of edges) {
+    if (edge.data?.relationship !== 'officer') continue;
+    if (edge.target === nodeId) companies.add(edge.source);
+  }
+  return companies;
+}
+
+/**
+ * Score how likely two officer nodes are the same person, from 0 to 1, with the
+ * reasons behind it and how many companies both are appointed to. Returns null when
+ * something rules the match out entirely.
+ */
+export function scoreOfficerMatch(
+  a: CompanyNode,
+  b: CompanyNode,
+  companiesA: Set<string>,
+  companiesB: Set<string>
+): { confidence: number; reasons: string[]; sharedCompanies: number } | null {
+  const nameA = normaliseOfficerName(a.data.officerName || a.data.label);
+  const nameB = normaliseOfficerName(b.data.officerName || b.data.label);
+  if (!nameA.surname || nameA.surname !== nameB.surname) return null;
+
+  const reasons: string[] = [];
+  let confidence = 0;
+
+  switch (compareForenames(nameA.forenames, nameB.forenames)) {
+    case 'conflict':
+      return null;
+    case 'exact':
+      confidence += 0.45;
+      reasons.push('Same name');
+      break;
+    case 'compatible':
+      confidence += 0.35;
+      reasons.push('Compatible forenames');
+      break;
+    case 'initials':
+      confidence += 0.15;
+      reasons.push('Same surname, forenames only match by initial');
+      break;
+  }
+
+  // Month and year of birth are the strongest public signal; a mismatch rules the pair out
+  const dobA = a.data.dateOfBirth;
+  const dobB = b.data.dateOfBirth;
+  if (dobA && dobB) {
+    if (dobA.month !== dobB.month || dobA.year !== dobB.year) return null;
+    confidence += 0.35;
+    reasons.push(`Same birth month (${String(dobA.month).padStart(2, '0')}/${dobA.year})`);
+  } else {
+    reasons.push('Date of birth missing on one side');
+  }
+
+  const nationalityA = normaliseNationality(a.data.nationality);
+  const nationalityB = normaliseNationality(b.data.nationality);
+  if (nationalityA && nationalityB) {
+    if (nationalityA === nationalityB) {
+      confidence += 0.1;
+      reasons.push('Same nationality');
+    } else {
+      confidence -= 0.25;
+      reasons.push(`Different nationality (${a.data.nationality} / ${b.data.nationality})`);
+    }
+  }
+
+  const sharedCompanies = Array.from(companiesA).filter(company => companiesB.has(company)).length;
+  if (sharedCompanies > 0) {
+    confidence += Math.min(0.2, sharedCompanies * 0.1);
+    reasons.push(`Appointed to ${sharedCompanies} of the same ${sharedCompanies === 1 ? 'company' : 'companies'}`);
+  }
+
+  return { confidence: Math.max(0, Math.min(1, Number(confidence.toFixed(3)))), reasons, sharedCompanies };
+}
+
+export function officerPairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Find officer nodes that are likely the same person and merge them. Candidates are
+ * blocked by normalised surname, scored, and merged when an analyst confirmed them or
+ * the score clears the auto-merge threshold with a shared appointment behind it. A merge
+ * never joins two groups that an analyst has split apart, even through a third node.
+ */
+export function resolveOfficerEntities(graph: GraphData, options: OfficerResolutionOptions = {}): OfficerResolutionResult {
+  const autoMergeThreshold = options.autoMergeThreshold ?? DEFAULT_AUTO_MERGE_THRESHOLD;
+  const suggestThreshold = options.suggestThreshold ?? DEFAULT_SUGGEST_THRESHOLD;
+  const rulings = new Map((options.rulings || []).map(ruling => [officerPairKey(...ruling.nodeIds), ruling.decision]));
+
+  const officers = graph.nodes.filter(node => node.type === 'officer');
+  const blocks = new Map<string, CompanyNode[]>();
+  for (const officer of officers) {
+    const { surname } = normaliseOfficerName(officer.data.officerName || officer.data.label);
+    if (!surname) continue;
+    if (!blocks.has(surname)) blocks.set(surname, []);
+    blocks.get(surname)!.push(officer);
+  }
+
+  const companiesByOfficer = new Map(officers.map(officer => [officer.id, connectedCompanies(officer.id, graph.edges)]));
+  const matches: OfficerMatch[] = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const ruling = rulings.get(officerPairKey(a.id, b.id));
+        const score = scoreOfficerMatch(a, b, companiesByOfficer.get(a.id)!, companiesByOfficer.get(b.id)!);
+        if (!score && !ruling) continue;
+
+        // Name, birth month and nationality are shared by namesakes, so an automatic merge
+        // also needs a common appointment; anything short of that goes to an analyst
+        const confidence = score?.confidence ?? 0;
+        const corroborated = !!score && score.sharedCompanies > 0;
+        const status: OfficerMatch['status'] = ruling
+          ? ruling
+          : confidence >= autoMergeThreshold && corroborated ? 'merged' : 'suggested';
+        if (status === 'suggested' && confidence < suggestThreshold) continue;
+
+        matches.push({
+          nodeIds: [a.id, b.id],
+          names: [a.data.label, b.data.label],
+          confidence,
+          reasons: score?.reasons || ['Analyst decision'],
+          status
+        });
+      }
+    }
+  }
+
+  // Union-find over accepted pairs, strongest first, refusing unions that cross a split
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id);
+    if (!p || p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  const members = (root: string) => officers.map(o => o.id).filter(id => find(id) === root);
+  const splits = matches.filter(match => match.status === 'split').map(match => officerPairKey(...match.nodeIds));
+
+  const accepted = matches
+    .filter(match => match.status === 'merged' || match.status === 'confirmed')
+    .sort((x, y) => Number(y.status === 'confirmed') - Number(x.status === 'confirmed') || y.confidence - x.confidence);
+
+  for (const match of accepted) {
+    const rootA = find(match.nodeIds[0]);
+    const rootB = find(match.nodeIds[1]);
+    if (rootA === rootB) continue;
+
+    const groupA = members(rootA);
+    const groupB = members(rootB);
+    const crossesSplit = groupA.some(x => groupB.some(y => splits.includes(officerPairKey(x, y))));
+    if (crossesSplit) {
+      if (match.status === 'merged') match.status = 'suggested';
+      continue;
+    }
+
+    parent.set(rootB, rootA);
+  }
+
+  return { graph: mergeOfficerNodes(graph, find), matches };
+}
+
+/**
+ * Collapse each resolved group onto one node - the shallowest, preferring one with a
+ * Companies House officer ID - and re-point edges at it, dropping duplicates.
+ */
+function mergeOfficerNodes(graph: GraphData, find: (id: string) => string): GraphData {
+  const groups = new Map<string, CompanyNode[]>();
+  for (const node of graph.nodes) {
+    if (node.type !== 'officer') continue;
+    const root = find(node.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(node);
+  }
+
+  const canonicalOf = new Map<string, string>();
+  const canonicalNodes = new Map<string, CompanyNode>();
+
+  for (const group of groups.values()) {
+    if (group.length === 1) continue;
+
+    const [canonical, ...others] = [...group].sort((x, y) =>
+      x.data.level - y.data.level
+      || Number(!!y.data.officerId) - Number(!!x.data.officerId)
+      || x.id.localeCompare(y.id)
+    );
+
+    canonicalNodes.set(canonical.id, {
+      ...canonical,
+      data: {
+        ...canonical.data,
+        dateOfBirth: canonical.data.dateOfBirth || others.find(o => o.data.dateOfBirth)?.data.dateOfBirth,
+        nationality: canonical.data.nationality || others.find(o => o.data.nationality)?.data.nationality,
+        mergedNodeIds: others.map(o => o.id)
+      }
+    });
+    for (const other of others) canonicalOf.set(other.id, canonical.id);
+  }
+
+  if (canonicalOf.size === 0) return graph;
+
+  const edges = new Map<string, RelationshipEdge>();
+  for (const edge of graph.edges) {
+    const source = canonicalOf.get(edge.source) || edge.source;
+    const target = canonicalOf.get(edge.target) || edge.target;
+    const id = `${source}-${target}`;
+    if (edges.has(id)) continue;
+    edges.set(id, { ...edge, id, source, target });
+  }
+
+  return {
+    nodes: graph.nodes
+      .filter(node => !canonicalOf.has(node.id))
+      .map(node => canonicalNodes.get(node.id) || node),
+    edges: Array.from(edges.values())
+  };
+}
@@ -0,0 +1,423 @@
+// Graph export to interchange formats - GraphML, GEXF, Neo4j Cypher and versioned JSON
+
+import type { CompanyNode, RelationshipEdge, GraphData, NodeType, RelationshipType, ExportFormat } from './types';
+import { NODE_COLORS, EDGE_STYLES } from './types';
+
+// The formats produced here; images and PDFs are rendered elsewhere
+export type GraphExportFormat = Extract<ExportFormat, 'graphml' | 'gexf' | 'cypher' | 'json'>;
+
+export interface GraphExportMetadata {
+  title?: string;
+  description?: string;
+  rootCompanyNumber?: string;
+  exportedBy?: string;
+}
+
+export interface GraphExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+// Bump the major version for breaking changes to the document shape
+export const GRAPH_JSON_FORMAT = 'company-network-graph';
+export const GRAPH_JSON_VERSION = '1.0.0';
+
+export interface GraphJSONDocument {
+  format: typeof GRAPH_JSON_FORMAT;
+  version: string;
+  exportedAt: string;
+  metadata: GraphExportMetadata;
+  graph: GraphData;
+}
+
+const NODE_TYPES: NodeType[] = ['company', 'officer', 'psc', 'address'];
+const RELATIONSHIPS = Object.keys(EDGE_STYLES);
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check a graph sent by a client before it is exported or rendered into an image or
+ * report. Positions, types and labels end up in the output, so only known shapes pass.
+ * Returns an error message, or null when the graph is usable.
+ */
+export function validateGraphData(graph: GraphData | undefined, maxNodes: number): string | null {
+  if (!graph || !Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) {
+    return 'graph must contain nodes and edges arrays';
+  }
+
+  if (graph.nodes.length > maxNodes) {
+    return `Graphs larger than ${maxNodes} nodes are not supported`;
+  }
+
+  const invalidNode = graph.nodes.some(node =>
+    typeof node?.id !== 'string'
+    || !NODE_TYPES.includes(node.type)
+    || !node.data
+    || typeof node.data.label !== 'string'
+    || !node.position
+    || !isFiniteNumber(node.position.x)
+    || !isFiniteNumber(node.position.y)
+  );
+  const invalidEdge = graph.edges.some(edge =>
+    typeof edge?.id !== 'string'
+    || typeof edge.source !== 'string'
+    || typeof edge.target !== 'string'
+    || (edge.data !== undefined && (
+      !RELATIONSHIPS.includes(edge.data.relationship)
+      || (edge.data.label !== undefined && typeof edge.data.label !== 'string')
+    ))
+  );
+
+  return invalidNode || invalidEdge ? 'graph contains malformed nodes or edges' : null;
+}
+
+type AttributeType = 'string' | 'integer' | 'double' | 'boolean';
+
+interface AttributeDefinition {
+  id: string;
+  key: string;
+  type: AttributeType;
+}
+
+const FILE_TYPES: Record<GraphExportFormat, Omit<GraphExportFile, 'content'>> = {
+  graphml: { mimeType: 'application/graphml+xml', extension: 'graphml' },
+  gexf: { mimeType: 'application/gexf+xml', extension: 'gexf' },
+  cypher: { mimeType: 'application/x-cypher-query', extension: 'cypher' },
+  json: { mimeType: 'application/json', extension: 'json' }
+};
+
+const NEO4J_LABELS: Record<NodeType, string> = {
+  company: 'Company',
+  officer: 'Officer',
+  psc: 'PSC',
+  address: 'Address'
+};
+
+// Edges run from the company to the related entity
+const NEO4J_RELATIONSHIPS: Record<RelationshipType, string> = {
+  officer: 'HAS_OFFICER',
+  psc: 'HAS_PSC',
+  address: 'REGISTERED_AT',
+  ownership: 'OWNED_BY'
+};
+
+const NODE_TYPE_COLORS: Record<NodeType, string> = {
+  company: NODE_COLORS.company.active,
+  officer: NODE_COLORS.officer.active,
+  psc: NODE_COLORS.psc.active,
+  address: NODE_COLORS.address.default
+};
+
+class GraphExporter {
+  /**
+   * Serialise a graph to the requested format
+   */
+  export(graph: GraphData, format: GraphExportFormat, metadata: GraphExportMetadata = {}): GraphExportFile {
+    const content = (() => {
+      switch (format) {
+        case 'graphml':
+          return this.toGraphML(graph, metadata);
+        case 'gexf':
+          return this.toGEXF(graph, metadata);
+        case 'cypher':
+          return this.toCypher(graph, metadata);
+        case 'json':
+          return this.toJSON(graph, metadata);
+      }
+    })();
+
+    return { content, ...FILE_TYPES[format] };
+  }
+
+  /**
+   * GraphML with one <key> per node/edge data attribute, plus type and position
+   */
+  toGraphML(graph: GraphData, metadata: GraphExportMetadata = {}): string {
+    const nodeAttributes = this.collectAttributes(graph.nodes.map(node => this.nodeAttributes(node)), 'n');
+    const edgeAttributes = this.collectAttributes(graph.edges.map(edge => this.edgeAttributes(edge)), 'e');
+
+    const graphmlType = (type: AttributeType) => (type === 'integer' ? 'int' : type);
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+      ...nodeAttributes.map(attr =>
+        `  <key id="${attr.id}" for="node" attr.name="${this.escapeXml(attr.key)}" attr.type="${graphmlType(attr.type)}"/>`
+      ),
+      ...edgeAttributes.map(attr =>
+        `  <key id="${attr.id}" for="edge" attr.name="${this.escapeXml(attr.key)}" attr.type="${graphmlType(attr.type)}"/>`
+      ),
+      `  <graph id="${this.escapeXml(metadata.rootCompanyNumber || 'network')}" edgedefault="directed">`
+    ];
+
+    if (metadata.description || metadata.title) {
+      lines.push(`    <desc>${this.escapeXml(metadata.description || metadata.title!)}</desc>`);
+    }
+
+    for (const node of graph.nodes) {
+      lines.push(`    <node id="${this.escapeXml(node.id)}">`);
+      lines.push(...this.graphMLData(this.nodeAttributes(node), nodeAttributes));
+      lines.push('    </node>');
+    }
+
+    for (const edge of graph.edges) {
+      lines.push(`    <edge id="${this.escapeXml(edge.id)}" source="${this.escapeXml(edge.source)}" target="${this.escapeXml(edge.target)}">`);
+      lines.push(...this.graphMLData(this.edgeAttributes(edge), edgeAttributes));
+      lines.push('    </edge>');
+    }
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * GEXF 1.3 with attribute declarations, and viz colours/positions so Gephi
+   * opens the graph the way it looked on screen
+   */
+  toGEXF(graph: GraphData, metadata: GraphExportMetadata = {}): string {
+    const nodeAttributes = this.collectAttributes(graph.nodes.map(node => this.nodeAttributes(node)), 'n');
+    const edgeAttributes = this.collectAttributes(graph.edges.map(edge => this.edgeAttributes(edge)), 'e');
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+      `  <meta lastmodifieddate="${new Date().toISOString().split('T')[0]}">`,
+      `    <creator>${this.escapeXml(metadata.exportedBy || 'Company Network Graph')}</creator>`,
+      `    <description>${this.escapeXml(metadata.description || metadata.title || 'Company relationship network')}</description>`,
+      '  </meta>',
+      '  <graph defaultedgetype="directed" mode="static">'
+    ];
+
+    const declare = (cls: 'node' | 'edge', attributes: AttributeDefinition[]) => {
+      if (attributes.length === 0) return;
+      lines.push(`    <attributes class="${cls}">`);
+      for (const attr of attributes) {
+        lines.push(`      <attribute id="${attr.id}" title="${this.escapeXml(attr.key)}" type="${attr.type}"/>`);
+      }
+      lines.push('    </attributes>');
+    };
+    declare('node', nodeAttributes);
+    declare('edge', edgeAttributes);
+
+    lines.push('    <nodes>');
+    for (const node of graph.nodes) {
+      const color = this.hexToRgb(NODE_TYPE_COLORS[node.type]);
+      lines.push(`      <node id="${this.escapeXml(node.id)}" label="${this.escapeXml(node.data.label)}">`);
+      lines.push(...this.gexfValues(this.nodeAttributes(node), nodeAttributes));
+      lines.push(`        <viz:color r="${color.r}" g="${color.g}" b="${color.b}"/>`);
+      lines.push(`        <viz:position x="${node.position.x}" y="${-node.position.y}" z="0"/>`);
+      lines.push('      </node>');
+    }
+    lines.push('    </nodes>');
+
+    lines.push('    <edges>');
+    for (const edge of graph.edges) {
+      const weight = edge.data?.strength !== undefined ? ` weight="${edge.data.strength}"` : '';
+      const label = edge.data?.label ? ` label="${this.escapeXml(edge.data.label)}"` : '';
+      lines.push(`      <edge id="${this.escapeXml(edge.id)}" source="${this.escapeXml(edge.source)}" target="${this.escapeXml(edge.target)}"${weight}${label}>`);
+      lines.push(...this.gexfValues(this.edgeAttributes(edge), edgeAttributes));
+      lines.push('      </edge>');
+    }
+    lines.push('    </edges>');
+
+    lines.push('  </graph>', '</gexf>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * A single Neo4j CREATE statement (nodes first, then relationships) so node
+   * variables stay in scope. Each node keeps its graph ID in an `id` property.
+   */
+  toCypher(graph: GraphData, metadata: GraphExportMetadata = {}): string {
+    const variables = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+
+    const lines = [
+      `// ${metadata.title || 'Company relationship network'}`,
+      `// Exported ${new Date().toISOString()} - ${graph.nodes.length} nodes, ${graph.edges.length} relationships`
+    ];
+
+    const clauses: string[] = [];
+
+    for (const node of graph.nodes) {
+      const properties = this.cypherProperties({ id: node.id, ...this.nodeAttributes(node) });
+      clauses.push(`CREATE (${variables.get(node.id)}:${NEO4J_LABELS[node.type]} ${properties})`);
+    }
+
+    for (const edge of graph.edges) {
+      const source = variables.get(edge.source);
+      const target = variables.get(edge.target);
+      if (!source || !target) continue;
+
+      const type = NEO4J_RELATIONSHIPS[edge.data?.relationship || 'officer'];
+      const properties = this.cypherProperties(this.edgeAttributes(edge));
+      clauses.push(`CREATE (${source})-[:${type} ${properties}]->(${target})`);
+    }
+
+    if (clauses.length > 0) {
+      clauses[clauses.length - 1] += ';';
+    }
+
+    return [...lines, ...clauses].join('\n') + '\n';
+  }
+
+  /**
+   * Versioned JSON document that round-trips through parseJSON
+   */
+  toJSON(graph: GraphData, metadata: GraphExportMetadata = {}): string {
+    const document: GraphJSONDocument = {
+      format: GRAPH_JSON_FORMAT,
+      version: GRAPH_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      metadata,
+      graph: {
+        nodes: graph.nodes.map(node => ({
+          id: node.id,
+          type: node.type,
+          data: node.data,
+          position: node.position
+        })),
+        edges: graph.edges.map(edge => ({
+          id: edge.id,
+          source: edge.source,
+          target: edge.target,
+          ...(edge.type && { type: edge.type }),
+          ...(edge.data && { data: edge.data })
+        }))
+      }
+    };
+
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Read a JSON export back, rejecting other formats and incompatible major versions
+   */
+  parseJSON(content: string): GraphJSONDocument {
+    const document = JSON.parse(content);
+
+    if (document?.format !== GRAPH_JSON_FORMAT) {
+      throw new Error(`Unsupported graph document: expected format "${GRAPH_JSON_FORMAT}"`);
+    }
+
+    const major = String(document.version || '').split('.')[0];
+    if (major !== GRAPH_JSON_VERSION.split('.')[0]) {
+      throw new Error(`Unsupported graph document version ${document.version} (expected ${GRAPH_JSON_VERSION})`);
+    }
+
+    if (!Array.isArray(document.graph?.nodes) || !Array.isArray(document.graph?.edges)) {
+      throw new Error('Invalid graph document: graph.nodes and graph.edges must be arrays');
+    }
+
+    return document as GraphJSONDocument;
+  }
+
+  private nodeAttributes(node: CompanyNode): Record<string, unknown> {
+    return {
+      nodeType: node.type,
+      ...node.data,
+      x: node.position.x,
+      y: node.position.y
+    };
+  }
+
+  private edgeAttributes(edge: RelationshipEdge): Record<string, unknown> {
+    return { ...edge.data };
+  }
+
+  /**
+   * Declare one attribute per key seen on any element. A key is numeric or boolean
+   * only if every value is; anything else (arrays, nested objects) is a string.
+   */
+  private collectAttributes(elements: Record<string, unknown>[], prefix: string): AttributeDefinition[] {
+    const types = new Map<string, AttributeType>();
+
+    for (const attributes of elements) {
+      for (const [key, value] of Object.entries(attributes)) {
+        if (value === undefined || value === null) continue;
+
+        const valueType: AttributeType =
+          typeof value === 'boolean' ? 'boolean'
+            : typeof value === 'number' ? (Number.isInteger(value) ? 'integer' : 'double')
+              : 'string';
+
+        const current = types.get(key);
+        if (!current) {
+          types.set(key, valueType);
+        } else if (current !== valueType) {
+          const numeric = ['integer', 'double'];
+          types.set(key, numeric.includes(current) && numeric.includes(valueType) ? 'double' : 'string');
+        }
+      }
+    }
+
+    return Array.from(types.entries()).map(([key, type], index) => ({ id: `${prefix}${index}`, key, type }));
+  }
+
+  private formatValue(value: unknown): string {
+    if (Array.isArray(value)) {
+      return value.every(item => typeof item !== 'object') ? value.join(';') : JSON.stringify(value);
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
+  private graphMLData(attributes: Record<string, unknown>, definitions: AttributeDefinition[]): string[] {
+    return definitions
+      .filter(attr => attributes[attr.key] !== undefined && attributes[attr.key] !== null)
+      .map(attr => `      <data key="${attr.id}">${this.escapeXml(this.formatValue(attributes[attr.key]))}</data>`);
+  }
+
+  private gexfValues(attributes: Record<string, unknown>, definitions: AttributeDefinition[]): string[] {
+    const values = definitions
+      .filter(attr => attributes[attr.key] !== undefined && attributes[attr.key] !== null)
+      .map(attr => `          <attvalue for="${attr.id}" value="${this.escapeXml(this.formatValue(attributes[attr.key]))}"/>`);
+
+    return values.length > 0 ? ['        <attvalues>', ...values, '        </attvalues>'] : [];
+  }
+
+  /**
+   * Neo4j property map. Lists of primitives stay lists; nested objects become JSON
+   * strings because Neo4j properties can't hold maps.
+   */
+  private cypherProperties(attributes: Record<string, unknown>): string {
+    const entries = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${this.cypherKey(key)}: ${this.cypherValue(value)}`);
+
+    return `{${entries.join(', ')}}`;
+  }
+
+  private cypherKey(key: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? key : `\`${key.replace(/`/g, '``')}\``;
+  }
+
+  private cypherValue(value: unknown): string {
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean')) {
+      return `[${value.map(item => this.cypherValue(item)).join(', ')}]`;
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+  }
+
+  private hexToRgb(hex: string): { r: number; g: number; b: number } {
+    const value = parseInt(hex.slice(1), 16);
+    return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+  }
+}
+
+export const graphExporter = new GraphExporter();
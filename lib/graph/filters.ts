@@ -0,0 +1,167 @@
+// GraphFilters evaluation - shared by traversal and post-filtering of built graphs
+
+import type { GraphData, GraphFilters } from './types';
+
+/**
+ * Whether a period (appointment, PSC control) overlaps the filter's date range.
+ * Open-ended periods run to today; periods with no start date are assumed to overlap.
+ */
+export function overlapsDateRange(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  dateRange: GraphFilters['dateRange']
+): boolean {
+  if (!dateRange) return true;
+
+  // ISO dates (YYYY-MM-DD) compare correctly as strings
+  if (startDate && dateRange.end && startDate > dateRange.end) return false;
+  if (endDate && dateRange.start && endDate < dateRange.start) return false;
+
+  return true;
+}
+
+/**
+ * Whether a period was in force on a given date. It counts from its start date and
+ * no longer applies on its end date (a director resigning that day is gone).
+ */
+export function activeOn(startDate: string | undefined, endDate: string | undefined, date: string): boolean {
+  if (startDate && startDate > date) return false;
+  if (endDate && endDate <= date) return false;
+  return true;
+}
+
+/**
+ * Whether a period ending on `endDate` passes the filters. An as-of date shows only
+ * what was in force that day; a date range keeps anything overlapping it. Either
+ * replaces the showResigned check so past directors are kept.
+ */
+export function includesPeriod(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  filters: GraphFilters
+): boolean {
+  if (filters.asOfDate) {
+    return activeOn(startDate, endDate, filters.asOfDate);
+  }
+
+  if (filters.dateRange) {
+    return overlapsDateRange(startDate, endDate, filters.dateRange);
+  }
+
+  return filters.showResigned || !endDate;
+}
+
+export function matchesCompanyType(companyType: string | undefined, filters: GraphFilters): boolean {
+  if (!filters.companyTypes || filters.companyTypes.length === 0) return true;
+  return !!companyType && (filters.companyTypes as string[]).includes(companyType);
+}
+
+// Companies incorporated after the as-of date did not exist yet
+export function existedOn(incorporationDate: string | undefined, filters: GraphFilters): boolean {
+  return !filters.asOfDate || !incorporationDate || incorporationDate <= filters.asOfDate;
+}
+
+export function matchesOfficerRole(officerRole: string | undefined, filters: GraphFilters): boolean {
+  if (!filters.officerRoles || filters.officerRoles.length === 0) return true;
+  return !!officerRole && (filters.officerRoles as string[]).includes(officerRole);
+}
+
+/**
+ * Apply GraphFilters to an already-built graph. Officer and PSC edges are checked
+ * against roles and the date range or as-of date, companies against the selected
+ * types and incorporation date, and any node no longer connected to the root is
+ * dropped. The root is always kept.
+ */
+export function applyGraphFilters(graph: GraphData, filters: GraphFilters, rootNodeId: string): GraphData {
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+
+  const keptNodeIds = new Set(
+    graph.nodes
+      .filter(node => {
+        if (node.id === rootNodeId) return true;
+        if (node.type === 'company') {
+          return matchesCompanyType(node.data.companyType, filters)
+            && existedOn(node.data.incorporationDate, filters);
+        }
+        return true;
+      })
+      .map(node => node.id)
+  );
+
+  const edges = graph.edges.filter(edge => {
+    if (!keptNodeIds.has(edge.source) || !keptNodeIds.has(edge.target)) return false;
+
+    const relationship = edge.data?.relationship;
+    if (relationship === 'officer') {
+      const role = edge.data?.role || nodesById.get(edge.target)?.data.officerRole;
+      return matchesOfficerRole(role, filters)
+        && includesPeriod(edge.data?.startDate, edge.data?.endDate, filters);
+    }
+
+    if (relationship === 'psc' || relationship === 'ownership') {
+      return includesPeriod(edge.data?.startDate, edge.data?.endDate, filters);
+    }
+
+    return true;
+  });
+
+  // Keep only what is still reachable from the root
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!adjacency.has(edge.source)) adjacency.set(edge.source, []);
+    if (!adjacency.has(edge.target)) adjacency.set(edge.target, []);
+    adjacency.get(edge.source)!.push(edge.target);
+    adjacency.get(edge.target)!.push(edge.source);
+  }
+
+  const reachable = new Set<string>([rootNodeId]);
+  const queue = [rootNodeId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const neighbour of adjacency.get(current) || []) {
+      if (!reachable.has(neighbour)) {
+        reachable.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => reachable.has(node.id)),
+    edges: edges.filter(edge => reachable.has(edge.source) && reachable.has(edge.target))
+  };
+}
+
+/**
+ * Check filters sent by a client. Returns an error message, or null when they are usable.
+ */
+export function validateGraphFilters(filters: Partial<GraphFilters> | undefined): string | null {
+  if (!filters) return null;
+  if (typeof filters !== 'object') return 'filters must be an object';
+
+  const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+  if (filters.dateRange) {
+    const { start, end } = filters.dateRange;
+    if ((start && !isoDate.test(start)) || (end && !isoDate.test(end)) || (start && end && start > end)) {
+      return 'filters.dateRange must have start/end dates in YYYY-MM-DD format with start before end';
+    }
+  }
+
+  if (filters.asOfDate !== undefined) {
+    if (typeof filters.asOfDate !== 'string' || !isoDate.test(filters.asOfDate) || Number.isNaN(Date.parse(filters.asOfDate))) {
+      return 'filters.asOfDate must be a date in YYYY-MM-DD format';
+    }
+    if (filters.asOfDate > new Date().toISOString().split('T')[0]) {
+      return 'filters.asOfDate cannot be in the future';
+    }
+  }
+
+  for (const key of ['companyTypes', 'officerRoles'] as const) {
+    const values: unknown = filters[key];
+    if (values !== undefined && (!Array.isArray(values) || values.some(v => typeof v !== 'string'))) {
+      return `filters.${key} must be an array of strings`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,297 @@
+// Server-side graph layouts - hierarchical, force-directed, circular and grid
+
+import type { CompanyNode, RelationshipEdge, GraphLayout } from './types';
+
+type Direction = NonNullable<GraphLayout['direction']>;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const LAYOUT_TYPES: GraphLayout['type'][] = ['hierarchical', 'force', 'circular', 'grid', 'custom'];
+const LAYOUT_DIRECTIONS: Direction[] = ['TB', 'BT', 'LR', 'RL'];
+const DEFAULT_SPACING = { nodeSpacing: 250, levelSpacing: 200 };
+const DEFAULT_SEED = 42;
+const FORCE_ITERATIONS = 300;
+
+/**
+ * Small seeded PRNG (mulberry32) so force layouts are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Stable ordering: by level, then ID, so the same graph always lays out the same way
+function sortNodes(nodes: CompanyNode[]): CompanyNode[] {
+  return [...nodes].sort((a, b) => a.data.level - b.data.level || a.id.localeCompare(b.id));
+}
+
+/**
+ * Map a top-to-bottom layout onto the requested direction.
+ * `main` runs along the flow direction, `cross` across it.
+ */
+function orient(main: number, cross: number, direction: Direction): Point {
+  switch (direction) {
+    case 'BT':
+      return { x: cross, y: -main };
+    case 'LR':
+      return { x: main, y: cross };
+    case 'RL':
+      return { x: -main, y: cross };
+    case 'TB':
+    default:
+      return { x: cross, y: main };
+  }
+}
+
+function layoutHierarchical(nodes: CompanyNode[], direction: Direction, spacing: typeof DEFAULT_SPACING): void {
+  const nodesByLevel = new Map<number, CompanyNode[]>();
+  for (const node of sortNodes(nodes)) {
+    const level = node.data.level;
+    if (!nodesByLevel.has(level)) {
+      nodesByLevel.set(level, []);
+    }
+    nodesByLevel.get(level)!.push(node);
+  }
+
+  for (const [level, levelNodes] of nodesByLevel) {
+    const totalWidth = (levelNodes.length - 1) * spacing.nodeSpacing;
+    const start = -totalWidth / 2;
+
+    levelNodes.forEach((node, index) => {
+      node.position = orient(level * spacing.levelSpacing, start + index * spacing.nodeSpacing, direction);
+    });
+  }
+}
+
+/**
+ * Fruchterman-Reingold force-directed layout. Initial positions come from the
+ * seeded PRNG, then the result is rotated so the root points along `direction`.
+ */
+function layoutForce(
+  nodes: CompanyNode[],
+  edges: RelationshipEdge[],
+  direction: Direction,
+  spacing: typeof DEFAULT_SPACING,
+  seed: number
+): void {
+  const ordered = sortNodes(nodes);
+  const count = ordered.length;
+  if (count === 0) return;
+
+  const random = createRandom(seed);
+  const idealDistance = spacing.nodeSpacing;
+  const area = idealDistance * idealDistance * count;
+  const index = new Map(ordered.map((node, i) => [node.id, i]));
+
+  const positions: Point[] = ordered.map(() => ({
+    x: (random() - 0.5) * Math.sqrt(area),
+    y: (random() - 0.5) * Math.sqrt(area)
+  }));
+
+  const links = edges
+    .map(edge => [index.get(edge.source), index.get(edge.target)] as const)
+    .filter((link): link is readonly [number, number] =>
+      link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]
+    );
+
+  let temperature = Math.sqrt(area) / 10;
+  const cooling = temperature / (FORCE_ITERATIONS + 1);
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const displacement: Point[] = positions.map(() => ({ x: 0, y: 0 }));
+
+    // Repulsion between every pair of nodes
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let dx = positions[i].x - positions[j].x;
+        let dy = positions[i].y - positions[j].y;
+        let distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance < 0.01) {
+          // Coincident nodes: nudge apart deterministically
+          dx = random() - 0.5;
+          dy = random() - 0.5;
+          distance = 0.01;
+        }
+        const force = (idealDistance * idealDistance) / distance;
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        displacement[i].x += fx;
+        displacement[i].y += fy;
+        displacement[j].x -= fx;
+        displacement[j].y -= fy;
+      }
+    }
+
+    // Attraction along edges
+    for (const [source, target] of links) {
+      const dx = positions[source].x - positions[target].x;
+      const dy = positions[source].y - positions[target].y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      const force = (distance * distance) / idealDistance;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      displacement[source].x -= fx;
+      displacement[source].y -= fy;
+      displacement[target].x += fx;
+      displacement[target].y += fy;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const length = Math.sqrt(displacement[i].x ** 2 + displacement[i].y ** 2);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      positions[i].x += (displacement[i].x / length) * step;
+      positions[i].y += (displacement[i].y / length) * step;
+    }
+
+    temperature -= cooling;
+  }
+
+  // Put the root at the origin and rotate so the rest of the graph flows along `direction`
+  const root = positions[0];
+  const centroid = positions.reduce(
+    (sum, p) => ({ x: sum.x + p.x / count, y: sum.y + p.y / count }),
+    { x: 0, y: 0 }
+  );
+  const currentAngle = Math.atan2(centroid.y - root.y, centroid.x - root.x);
+  const target = orient(1, 0, direction);
+  const rotation = count > 1 ? Math.atan2(target.y, target.x) - currentAngle : 0;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  ordered.forEach((node, i) => {
+    const dx = positions[i].x - root.x;
+    const dy = positions[i].y - root.y;
+    node.position = {
+      x: Math.round(dx * cos - dy * sin),
+      y: Math.round(dx * sin + dy * cos)
+    };
+  });
+}
+
+/**
+ * Nodes evenly spaced on a single circle, ordered by level so related nodes sit together.
+ * The root starts at the side the direction flows from (top for TB, left for LR).
+ */
+function layoutCircular(nodes: CompanyNode[], direction: Direction, spacing: typeof DEFAULT_SPACING): void {
+  const ordered = sortNodes(nodes);
+  const count = ordered.length;
+  if (count === 0) return;
+  if (count === 1) {
+    ordered[0].position = { x: 0, y: 0 };
+    return;
+  }
+
+  // Circumference large enough to keep neighbours `nodeSpacing` apart
+  const radius = Math.max(spacing.levelSpacing, (count * spacing.nodeSpacing) / (2 * Math.PI));
+  const start = orient(-1, 0, direction);
+  const startAngle = Math.atan2(start.y, start.x);
+
+  ordered.forEach((node, i) => {
+    const angle = startAngle + (2 * Math.PI * i) / count;
+    node.position = {
+      x: Math.round(radius * Math.cos(angle)),
+      y: Math.round(radius * Math.sin(angle))
+    };
+  });
+}
+
+/**
+ * Square-ish grid filled in level order, row by row along the direction
+ */
+function layoutGrid(nodes: CompanyNode[], direction: Direction, spacing: typeof DEFAULT_SPACING): void {
+  const ordered = sortNodes(nodes);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(ordered.length)));
+  const offset = ((columns - 1) * spacing.nodeSpacing) / 2;
+
+  ordered.forEach((node, i) => {
+    const row = Math.floor(i / columns);
+    const column = i % columns;
+    node.position = orient(row * spacing.levelSpacing, column * spacing.nodeSpacing - offset, direction);
+  });
+}
+
+/**
+ * Check a layout sent by a client. Returns an error message, or null when it is usable.
+ */
+export function validateGraphLayout(layout: Partial<GraphLayout> | undefined): string | null {
+  if (!layout) return null;
+  if (typeof layout !== 'object') return 'layout must be an object';
+
+  if (layout.type && !LAYOUT_TYPES.includes(layout.type)) {
+    return `layout.type must be one of: ${LAYOUT_TYPES.join(', ')}`;
+  }
+
+  if (layout.direction && !LAYOUT_DIRECTIONS.includes(layout.direction)) {
+    return `layout.direction must be one of: ${LAYOUT_DIRECTIONS.join(', ')}`;
+  }
+
+  if (layout.seed !== undefined && !Number.isInteger(layout.seed)) {
+    return 'layout.seed must be an integer';
+  }
+
+  return null;
+}
+
+/**
+ * Position nodes in place according to the requested layout.
+ * 'custom' keeps whatever positions the nodes already carry.
+ */
+export function applyGraphLayout(
+  nodes: CompanyNode[],
+  edges: RelationshipEdge[],
+  layout: GraphLayout = { type: 'hierarchical' }
+): void {
+  const direction = layout.direction || 'TB';
+  const spacing = layout.spacing || DEFAULT_SPACING;
+
+  switch (layout.type) {
+    case 'force':
+      layoutForce(nodes, edges, direction, spacing, layout.seed ?? DEFAULT_SEED);
+      break;
+    case 'circular':
+      layoutCircular(nodes, direction, spacing);
+      break;
+    case 'grid':
+      layoutGrid(nodes, direction, spacing);
+      break;
+    case 'custom':
+      break;
+    case 'hierarchical':
+    default:
+      layoutHierarchical(nodes, direction, spacing);
+  }
+}
+
+/**
+ * Place nodes added by expanding `anchor` on a ring around it, leaving the rest of
+ * the canvas where the user arranged it. The ring starts below the anchor.
+ */
+export function placeAroundNode(
+  anchor: CompanyNode,
+  nodes: CompanyNode[],
+  spacing: typeof DEFAULT_SPACING = DEFAULT_SPACING
+): void {
+  const ordered = sortNodes(nodes);
+  const count = ordered.length;
+  if (count === 0) return;
+
+  const radius = Math.max(spacing.levelSpacing, (count * spacing.nodeSpacing) / (2 * Math.PI));
+
+  ordered.forEach((node, i) => {
+    const angle = Math.PI / 2 + (2 * Math.PI * i) / count;
+    node.position = {
+      x: Math.round(anchor.position.x + radius * Math.cos(angle)),
+      y: Math.round(anchor.position.y + radius * Math.sin(angle))
+    };
+  });
+}
@@ -1,53 +1,162 @@
 // Network builder for creating company relationship graphs
 
+import pLimit, { type LimitFunction } from 'p-limit';
 import { companiesHouseClient } from '@/lib/companies-house/client';
-import type { CompanyProfile, Officer, PersonWithSignificantControl } from '@/lib/companies-house/types';
+import { summarizeInsolvency, getInsolvencySeverity } from '@/lib/companies-house/insolvency';
+import { getCorporateRegistrationNumber, getOwnershipBand, formatOwnershipBand } from '@/lib/companies-house/ownership';
+import { normaliseAddress, getMassRegistrationMarker } from '@/lib/companies-house/address';
+import { getRegisteredOfficeCounts } from '@/lib/db/queries-nexus';
+import type { CompanyProfile, Officer, OfficerAppointment, PersonWithSignificantControl } from '@/lib/companies-house/types';
 import type { 
   CompanyNode, 
   RelationshipEdge, 
   GraphData, 
   NetworkAnalysis,
   GraphFilters,
-  NodeType
+  GraphLayout,
+  NodeType,
+  OfficerMatch
 } from './types';
 import { NODE_COLORS, NODE_SIZES } from './types';
+import {
+  findDirectedCycles,
+  betweennessCentrality,
+  eigenvectorCentrality,
+  detectCommunities
+} from './algorithms';
+import { applyGraphLayout, placeAroundNode } from './layouts';
+import { findChangeBursts, daysBetween } from './timeline';
+import { summarizeDormancy } from './dormancy';
+import { resolveOfficerEntities, type OfficerResolutionOptions } from './entity-resolution';
+import { applyGraphFilters, existedOn, includesPeriod, matchesCompanyType, matchesOfficerRole } from './filters';
 
 interface NodePosition {
   x: number;
   y: number;
 }
 
-class NetworkBuilder {
-  private nodes: Map<string, CompanyNode> = new Map();
-  private edges: Map<string, RelationshipEdge> = new Map();
-  private processedCompanies: Set<string> = new Set();
-  private layout: { nodeSpacing: number; levelSpacing: number } = { nodeSpacing: 250, levelSpacing: 200 };
+const DEFAULT_MAX_NODES = 500;
+const DEFAULT_EXPANSION_MAX_NODES = 100;
+const DEFAULT_CONCURRENCY = 4;
+const PRE_INSOLVENCY_WINDOW_DAYS = 365; // Churn this close before an insolvency case is escalated
+const MASS_REGISTRATION_MIN_COMPANIES = 50; // Cached companies at one building before it is flagged
+const MASS_REGISTRATION_HIGH_COMPANIES = 500;
+const MASS_REGISTRATION_MIN_IN_GRAPH = 5; // Companies in this network sharing one building
+
+export interface NetworkBuildOptions {
+  maxHops?: number;
+  filters: GraphFilters;
+  rateLimitKey?: string;
+  layout?: GraphLayout;
+  signal?: AbortSignal; // Cancels the build, e.g. when the client disconnects
+  maxNodes?: number; // Traversal stops adding nodes once the budget is reached
+  concurrency?: number; // Maximum Companies House requests in flight
+  officerResolution?: OfficerResolutionOptions | false; // false keeps every officer node as fetched
+}
+
+export interface NetworkBuildResult extends GraphData {
+  truncated: boolean;
+  officerMatches: OfficerMatch[];
+}
+
+export interface NodeExpansionOptions {
+  filters: GraphFilters;
+  knownNodeIds: string[]; // Already on the canvas - never returned again
+  knownEdgeIds?: string[];
+  rateLimitKey?: string;
+  signal?: AbortSignal;
+  maxNodes?: number; // Budget for new nodes in this expansion
+  concurrency?: number;
+}
+
+export interface NodeExpansionResult extends GraphData {
+  truncated: boolean;
+}
+
+// All mutable state for a single build, so concurrent builds never share maps
+interface BuildContext {
+  nodes: Map<string, CompanyNode>;
+  edges: Map<string, RelationshipEdge>;
+  processedCompanies: Set<string>;
+  processedOfficers: Set<string>;
+  maxHops: number;
+  filters: GraphFilters;
+  rateLimitKey: string;
+  maxNodes: number;
+  truncated: boolean;
+  signal?: AbortSignal;
+  limit: LimitFunction;
+}
+
+// A company discovered while processing one level, to be expanded on the next
+interface CompanyRef {
+  companyNumber: string;
+  level: number;
+}
 
+class NetworkBuilder {
   /**
-   * Build a network graph starting from a root company
+   * Build a network graph starting from a root company.
+   * Companies are expanded level by level so every node keeps its shortest hop
+   * distance even though requests within a level run in parallel.
    * @param rootCompanyNumber - The company to start from
-   * @param maxHops - Maximum number of relationship hops (1-3)
-   * @param filters - Filters to apply to the network
-   * @param rateLimitKey - Rate limiting key for API calls
+   * @param options - Hops (1-3), filters, rate-limit key, layout, abort signal and node budget
    */
   async buildNetwork(
     rootCompanyNumber: string,
-    maxHops: number = 2,
-    filters: GraphFilters,
-    rateLimitKey: string = 'graph'
-  ): Promise<GraphData> {
-    this.reset();
+    options: NetworkBuildOptions
+  ): Promise<NetworkBuildResult> {
+    const ctx: BuildContext = {
+      nodes: new Map(),
+      edges: new Map(),
+      processedCompanies: new Set(),
+      processedOfficers: new Set(),
+      maxHops: options.maxHops ?? 2,
+      filters: options.filters,
+      rateLimitKey: options.rateLimitKey || 'graph',
+      maxNodes: options.maxNodes ?? DEFAULT_MAX_NODES,
+      truncated: false,
+      signal: options.signal,
+      limit: pLimit(options.concurrency ?? DEFAULT_CONCURRENCY)
+    };
     
     try {
       // Start with root company
-      await this.processCompany(rootCompanyNumber, 0, maxHops, filters, rateLimitKey);
+      let frontier: CompanyRef[] = [{ companyNumber: rootCompanyNumber, level: 0 }];
+
+      while (frontier.length > 0) {
+        this.throwIfAborted(ctx);
+
+        const discovered = await Promise.all(
+          frontier.map(ref => this.processCompany(ctx, ref.companyNumber, ref.level))
+        );
+        frontier = discovered.flat();
+      }
+
+      // Post-filter: drops edges whose far end was never added (node budget, company type)
+      // and anything left disconnected from the root once filtered edges are removed
+      const filtered = applyGraphFilters(
+        { nodes: Array.from(ctx.nodes.values()), edges: Array.from(ctx.edges.values()) },
+        ctx.filters,
+        `company-${rootCompanyNumber}`
+      );
+
+      // Officers without a shared officer ID arrive as separate nodes; merge the ones that are the same person
+      const resolution = options.officerResolution === false
+        ? { graph: filtered, matches: [] }
+        : resolveOfficerEntities(filtered, options.officerResolution);
+      const { nodes, edges } = resolution.graph;
+
+      await this.annotateRegisteredOfficeCounts(nodes);
       
       // Apply layout positioning
-      this.applyLayout();
+      applyGraphLayout(nodes, edges, options.layout || { type: 'hierarchical', direction: 'TB' });
       
       return {
-        nodes: Array.from(this.nodes.values()),
-        edges: Array.from(this.edges.values())
+        nodes,
+        edges,
+        truncated: ctx.truncated,
+        officerMatches: resolution.matches
       };
     } catch (error) {
       console.error('Network building error:', error);
@@ -55,51 +164,206 @@ class NetworkBuilder {
     }
   }
 
-  private reset(): void {
-    this.nodes.clear();
-    this.edges.clear();
-    this.processedCompanies.clear();
+  /**
+   * Expand one company or officer node by a single hop. Only neighbours and edges the
+   * client does not already have are returned, placed around the expanded node.
+   * Companies already on the canvas are linked to but never fetched again.
+   * @param node - The node being expanded, as the client has it (level and position are kept)
+   * @param options - Filters, the client's node/edge IDs, rate-limit key, abort signal and node budget
+   */
+  async expandNode(node: CompanyNode, options: NodeExpansionOptions): Promise<NodeExpansionResult> {
+    const level = node.data.level;
+    const known = new Set(options.knownNodeIds);
+    const knownEdges = new Set(options.knownEdgeIds || []);
+
+    const ctx: BuildContext = {
+      nodes: new Map(),
+      edges: new Map(),
+      processedCompanies: new Set(),
+      processedOfficers: new Set(),
+      maxHops: level + 1,
+      filters: options.filters,
+      rateLimitKey: options.rateLimitKey || 'graph',
+      maxNodes: options.maxNodes ?? DEFAULT_EXPANSION_MAX_NODES,
+      truncated: false,
+      signal: options.signal,
+      limit: pLimit(options.concurrency ?? DEFAULT_CONCURRENCY)
+    };
+
+    // Known companies are only linked to, so their profiles aren't fetched again
+    for (const id of known) {
+      if (id.startsWith('company-') && id !== node.id) {
+        ctx.processedCompanies.add(id.slice('company-'.length));
+      }
+    }
+
+    let frontier: CompanyRef[];
+    if (node.type === 'company' && node.data.companyNumber) {
+      frontier = [{ companyNumber: node.data.companyNumber, level }];
+    } else if (node.type === 'officer' && node.data.officerId) {
+      frontier = await this.findOfficerConnections(
+        ctx,
+        `/officers/${node.data.officerId}/appointments`,
+        node.data.officerName || node.data.label,
+        node.id,
+        level
+      );
+    } else {
+      throw new Error('Only company nodes and officers with a Companies House officer ID can be expanded');
+    }
+
+    while (frontier.length > 0) {
+      this.throwIfAborted(ctx);
+
+      const discovered = await Promise.all(
+        frontier.map(ref => this.processCompany(ctx, ref.companyNumber, ref.level))
+      );
+      frontier = discovered.flat();
+    }
+
+    const nodes = Array.from(ctx.nodes.values()).filter(n => n.id !== node.id && !known.has(n.id));
+    const reachable = new Set([node.id, ...known, ...nodes.map(n => n.id)]);
+    const edges = Array.from(ctx.edges.values()).filter(edge =>
+      !knownEdges.has(edge.id) && reachable.has(edge.source) && reachable.has(edge.target)
+    );
+
+    // Drop anything the filters left without a connection to the canvas
+    const connected = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+    const newNodes = nodes.filter(n => connected.has(n.id));
+
+    await this.annotateRegisteredOfficeCounts(newNodes);
+    placeAroundNode(node, newNodes);
+
+    return {
+      nodes: newNodes,
+      edges,
+      truncated: ctx.truncated
+    };
+  }
+
+  private throwIfAborted(ctx: BuildContext): void {
+    if (ctx.signal?.aborted) {
+      throw new Error('Aborted: network build was cancelled');
+    }
+  }
+
+  /**
+   * Run a Companies House request through the build's concurrency limit
+   */
+  private async fetch<T>(ctx: BuildContext, request: () => Promise<T>): Promise<T> {
+    this.throwIfAborted(ctx);
+    return ctx.limit(() => {
+      this.throwIfAborted(ctx);
+      return request();
+    });
+  }
+
+  /**
+   * Look up how many cached companies share each address node's building. The index
+   * only enriches the mass-registration check, so a failed lookup is logged and skipped.
+   */
+  private async annotateRegisteredOfficeCounts(nodes: CompanyNode[]): Promise<void> {
+    const addressNodes = nodes.filter(node => node.type === 'address' && node.data.addressKey);
+    if (addressNodes.length === 0) return;
+
+    try {
+      const counts = await getRegisteredOfficeCounts(
+        Array.from(new Set(addressNodes.map(node => node.data.addressKey!)))
+      );
+      for (const node of addressNodes) {
+        node.data.registeredCompanyCount = counts.get(node.data.addressKey!) || 0;
+      }
+    } catch (error) {
+      console.error('Address index lookup error:', error);
+    }
+  }
+
+  /**
+   * Add a node within the budget. Existing nodes keep the shallowest level seen.
+   */
+  private addNode(ctx: BuildContext, node: CompanyNode): boolean {
+    const existing = ctx.nodes.get(node.id);
+    if (existing) {
+      existing.data.level = Math.min(existing.data.level, node.data.level);
+      return true;
+    }
+
+    if (ctx.nodes.size >= ctx.maxNodes) {
+      ctx.truncated = true;
+      return false;
+    }
+
+    ctx.nodes.set(node.id, node);
+    return true;
   }
 
   private async processCompany(
+    ctx: BuildContext,
     companyNumber: string,
-    currentLevel: number,
-    maxHops: number,
-    filters: GraphFilters,
-    rateLimitKey: string
-  ): Promise<void> {
-    if (this.processedCompanies.has(companyNumber) || currentLevel > maxHops) {
-      return;
+    currentLevel: number
+  ): Promise<CompanyRef[]> {
+    if (ctx.processedCompanies.has(companyNumber) || currentLevel > ctx.maxHops) {
+      return [];
     }
 
-    this.processedCompanies.add(companyNumber);
+    if (ctx.nodes.size >= ctx.maxNodes) {
+      ctx.truncated = true;
+      return [];
+    }
+
+    ctx.processedCompanies.add(companyNumber);
 
     try {
       // Get company profile
-      const company = await companiesHouseClient.getCompanyProfile(companyNumber, { rateLimitKey });
+      const company = await this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyProfile(companyNumber, { rateLimitKey: ctx.rateLimitKey })
+      );
       
+      // The root is always shown; other companies must match the selected types
+      // and have existed on the as-of date
+      if (currentLevel > 0 && (!matchesCompanyType(company.type, ctx.filters) || !existedOn(company.date_of_creation, ctx.filters))) {
+        return [];
+      }
+
       // Create company node
       const companyNode = this.createCompanyNode(company, currentLevel);
-      this.nodes.set(companyNode.id, companyNode);
+      if (!this.addNode(ctx, companyNode)) {
+        return [];
+      }
 
-      // Process relationships if not at max depth
-      if (currentLevel < maxHops) {
-        // Get officers
-        if (filters.showOfficers) {
-          await this.processOfficers(company, currentLevel, maxHops, filters, rateLimitKey);
+      // Attach insolvency cases so analysis can weigh case types and dates
+      if (company.has_insolvency_history) {
+        try {
+          const insolvency = await this.fetch(ctx, () =>
+            companiesHouseClient.getInsolvency(companyNumber, { rateLimitKey: ctx.rateLimitKey })
+          );
+          companyNode.data.insolvency = summarizeInsolvency(insolvency);
+        } catch (error) {
+          if (ctx.signal?.aborted) throw error;
+          console.error(`Error fetching insolvency for ${companyNumber}:`, error);
         }
+      }
 
-        // Get PSCs
-        if (filters.showPSCs) {
-          await this.processPSCs(company, currentLevel, maxHops, filters, rateLimitKey);
-        }
+      // Process relationships if not at max depth
+      if (currentLevel >= ctx.maxHops) {
+        return [];
+      }
 
-        // Process address connections
-        if (filters.showAddresses) {
-          this.processAddressConnections(company, currentLevel);
-        }
+      // Process address connections
+      if (ctx.filters.showAddresses) {
+        this.processAddressConnections(ctx, company, currentLevel);
       }
+
+      const [officerRefs, pscRefs] = await Promise.all([
+        // Get officers
+        ctx.filters.showOfficers ? this.processOfficers(ctx, company, currentLevel) : [],
+        // Get PSCs
+        ctx.filters.showPSCs ? this.processPSCs(ctx, company, currentLevel) : []
+      ]);
+
+      return [...officerRefs, ...pscRefs];
     } catch (error) {
+      if (ctx.signal?.aborted) throw error;
       console.error(`Error processing company ${companyNumber}:`, error);
       
       // Create error node
@@ -115,7 +379,8 @@ class NetworkBuilder {
         },
         position: { x: 0, y: 0 }
       };
-      this.nodes.set(errorNode.id, errorNode);
+      this.addNode(ctx, errorNode);
+      return [];
     }
   }
 
@@ -131,6 +396,11 @@ class NetworkBuilder {
         companyName: company.company_name,
         companyStatus: company.company_status,
         companyType: company.type,
+        incorporationDate: company.date_of_creation,
+        cessationDate: company.date_of_cessation,
+        lastAccountsType: company.accounts?.last_accounts?.type,
+        accountsOverdue: company.accounts?.next_accounts?.overdue || undefined,
+        confirmationStatementOverdue: company.confirmation_statement?.overdue || undefined,
         level
       },
       position: { x: 0, y: 0 } // Will be set by layout
@@ -138,31 +408,37 @@ class NetworkBuilder {
   }
 
   private async processOfficers(
+    ctx: BuildContext,
     company: CompanyProfile,
-    currentLevel: number,
-    maxHops: number,
-    filters: GraphFilters,
-    rateLimitKey: string
-  ): Promise<void> {
+    currentLevel: number
+  ): Promise<CompanyRef[]> {
+    const { filters } = ctx;
+
     try {
-      const officers = await companiesHouseClient.getCompanyOfficers(
-        company.company_number,
-        { rateLimitKey, itemsPerPage: 50 }
+      const officers = await this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyOfficers(
+          company.company_number,
+          { rateLimitKey: ctx.rateLimitKey, itemsPerPage: 50 }
+        )
       );
 
+      const connections: Promise<CompanyRef[]>[] = [];
+
       for (const officer of officers.items) {
         // Apply filters
-        if (!filters.showResigned && officer.resigned_on) {
+        if (!includesPeriod(officer.appointed_on, officer.resigned_on, filters)) {
           continue;
         }
 
-        if (filters.officerRoles && !filters.officerRoles.includes(officer.officer_role)) {
+        if (!matchesOfficerRole(officer.officer_role, filters)) {
           continue;
         }
 
-        // Create officer node
-        const officerNode = this.createOfficerNode(officer, currentLevel + 1);
-        this.nodes.set(officerNode.id, officerNode);
+        // Create officer node (keep the existing node if the officer was reached earlier)
+        const officerNode = this.createOfficerNode(officer, company.company_number, currentLevel + 1);
+        if (!this.addNode(ctx, officerNode)) {
+          continue;
+        }
 
         // Create edge from company to officer
         const edge = this.createEdge(
@@ -171,40 +447,81 @@ class NetworkBuilder {
           'officer',
           `${officer.officer_role} since ${officer.appointed_on}`
         );
-        this.edges.set(edge.id, edge);
+        edge.data = {
+          ...edge.data!,
+          role: officer.officer_role,
+          startDate: officer.appointed_on,
+          endDate: officer.resigned_on
+        };
+        ctx.edges.set(edge.id, edge);
 
         // Try to find other companies this officer is connected to
-        if (currentLevel + 1 < maxHops) {
-          await this.findOfficerConnections(officer, currentLevel + 1, maxHops, filters, rateLimitKey);
+        if (currentLevel + 1 < ctx.maxHops) {
+          connections.push(this.findOfficerConnections(
+            ctx,
+            officer.links?.officer?.appointments,
+            officer.name,
+            officerNode.id,
+            currentLevel + 1
+          ));
         }
       }
+
+      return (await Promise.all(connections)).flat();
     } catch (error) {
+      if (ctx.signal?.aborted) throw error;
       console.error('Error processing officers:', error);
+      return [];
     }
   }
 
   private async processPSCs(
+    ctx: BuildContext,
     company: CompanyProfile,
-    currentLevel: number,
-    maxHops: number,
-    filters: GraphFilters,
-    rateLimitKey: string
-  ): Promise<void> {
+    currentLevel: number
+  ): Promise<CompanyRef[]> {
     try {
-      const pscs = await companiesHouseClient.getCompanyPSCs(
-        company.company_number,
-        { rateLimitKey, itemsPerPage: 25 }
+      const pscs = await this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyPSCs(
+          company.company_number,
+          { rateLimitKey: ctx.rateLimitKey, itemsPerPage: 25 }
+        )
       );
 
+      const owners: CompanyRef[] = [];
+
       for (const psc of pscs.items) {
         // Apply filters
-        if (!filters.showResigned && psc.ceased_on) {
+        if (!includesPeriod(psc.notified_on, psc.ceased_on, ctx.filters)) {
+          continue;
+        }
+
+        // UK-registered corporate PSCs are followed up the ownership chain as company nodes
+        const registrationNumber = getCorporateRegistrationNumber(psc);
+        if (registrationNumber) {
+          owners.push({ companyNumber: registrationNumber, level: currentLevel + 1 });
+
+          const edge = this.createEdge(
+            `company-${company.company_number}`,
+            `company-${registrationNumber}`,
+            'ownership',
+            `Owns ${formatOwnershipBand(getOwnershipBand(psc.natures_of_control))}`
+          );
+          edge.data = {
+            ...edge.data!,
+            description: psc.natures_of_control?.join(', '),
+            startDate: psc.notified_on,
+            endDate: psc.ceased_on
+          };
+          ctx.edges.set(edge.id, edge);
           continue;
         }
 
         // Create PSC node
         const pscNode = this.createPSCNode(psc, currentLevel + 1);
-        this.nodes.set(pscNode.id, pscNode);
+        if (!this.addNode(ctx, pscNode)) {
+          continue;
+        }
 
         // Create edge from company to PSC
         const edge = this.createEdge(
@@ -213,40 +530,43 @@ class NetworkBuilder {
           'psc',
           `Control: ${psc.natures_of_control?.join(', ') || 'Unspecified'}`
         );
-        this.edges.set(edge.id, edge);
+        edge.data = { ...edge.data!, startDate: psc.notified_on, endDate: psc.ceased_on };
+        ctx.edges.set(edge.id, edge);
       }
+
+      return owners;
     } catch (error) {
+      if (ctx.signal?.aborted) throw error;
       console.error('Error processing PSCs:', error);
+      return [];
     }
   }
 
-  private processAddressConnections(company: CompanyProfile, level: number): void {
+  private processAddressConnections(ctx: BuildContext, company: CompanyProfile, level: number): void {
     if (!company.registered_office_address) return;
 
-    const address = company.registered_office_address;
-    const addressString = [
-      address.premises,
-      address.address_line_1,
-      address.address_line_2,
-      address.locality,
-      address.postal_code
-    ].filter(Boolean).join(', ');
+    // Normalised so "Suite 4, 20-22 Wenlock Rd" and "20 - 22 Wenlock Road, Suite 4" share a node
+    const address = normaliseAddress(company.registered_office_address);
+    if (!address.key) return;
 
-    const addressId = `address-${this.hashString(addressString)}`;
+    const addressId = `address-${this.hashString(address.key)}`;
 
     // Create or update address node
-    if (!this.nodes.has(addressId)) {
-      const addressNode: CompanyNode = {
-        id: addressId,
-        type: 'address',
-        data: {
-          label: addressString,
-          address: addressString,
-          level: level + 1
-        },
-        position: { x: 0, y: 0 }
-      };
-      this.nodes.set(addressId, addressNode);
+    const addressNode: CompanyNode = {
+      id: addressId,
+      type: 'address',
+      data: {
+        label: address.label,
+        address: address.label,
+        addressKey: address.buildingKey,
+        postcode: address.postcode,
+        massRegistration: getMassRegistrationMarker(company.registered_office_address, address) || undefined,
+        level: level + 1
+      },
+      position: { x: 0, y: 0 }
+    };
+    if (!this.addNode(ctx, addressNode)) {
+      return;
     }
 
     // Create edge
@@ -256,21 +576,30 @@ class NetworkBuilder {
       'address',
       'Registered Office'
     );
-    this.edges.set(edge.id, edge);
+    ctx.edges.set(edge.id, edge);
   }
 
-  private createOfficerNode(officer: Officer, level: number): CompanyNode {
-    const nodeId = `officer-${this.hashString(officer.name + officer.appointed_on)}`;
+  private createOfficerNode(officer: Officer, companyNumber: string, level: number): CompanyNode {
+    // The officer ID is shared across appointments, so the same director merges into one node.
+    // Without one the node is scoped to this appointment and left to entity resolution to merge.
+    const officerId = this.getOfficerId(officer);
+    const dob = officer.date_of_birth ? `${officer.date_of_birth.year}-${officer.date_of_birth.month}` : '';
+    const nodeId = officerId
+      ? `officer-${officerId}`
+      : `officer-${this.hashString(`${officer.name}|${dob}|${companyNumber}|${officer.appointed_on}`)}`;
     
     return {
       id: nodeId,
       type: 'officer',
       data: {
         label: officer.name,
+        officerId,
         officerName: officer.name,
         officerRole: officer.officer_role,
         appointedDate: officer.appointed_on,
         resignedDate: officer.resigned_on,
+        dateOfBirth: officer.date_of_birth,
+        nationality: officer.nationality,
         level
       },
       position: { x: 0, y: 0 }
@@ -327,45 +656,94 @@ class NetworkBuilder {
     }
   }
 
-  private async findOfficerConnections(
-    officer: Officer,
-    currentLevel: number,
-    maxHops: number,
-    filters: GraphFilters,
-    rateLimitKey: string
-  ): Promise<void> {
-    // This would require officer search functionality
-    // For now, we'll skip this to avoid hitting rate limits
-    // In a production system, you'd implement officer search across companies
+  private getOfficerId(officer: Officer): string | undefined {
+    // links.officer.appointments has the form /officers/{officer_id}/appointments
+    const match = officer.links?.officer?.appointments?.match(/^\/officers\/([^/]+)\/appointments/);
+    return match ? match[1] : undefined;
   }
 
-  private applyLayout(): void {
-    const nodesByLevel: Map<number, CompanyNode[]> = new Map();
-    
-    // Group nodes by level
-    for (const node of this.nodes.values()) {
-      const level = node.data.level;
-      if (!nodesByLevel.has(level)) {
-        nodesByLevel.set(level, []);
-      }
-      nodesByLevel.get(level)!.push(node);
+  private async findOfficerConnections(
+    ctx: BuildContext,
+    appointmentsLink: string | undefined,
+    officerName: string,
+    officerNodeId: string,
+    currentLevel: number
+  ): Promise<CompanyRef[]> {
+    if (!appointmentsLink || ctx.processedOfficers.has(officerNodeId)) {
+      return [];
     }
 
-    // Position nodes hierarchically
-    for (const [level, levelNodes] of nodesByLevel.entries()) {
-      const nodesCount = levelNodes.length;
-      const totalWidth = (nodesCount - 1) * this.layout.nodeSpacing;
-      const startX = -totalWidth / 2;
+    ctx.processedOfficers.add(officerNodeId);
+
+    try {
+      // Nominee and mass directors can hold hundreds of appointments, so page through
+      // them, but never further than the node budget could use
+      const appointments = await this.fetch(ctx, () =>
+        companiesHouseClient.getOfficerAppointments(
+          appointmentsLink,
+          {
+            rateLimitKey: ctx.rateLimitKey,
+            itemsPerPage: 50,
+            maxItems: Math.max(ctx.maxNodes - ctx.nodes.size, 50)
+          }
+        )
+      );
+
+      if (appointments.items.length < appointments.total_results) {
+        ctx.truncated = true;
+      }
+
+      const companies: CompanyRef[] = [];
 
-      levelNodes.forEach((node, index) => {
-        node.position = {
-          x: startX + (index * this.layout.nodeSpacing),
-          y: level * this.layout.levelSpacing
+      for (const appointment of appointments.items) {
+        if (!this.includeAppointment(appointment, ctx.filters)) {
+          continue;
+        }
+
+        const companyNumber = appointment.appointed_to.company_number;
+
+        // Expand the appointed company one hop further out
+        companies.push({ companyNumber, level: currentLevel + 1 });
+
+        const edge = this.createEdge(
+          `company-${companyNumber}`,
+          officerNodeId,
+          'officer',
+          `${appointment.officer_role} since ${appointment.appointed_on || appointment.appointed_before || 'unknown'}`
+        );
+        edge.data = {
+          ...edge.data!,
+          role: appointment.officer_role,
+          startDate: appointment.appointed_on,
+          endDate: appointment.resigned_on
         };
-      });
+        ctx.edges.set(edge.id, edge);
+      }
+
+      return companies;
+    } catch (error) {
+      if (ctx.signal?.aborted) throw error;
+      console.error(`Error fetching appointments for ${officerName}:`, error);
+      return [];
     }
   }
 
+  private includeAppointment(appointment: OfficerAppointment, filters: GraphFilters): boolean {
+    if (!appointment.appointed_to?.company_number) {
+      return false;
+    }
+
+    if (!includesPeriod(appointment.appointed_on || appointment.appointed_before, appointment.resigned_on, filters)) {
+      return false;
+    }
+
+    if (!matchesOfficerRole(appointment.officer_role, filters)) {
+      return false;
+    }
+
+    return true;
+  }
+
   private hashString(str: string): string {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -377,36 +755,45 @@ class NetworkBuilder {
   }
 
   /**
-   * Analyze the built network for insights
+   * Analyze a built network for insights
    */
-  analyzeNetwork(): NetworkAnalysis {
-    const nodes = Array.from(this.nodes.values());
-    const edges = Array.from(this.edges.values());
+  analyzeNetwork(graph: GraphData): NetworkAnalysis {
+    const { nodes, edges } = graph;
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
 
     // Calculate network density
     const maxPossibleEdges = (nodes.length * (nodes.length - 1)) / 2;
     const networkDensity = maxPossibleEdges > 0 ? edges.length / maxPossibleEdges : 0;
 
-    // Find central nodes (most connected)
+    // Find central nodes - betweenness surfaces hub directors bridging otherwise separate groups
+    const nodeIds = nodes.map(n => n.id);
     const connectionCounts = new Map<string, number>();
     for (const edge of edges) {
       connectionCounts.set(edge.source, (connectionCounts.get(edge.source) || 0) + 1);
       connectionCounts.set(edge.target, (connectionCounts.get(edge.target) || 0) + 1);
     }
 
-    const centralNodes = Array.from(connectionCounts.entries())
-      .map(([nodeId, connections]) => {
-        const node = this.nodes.get(nodeId);
+    const betweenness = betweennessCentrality(nodeIds, edges);
+    const eigenvector = eigenvectorCentrality(nodeIds, edges);
+
+    const centralNodes = nodes
+      .map(node => {
+        const connections = connectionCounts.get(node.id) || 0;
         return {
-          id: nodeId,
-          name: node?.data.label || nodeId,
+          id: node.id,
+          name: node.data.label || node.id,
           connections,
-          centrality: connections / (nodes.length - 1)
+          centrality: nodes.length > 1 ? connections / (nodes.length - 1) : 0,
+          betweenness: betweenness.get(node.id) || 0,
+          eigenvector: eigenvector.get(node.id) || 0
         };
       })
-      .sort((a, b) => b.connections - a.connections)
+      .filter(node => node.connections > 0)
+      .sort((a, b) => b.betweenness - a.betweenness || b.connections - a.connections)
       .slice(0, 5);
 
+    const clusters = this.buildClusters(nodesById, edges, eigenvector);
+
     // Identify risk factors
     const riskFactors: NetworkAnalysis['riskFactors'] = [];
     
@@ -420,15 +807,186 @@ class NetworkBuilder {
       });
     }
 
+    // Circular ownership - companies that ultimately own themselves through PSC/ownership links
+    const controlEdges = edges.filter(e => e.data?.relationship === 'ownership' || e.data?.relationship === 'psc');
+    for (const cycle of findDirectedCycles(controlEdges)) {
+      const names = cycle.nodes.map(id => nodesById.get(id)?.data.label || id);
+
+      riskFactors.push({
+        type: 'circular_ownership',
+        description: `Circular ownership: ${[...names, names[0]].join(' → ')}`,
+        affectedNodes: cycle.nodes,
+        affectedEdges: cycle.edges,
+        severity: 'high'
+      });
+    }
+
+    // Insolvency cases, weighted by case type and how recently they ended
+    for (const node of nodes) {
+      const insolvency = node.data.insolvency;
+      if (!insolvency || insolvency.caseCount === 0) continue;
+
+      const severity = getInsolvencySeverity(insolvency);
+      const caseDescriptions = insolvency.cases.map(c =>
+        `${c.label} (${c.startDate || 'date unknown'}${c.active ? ', ongoing' : c.endDate ? ` to ${c.endDate}` : ''})`
+      );
+
+      riskFactors.push({
+        type: 'insolvency_history',
+        description: `${node.data.label}: ${caseDescriptions.join('; ')}`,
+        affectedNodes: [node.id],
+        severity: severity || 'low'
+      });
+    }
+
+    // Bursts of appointments/resignations - director churn shortly before insolvency is escalated
+    for (const burst of findChangeBursts(graph)) {
+      const company = nodesById.get(burst.companyNodeId);
+      const followingCase = company?.data.insolvency?.cases.find(c =>
+        c.startDate
+        && c.startDate >= burst.start
+        && daysBetween(burst.end, c.startDate) <= PRE_INSOLVENCY_WINDOW_DAYS
+      );
+
+      const changes = [
+        burst.appointments > 0 ? `${burst.appointments} appointment${burst.appointments === 1 ? '' : 's'}` : null,
+        burst.resignations > 0 ? `${burst.resignations} resignation${burst.resignations === 1 ? '' : 's'}` : null
+      ].filter(Boolean).join(' and ');
+
+      riskFactors.push({
+        type: 'rapid_changes',
+        description: `${company?.data.label || burst.companyNodeId}: ${changes} between ${burst.start} and ${burst.end}`
+          + (followingCase ? `, followed by ${followingCase.label} from ${followingCase.startDate}` : ''),
+        affectedNodes: [burst.companyNodeId, ...burst.nodeIds],
+        affectedEdges: burst.edgeIds,
+        severity: followingCase ? 'high' : 'medium'
+      });
+    }
+
+    // Dormant and dissolved companies, weighted towards those closest to the root
+    const dormancy = summarizeDormancy(graph);
+    if (dormancy.companies.length > 0) {
+      const countOfKind = (kind: string) => dormancy.companies.filter(c => c.kind === kind).length;
+      const breakdown = [
+        [countOfKind('dissolved'), 'dissolved'],
+        [countOfKind('dormant'), 'filing dormant accounts'],
+        [countOfKind('overdue'), 'with overdue filings']
+      ].filter(([n]) => n).map(([n, label]) => `${n} ${label}`).join(', ');
+      const nearest = dormancy.companies[0];
+
+      riskFactors.push({
+        type: 'dormant_companies',
+        description: `${dormancy.companies.length} of ${dormancy.totalCompanies} companies are dormant, dissolved or behind on filings (${breakdown}). `
+          + `Closest: ${nearest.label} (${nearest.level === 0 ? 'root company' : `${nearest.level} hop${nearest.level === 1 ? '' : 's'}`}, ${nearest.reasons.join(', ').toLowerCase()})`,
+        affectedNodes: dormancy.companies.map(c => c.nodeId),
+        severity: dormancy.score >= 0.5 ? 'high'
+          : dormancy.score >= 0.25 || dormancy.rootAffected ? 'medium'
+          : 'low'
+      });
+    }
+
+    // Formation-agent and virtual-office addresses shared by many companies - a common shell-company trait
+    const companiesByBuilding = new Map<string, Set<string>>();
+    for (const edge of edges) {
+      if (edge.data?.relationship !== 'address') continue;
+      const buildingKey = nodesById.get(edge.target)?.data.addressKey;
+      if (!buildingKey) continue;
+      if (!companiesByBuilding.has(buildingKey)) companiesByBuilding.set(buildingKey, new Set());
+      companiesByBuilding.get(buildingKey)!.add(edge.source);
+    }
+
+    const flaggedBuildings = new Set<string>();
+    for (const node of nodes) {
+      const buildingKey = node.data.addressKey;
+      if (node.type !== 'address' || !buildingKey || flaggedBuildings.has(buildingKey)) continue;
+
+      // Suites and units of one building are separate nodes but one registration address
+      const buildingNodes = nodes.filter(n => n.type === 'address' && n.data.addressKey === buildingKey);
+      const addressNodeIds = buildingNodes.map(n => n.id);
+      const companyIds = Array.from(companiesByBuilding.get(buildingKey) || []);
+      const registered = Math.max(...buildingNodes.map(n => n.data.registeredCompanyCount || 0));
+      const marker = buildingNodes.find(n => n.data.massRegistration)?.data.massRegistration;
+
+      if (!marker && registered < MASS_REGISTRATION_MIN_COMPANIES && companyIds.length < MASS_REGISTRATION_MIN_IN_GRAPH) {
+        continue;
+      }
+      flaggedBuildings.add(buildingKey);
+
+      const reasons = [
+        marker?.reason,
+        registered >= MASS_REGISTRATION_MIN_COMPANIES ? `${registered} cached companies registered there` : null,
+        companyIds.length >= MASS_REGISTRATION_MIN_IN_GRAPH ? `${companyIds.length} companies in this network share it` : null
+      ].filter(Boolean);
+
+      riskFactors.push({
+        type: 'mass_registration_address',
+        description: `${node.data.label}: ${reasons.join('; ')}`,
+        affectedNodes: [...addressNodeIds, ...companyIds],
+        affectedEdges: edges
+          .filter(e => e.data?.relationship === 'address' && addressNodeIds.includes(e.target))
+          .map(e => e.id),
+        severity: registered >= MASS_REGISTRATION_HIGH_COMPANIES || (marker && companyIds.length >= MASS_REGISTRATION_MIN_IN_GRAPH)
+          ? 'high'
+          : marker || registered >= MASS_REGISTRATION_MIN_COMPANIES ? 'medium' : 'low'
+      });
+    }
+
     return {
       totalNodes: nodes.length,
       totalEdges: edges.length,
       networkDensity,
       centralNodes,
-      clusters: [], // Would need clustering algorithm
+      clusters,
       riskFactors
     };
   }
+
+  private buildClusters(
+    nodesById: Map<string, CompanyNode>,
+    edges: RelationshipEdge[],
+    eigenvector: Map<string, number>
+  ): NetworkAnalysis['clusters'] {
+    const communities = new Map<string, string[]>();
+    for (const [nodeId, community] of detectCommunities(Array.from(nodesById.keys()), edges)) {
+      if (!communities.has(community)) {
+        communities.set(community, []);
+      }
+      communities.get(community)!.push(nodeId);
+    }
+
+    return Array.from(communities.values())
+      .filter(members => members.length > 1)
+      .sort((a, b) => b.length - a.length)
+      .map((members, index) => {
+        const memberNodes = members.map(id => nodesById.get(id)!);
+        const countOf = (type: NodeType) => memberNodes.filter(n => n.type === type).length;
+
+        // Name the cluster after its most influential company, falling back to any member
+        const byInfluence = [...memberNodes].sort(
+          (a, b) => (eigenvector.get(b.id) || 0) - (eigenvector.get(a.id) || 0)
+        );
+        const anchor = byInfluence.find(n => n.type === 'company') || byInfluence[0];
+
+        const parts = [
+          [countOf('company'), 'compan', 'y', 'ies'],
+          [countOf('officer'), 'officer', '', 's'],
+          [countOf('psc'), 'PSC', '', 's'],
+          [countOf('address'), 'address', '', 'es']
+        ] as const;
+
+        const description = parts
+          .filter(([count]) => count > 0)
+          .map(([count, stem, one, many]) => `${count} ${stem}${count === 1 ? one : many}`)
+          .join(', ');
+
+        return {
+          id: `cluster-${index + 1}`,
+          label: `${anchor.data.label} group`,
+          nodes: members,
+          description
+        };
+      });
+  }
 }
 
 export const networkBuilder = new NetworkBuilder();
\ No newline at end of file
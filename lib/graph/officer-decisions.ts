@@ -0,0 +1,41 @@
+// Analyst officer-match decisions - request helpers shared by the graph routes
+
+import { getTeamOfficerMatchDecisions } from '@/lib/db/queries-nexus';
+import type { OfficerMatchDecision } from '@/lib/db/schema-nexus';
+import type { OfficerMatchRuling } from './entity-resolution';
+
+const OFFICER_NODE_PATTERN = /^officer-[A-Za-z0-9_-]{1,90}$/;
+
+export function isOfficerNodeId(value: unknown): value is string {
+  return typeof value === 'string' && OFFICER_NODE_PATTERN.test(value);
+}
+
+/**
+ * The team's decisions as rulings for entity resolution. A failed lookup only
+ * costs the analyst overrides, so the build carries on with scores alone.
+ */
+export async function getTeamOfficerRulings(teamId: number): Promise<OfficerMatchRuling[]> {
+  try {
+    const decisions = await getTeamOfficerMatchDecisions(teamId);
+    return decisions.map(decision => ({
+      nodeIds: [decision.officerNodeId, decision.matchedNodeId],
+      decision: decision.decision as OfficerMatchRuling['decision']
+    }));
+  } catch (error) {
+    console.error('Officer match decision lookup error:', error);
+    return [];
+  }
+}
+
+export function toOfficerMatchDecisionResponse(decision: OfficerMatchDecision) {
+  return {
+    id: decision.id,
+    nodeIds: [decision.officerNodeId, decision.matchedNodeId] as [string, string],
+    decision: decision.decision as OfficerMatchRuling['decision'],
+    confidence: decision.confidence === null ? null : Number(decision.confidence),
+    note: decision.note,
+    decidedBy: decision.decidedBy,
+    createdAt: decision.createdAt.toISOString(),
+    updatedAt: decision.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,601 @@
+// Path finder for "how are these two entities connected" queries
+
+import pLimit, { type LimitFunction } from 'p-limit';
+import { normaliseAddress } from '@/lib/companies-house/address';
+import { companiesHouseClient } from '@/lib/companies-house/client';
+import { getCorporateRegistrationNumber } from '@/lib/companies-house/ownership';
+import type { CompanyProfile, PersonWithSignificantControl } from '@/lib/companies-house/types';
+import type { CompanyNode, RelationshipEdge, GraphData, RelationshipType } from './types';
+import { applyGraphLayout } from './layouts';
+
+export type PathEndpoint =
+  | { type: 'company'; companyNumber: string }
+  | { type: 'officer'; officerId: string };
+
+export interface PathSearchOptions {
+  k?: number; // Number of shortest paths to return
+  maxDepth?: number; // Longest path considered, in edges
+  includeResigned?: boolean;
+  relationships?: {
+    officers?: boolean;
+    pscs?: boolean;
+    addresses?: boolean;
+  };
+  rateLimitKey?: string;
+  signal?: AbortSignal;
+  maxExpansions?: number; // Budget of entities expanded (each costs 1-3 API calls)
+}
+
+export interface ConnectingPath {
+  length: number;
+  nodes: string[];
+  edges: string[];
+}
+
+export interface PathSearchResult {
+  graph: GraphData;
+  paths: ConnectingPath[];
+  expansions: number;
+  truncated: boolean;
+}
+
+interface Vertex {
+  id: string;
+  type: CompanyNode['type'];
+  label: string;
+  data: Partial<CompanyNode['data']>;
+}
+
+interface Link {
+  neighbour: string;
+  edge: RelationshipEdge;
+}
+
+// Distances from one end of the search, and the level it expands next
+interface SearchSide {
+  origin: string;
+  distances: Map<string, number>;
+  frontier: string[];
+}
+
+// All state for a single search, so concurrent searches never share maps
+interface SearchContext {
+  vertices: Map<string, Vertex>;
+  links: Map<string, Link[]>;
+  expanded: Set<string>;
+  includeResigned: boolean;
+  relationships: Required<NonNullable<PathSearchOptions['relationships']>>;
+  rateLimitKey: string;
+  signal?: AbortSignal;
+  limit: LimitFunction;
+  expansions: number;
+  maxExpansions: number;
+  truncated: boolean;
+}
+
+const DEFAULT_K = 3;
+const DEFAULT_MAX_DEPTH = 6;
+const DEFAULT_MAX_EXPANSIONS = 150;
+const DEFAULT_CONCURRENCY = 4;
+
+class PathFinder {
+  /**
+   * Find up to k shortest paths between two companies, or a company and an officer,
+   * through officers, PSCs and shared registered addresses.
+   * Runs a bidirectional breadth-first search, always expanding the smaller frontier,
+   * and ranks paths over the discovered links with Yen's algorithm.
+   */
+  async findPaths(
+    from: PathEndpoint,
+    to: PathEndpoint,
+    options: PathSearchOptions = {}
+  ): Promise<PathSearchResult> {
+    const k = options.k ?? DEFAULT_K;
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+
+    const ctx: SearchContext = {
+      vertices: new Map(),
+      links: new Map(),
+      expanded: new Set(),
+      includeResigned: options.includeResigned ?? true,
+      relationships: {
+        officers: options.relationships?.officers ?? true,
+        pscs: options.relationships?.pscs ?? true,
+        addresses: options.relationships?.addresses ?? true
+      },
+      rateLimitKey: options.rateLimitKey || 'graph',
+      signal: options.signal,
+      limit: pLimit(DEFAULT_CONCURRENCY),
+      expansions: 0,
+      maxExpansions: options.maxExpansions ?? DEFAULT_MAX_EXPANSIONS,
+      truncated: false
+    };
+
+    // Resolving the endpoints up front surfaces "Not Found" before any traversal
+    const [source, target] = await Promise.all([
+      this.resolveEndpoint(ctx, from),
+      this.resolveEndpoint(ctx, to)
+    ]);
+
+    const forward = this.createSide(source);
+    const backward = this.createSide(target);
+
+    let paths = source === target ? [[source]] : [];
+    let depth = 0;
+
+    while (source !== target && depth < maxDepth && forward.frontier.length > 0 && backward.frontier.length > 0) {
+      this.throwIfAborted(ctx);
+
+      const side = forward.frontier.length <= backward.frontier.length ? forward : backward;
+      await this.expandSide(ctx, side);
+      depth++;
+
+      // Between them the two sides have now expanded every vertex on any path of up to
+      // `depth` edges, so the paths found at that length are final
+      paths = this.kShortestPaths(ctx, source, target, k, depth);
+      if (paths.length >= k || ctx.truncated) break;
+    }
+
+    // Out of levels or budget: fill up with longer paths through the links already found
+    if (source !== target && paths.length < k && depth < maxDepth) {
+      paths = this.kShortestPaths(ctx, source, target, k, maxDepth);
+    }
+
+    const selected = paths.slice(0, k);
+
+    return {
+      ...this.buildGraph(ctx, selected, source, target),
+      expansions: ctx.expansions,
+      truncated: ctx.truncated
+    };
+  }
+
+  private throwIfAborted(ctx: SearchContext): void {
+    if (ctx.signal?.aborted) {
+      throw new Error('Aborted: path search was cancelled');
+    }
+  }
+
+  private async fetch<T>(ctx: SearchContext, request: () => Promise<T>): Promise<T> {
+    this.throwIfAborted(ctx);
+    return ctx.limit(() => {
+      this.throwIfAborted(ctx);
+      return request();
+    });
+  }
+
+  private createSide(origin: string): SearchSide {
+    return {
+      origin,
+      distances: new Map([[origin, 0]]),
+      frontier: [origin]
+    };
+  }
+
+  private async resolveEndpoint(ctx: SearchContext, endpoint: PathEndpoint): Promise<string> {
+    if (endpoint.type === 'company') {
+      const company = await this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyProfile(endpoint.companyNumber, { rateLimitKey: ctx.rateLimitKey })
+      );
+      return this.addCompanyVertex(ctx, company.company_number, company.company_name, company);
+    }
+
+    // Only the officer's name is needed here; the first page shares the cache with expandOfficer
+    const appointments = await this.fetch(ctx, () =>
+      companiesHouseClient.getOfficerAppointments(endpoint.officerId, { rateLimitKey: ctx.rateLimitKey, maxItems: 50 })
+    );
+    const id = `officer-${endpoint.officerId}`;
+    this.addVertex(ctx, {
+      id,
+      type: 'officer',
+      label: appointments.name,
+      data: { officerId: endpoint.officerId, officerName: appointments.name }
+    });
+    return id;
+  }
+
+  /**
+   * Expand one whole level of a search side
+   */
+  private async expandSide(ctx: SearchContext, side: SearchSide): Promise<void> {
+    const next: string[] = [];
+
+    await Promise.all(side.frontier.map(async vertexId => {
+      const links = await this.getLinks(ctx, vertexId);
+      const distance = side.distances.get(vertexId)! + 1;
+
+      for (const { neighbour } of links) {
+        if (!side.distances.has(neighbour)) {
+          side.distances.set(neighbour, distance);
+          next.push(neighbour);
+        }
+      }
+    }));
+
+    side.frontier = next;
+  }
+
+  /**
+   * Neighbours of a vertex, fetching from Companies House the first time it is expanded.
+   * PSCs and addresses have no lookup API, so they only link to companies already seen.
+   */
+  private async getLinks(ctx: SearchContext, vertexId: string): Promise<Link[]> {
+    const vertex = ctx.vertices.get(vertexId)!;
+
+    if ((vertex.type === 'company' || vertex.type === 'officer') && !ctx.expanded.has(vertexId)) {
+      if (this.consumeExpansion(ctx)) {
+        ctx.expanded.add(vertexId);
+        if (vertex.type === 'company') {
+          await this.expandCompany(ctx, vertex);
+        } else {
+          await this.expandOfficer(ctx, vertex);
+        }
+      }
+    }
+
+    return ctx.links.get(vertexId) || [];
+  }
+
+  private consumeExpansion(ctx: SearchContext): boolean {
+    if (ctx.expansions >= ctx.maxExpansions) {
+      ctx.truncated = true;
+      return false;
+    }
+    ctx.expansions++;
+    return true;
+  }
+
+  private async expandCompany(ctx: SearchContext, vertex: Vertex): Promise<void> {
+    const companyNumber = vertex.data.companyNumber!;
+    const { rateLimitKey } = ctx;
+
+    const tasks: Promise<void>[] = [];
+
+    if (ctx.relationships.officers) {
+      tasks.push(this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyOfficers(companyNumber, { rateLimitKey, itemsPerPage: 100 })
+      ).then(officers => {
+        for (const officer of officers.items) {
+          if (!ctx.includeResigned && officer.resigned_on) continue;
+
+          const match = officer.links?.officer?.appointments?.match(/^\/officers\/([^/]+)\/appointments/);
+          if (!match) continue;
+
+          const officerVertex = this.addVertex(ctx, {
+            id: `officer-${match[1]}`,
+            type: 'officer',
+            label: officer.name,
+            data: { officerId: match[1], officerName: officer.name, officerRole: officer.officer_role }
+          });
+
+          this.link(ctx, vertex.id, officerVertex, 'officer', `${officer.officer_role} since ${officer.appointed_on}`, {
+            role: officer.officer_role,
+            startDate: officer.appointed_on,
+            endDate: officer.resigned_on
+          });
+        }
+      }));
+    }
+
+    if (ctx.relationships.pscs) {
+      tasks.push(this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyPSCs(companyNumber, { rateLimitKey, itemsPerPage: 100 })
+      ).then(pscs => {
+        for (const psc of pscs.items) {
+          if (!ctx.includeResigned && psc.ceased_on) continue;
+          this.linkPSC(ctx, vertex.id, psc);
+        }
+      }));
+    }
+
+    if (ctx.relationships.addresses) {
+      tasks.push(this.fetch(ctx, () =>
+        companiesHouseClient.getCompanyProfile(companyNumber, { rateLimitKey })
+      ).then(company => this.linkAddress(ctx, vertex.id, company)));
+    }
+
+    // A failed lookup only loses that relationship type, it doesn't fail the search
+    const results = await Promise.allSettled(tasks);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        if (ctx.signal?.aborted) throw result.reason;
+        console.error(`Error expanding company ${companyNumber}:`, result.reason);
+      }
+    }
+  }
+
+  private async expandOfficer(ctx: SearchContext, vertex: Vertex): Promise<void> {
+    try {
+      const appointments = await this.fetch(ctx, () =>
+        companiesHouseClient.getOfficerAppointments(vertex.data.officerId!, {
+          rateLimitKey: ctx.rateLimitKey,
+          itemsPerPage: 50
+        })
+      );
+
+      for (const appointment of appointments.items) {
+        if (!appointment.appointed_to?.company_number) continue;
+        if (!ctx.includeResigned && appointment.resigned_on) continue;
+
+        const companyVertex = this.addCompanyVertex(
+          ctx,
+          appointment.appointed_to.company_number,
+          appointment.appointed_to.company_name || appointment.appointed_to.company_number
+        );
+        ctx.vertices.get(companyVertex)!.data.companyStatus ??= appointment.appointed_to.company_status;
+
+        const startDate = appointment.appointed_on || appointment.appointed_before;
+        this.link(ctx, companyVertex, vertex.id, 'officer', `${appointment.officer_role} since ${startDate || 'unknown'}`, {
+          role: appointment.officer_role,
+          startDate,
+          endDate: appointment.resigned_on
+        });
+      }
+    } catch (error) {
+      if (ctx.signal?.aborted) throw error;
+      console.error(`Error expanding officer ${vertex.data.officerId}:`, error);
+    }
+  }
+
+  private linkPSC(ctx: SearchContext, companyVertexId: string, psc: PersonWithSignificantControl): void {
+    const dates = { startDate: psc.notified_on, endDate: psc.ceased_on };
+
+    const registrationNumber = getCorporateRegistrationNumber(psc);
+    if (registrationNumber) {
+      const ownerVertex = this.addCompanyVertex(ctx, registrationNumber, psc.name);
+      this.link(ctx, companyVertexId, ownerVertex, 'ownership', 'Corporate PSC', dates);
+      return;
+    }
+
+    // Keyed by name and birth month rather than notification date (as NetworkBuilder does)
+    // so the same person joins up across the companies they control
+    const dob = psc.date_of_birth ? `${psc.date_of_birth.year}-${psc.date_of_birth.month}` : '';
+    const pscVertex = this.addVertex(ctx, {
+      id: `psc-${this.hashString(psc.name.toLowerCase() + dob)}`,
+      type: 'psc',
+      label: psc.name,
+      data: { pscName: psc.name, controlType: psc.natures_of_control }
+    });
+    this.link(ctx, companyVertexId, pscVertex, 'psc', `Control: ${psc.natures_of_control?.join(', ') || 'Unspecified'}`, dates);
+  }
+
+  private linkAddress(ctx: SearchContext, companyVertexId: string, company: CompanyProfile): void {
+    if (!company.registered_office_address) return;
+
+    // Keyed on the normalised address, as in NetworkBuilder, so differently formatted
+    // copies of the same address meet at one vertex
+    const address = normaliseAddress(company.registered_office_address);
+    if (!address.key) return;
+
+    const addressVertex = this.addVertex(ctx, {
+      id: `address-${this.hashString(address.key)}`,
+      type: 'address',
+      label: address.label,
+      data: { address: address.label, addressKey: address.buildingKey, postcode: address.postcode }
+    });
+    this.link(ctx, companyVertexId, addressVertex, 'address', 'Registered Office');
+  }
+
+  private addCompanyVertex(
+    ctx: SearchContext,
+    companyNumber: string,
+    name: string,
+    profile?: CompanyProfile
+  ): string {
+    return this.addVertex(ctx, {
+      id: `company-${companyNumber}`,
+      type: 'company',
+      label: name,
+      data: {
+        companyNumber,
+        companyName: name,
+        companyStatus: profile?.company_status,
+        companyType: profile?.type
+      }
+    });
+  }
+
+  private addVertex(ctx: SearchContext, vertex: Vertex): string {
+    if (!ctx.vertices.has(vertex.id)) {
+      ctx.vertices.set(vertex.id, vertex);
+    }
+    return vertex.id;
+  }
+
+  /**
+   * Record an undirected link. Edges point from the company to the related entity,
+   * as in NetworkBuilder.
+   */
+  private link(
+    ctx: SearchContext,
+    companyVertexId: string,
+    otherVertexId: string,
+    relationship: RelationshipType,
+    label: string,
+    extra: Partial<NonNullable<RelationshipEdge['data']>> = {}
+  ): void {
+    if (companyVertexId === otherVertexId) return;
+
+    const edge: RelationshipEdge = {
+      id: `${companyVertexId}-${otherVertexId}`,
+      source: companyVertexId,
+      target: otherVertexId,
+      type: 'default',
+      data: { relationship, label, ...extra }
+    };
+
+    for (const [from, to] of [[companyVertexId, otherVertexId], [otherVertexId, companyVertexId]]) {
+      if (!ctx.links.has(from)) {
+        ctx.links.set(from, []);
+      }
+      const links = ctx.links.get(from)!;
+      if (!links.some(l => l.neighbour === to)) {
+        links.push({ neighbour: to, edge });
+      }
+    }
+  }
+
+  private linkKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  /**
+   * Shortest path over the discovered links by breadth-first search, avoiding the blocked
+   * vertices and links. Neighbours are visited in ID order so ties resolve the same way
+   * on every run.
+   */
+  private shortestPath(
+    ctx: SearchContext,
+    from: string,
+    to: string,
+    blockedVertices: Set<string>,
+    blockedLinks: Set<string>,
+    maxLength: number
+  ): string[] | null {
+    const parents = new Map<string, string>();
+    const visited = new Set([from]);
+    let frontier = [from];
+
+    for (let length = 0; length < maxLength && frontier.length > 0; length++) {
+      const next: string[] = [];
+
+      for (const vertexId of frontier) {
+        const neighbours = (ctx.links.get(vertexId) || []).map(link => link.neighbour).sort();
+
+        for (const neighbour of neighbours) {
+          if (visited.has(neighbour) || blockedVertices.has(neighbour)) continue;
+          if (blockedLinks.has(this.linkKey(vertexId, neighbour))) continue;
+
+          visited.add(neighbour);
+          parents.set(neighbour, vertexId);
+
+          if (neighbour === to) {
+            const path = [to];
+            while (path[0] !== from) path.unshift(parents.get(path[0])!);
+            return path;
+          }
+          next.push(neighbour);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * Up to k shortest simple paths of at most maxLength edges, by Yen's algorithm: each
+   * path after the first is the shortest deviation from the ones already chosen, so a
+   * second-best route through a different officer is found, not just ties for the shortest
+   */
+  private kShortestPaths(ctx: SearchContext, source: string, target: string, k: number, maxLength: number): string[][] {
+    const first = this.shortestPath(ctx, source, target, new Set(), new Set(), maxLength);
+    if (!first) return [];
+
+    const paths = [first];
+    const chosen = new Set([first.join('>')]);
+    const candidates = new Map<string, string[]>();
+
+    while (paths.length < k) {
+      const previous = paths[paths.length - 1];
+
+      for (let i = 0; i < previous.length - 1; i++) {
+        const root = previous.slice(0, i + 1);
+
+        // Leave the root by a link no chosen path with the same root has taken, without revisiting the root
+        const blockedLinks = new Set<string>();
+        for (const path of paths) {
+          if (path.length > i + 1 && root.every((vertexId, index) => path[index] === vertexId)) {
+            blockedLinks.add(this.linkKey(path[i], path[i + 1]));
+          }
+        }
+
+        const spur = this.shortestPath(ctx, previous[i], target, new Set(root.slice(0, -1)), blockedLinks, maxLength - i);
+        if (!spur) continue;
+
+        const candidate = [...root.slice(0, -1), ...spur];
+        const key = candidate.join('>');
+        if (!chosen.has(key)) candidates.set(key, candidate);
+      }
+
+      if (candidates.size === 0) break;
+
+      const [key, best] = Array.from(candidates.entries()).reduce((a, b) =>
+        b[1].length < a[1].length || (b[1].length === a[1].length && b[0] < a[0]) ? b : a
+      );
+      candidates.delete(key);
+      chosen.add(key);
+      paths.push(best);
+    }
+
+    return paths;
+  }
+
+  private buildGraph(
+    ctx: SearchContext,
+    paths: string[][],
+    source: string,
+    target: string
+  ): { graph: GraphData; paths: ConnectingPath[] } {
+    const nodes = new Map<string, CompanyNode>();
+    const edges = new Map<string, RelationshipEdge>();
+    const connectingPaths: ConnectingPath[] = [];
+
+    const addNode = (vertexId: string, level: number) => {
+      const existing = nodes.get(vertexId);
+      if (existing) {
+        existing.data.level = Math.min(existing.data.level, level);
+        return;
+      }
+      const vertex = ctx.vertices.get(vertexId)!;
+      nodes.set(vertexId, {
+        id: vertexId,
+        type: vertex.type,
+        data: { ...vertex.data, label: vertex.label, level },
+        position: { x: 0, y: 0 }
+      });
+    };
+
+    paths.forEach((path, pathIndex) => {
+      const pathEdges: string[] = [];
+
+      path.forEach((vertexId, position) => {
+        addNode(vertexId, position);
+        if (position === 0) return;
+
+        const link = (ctx.links.get(path[position - 1]) || []).find(l => l.neighbour === vertexId)!;
+        const edge = edges.get(link.edge.id) || { ...link.edge, data: { ...link.edge.data!, pathIndices: [] } };
+        edge.data!.pathIndices!.push(pathIndex);
+        edges.set(edge.id, edge);
+        pathEdges.push(edge.id);
+      });
+
+      connectingPaths.push({ length: path.length - 1, nodes: path, edges: pathEdges });
+    });
+
+    // Endpoints are always returned, even when no path was found
+    addNode(source, 0);
+    addNode(target, paths.length > 0 ? Math.max(...paths.map(p => p.length - 1)) : 1);
+
+    const graph: GraphData = {
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values())
+    };
+    applyGraphLayout(graph.nodes, graph.edges, { type: 'hierarchical', direction: 'LR' });
+
+    return { graph, paths: connectingPaths };
+  }
+
+  private hashString(str: string): string {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    return Math.abs(hash).toString();
+  }
+}
+
+export const pathFinder = new PathFinder();
@@ -0,0 +1,204 @@
+// Saved network views - request helpers shared by the /api/graph/views routes
+
+import crypto from 'crypto';
+import { createServerSupabaseClient } from '@/lib/auth/supabase-client';
+import { getTeamMembershipByEmail } from '@/lib/db/queries-nexus';
+import type { SavedNetworkView } from '@/lib/db/schema-nexus';
+import type {
+  GraphData,
+  GraphFilters,
+  GraphLayout,
+  GraphViewport,
+  NetworkAnalysis,
+  NetworkAnnotation
+} from './types';
+
+export interface TeamContext {
+  authUserId: string;
+  userId: number;
+  teamId: number;
+  authorName: string;
+  canEdit: boolean; // Viewers can open and re-run views but not change them
+}
+
+export interface SavedViewInput {
+  name?: string;
+  description?: string | null;
+  companyNumber?: string;
+  graph?: GraphData;
+  analysis?: NetworkAnalysis | null;
+  filters?: GraphFilters;
+  layout?: GraphLayout;
+  viewport?: GraphViewport | null;
+  annotations?: NetworkAnnotation[];
+  snapshotAt?: string;
+}
+
+const MAX_VIEW_NODES = 2000;
+const MAX_ANNOTATIONS = 200;
+const VIEW_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+/**
+ * Resolve the signed-in user's team. Returns null when not signed in or not in a team.
+ */
+export async function getTeamContext(): Promise<TeamContext | null> {
+  const supabase = createServerSupabaseClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user?.email) return null;
+
+  const membership = await getTeamMembershipByEmail(user.email);
+  if (!membership) return null;
+
+  return {
+    authUserId: user.id,
+    userId: membership.userId,
+    teamId: membership.teamId,
+    authorName: user.user_metadata?.full_name || user.email,
+    canEdit: membership.role !== 'viewer'
+  };
+}
+
+export function generateShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+// Checked before querying so malformed IDs are a 404 rather than a database error
+export function isViewId(value: string): boolean {
+  return VIEW_ID_PATTERN.test(value);
+}
+
+export function isShareToken(value: string): boolean {
+  return SHARE_TOKEN_PATTERN.test(value);
+}
+
+function isGraphData(value: unknown): value is GraphData {
+  const graph = value as GraphData;
+  return !!graph
+    && Array.isArray(graph.nodes)
+    && Array.isArray(graph.edges)
+    && graph.nodes.every(node => typeof node?.id === 'string' && typeof node.type === 'string' && !!node.data && !!node.position)
+    && graph.edges.every(edge => typeof edge?.id === 'string' && typeof edge.source === 'string' && typeof edge.target === 'string');
+}
+
+function isViewport(value: unknown): value is GraphViewport {
+  const viewport = value as GraphViewport;
+  return !!viewport
+    && Number.isFinite(viewport.x)
+    && Number.isFinite(viewport.y)
+    && Number.isFinite(viewport.zoom)
+    && viewport.zoom > 0;
+}
+
+function isAnnotation(value: unknown): value is NetworkAnnotation {
+  const annotation = value as NetworkAnnotation;
+  return !!annotation
+    && typeof annotation.id === 'string'
+    && typeof annotation.text === 'string'
+    && annotation.text.length <= 2000
+    && (annotation.nodeId === undefined || typeof annotation.nodeId === 'string');
+}
+
+/**
+ * Validate a create (all fields required) or update (any subset) payload.
+ * Returns an error message, or null when the input is acceptable.
+ */
+export function validateSavedViewInput(input: SavedViewInput, mode: 'create' | 'update'): string | null {
+  const required = mode === 'create';
+
+  if (required || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 200) {
+      return 'name is required and must be at most 200 characters';
+    }
+  }
+
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be a string';
+  }
+
+  if (required && (typeof input.companyNumber !== 'string' || !/^[A-Z0-9]{2,8}$/i.test(input.companyNumber))) {
+    return 'companyNumber must be a valid company number';
+  }
+
+  if (required || input.graph !== undefined) {
+    if (!isGraphData(input.graph)) {
+      return 'graph must contain well-formed nodes and edges arrays';
+    }
+    if (input.graph.nodes.length > MAX_VIEW_NODES) {
+      return `graph cannot have more than ${MAX_VIEW_NODES} nodes`;
+    }
+  }
+
+  if (required && (!input.filters || typeof input.filters !== 'object')) {
+    return 'filters are required';
+  }
+
+  if (required || input.layout !== undefined) {
+    if (!input.layout || typeof input.layout.type !== 'string') {
+      return 'layout must include a type';
+    }
+  }
+
+  if (input.viewport !== undefined && input.viewport !== null && !isViewport(input.viewport)) {
+    return 'viewport must have numeric x, y and a positive zoom';
+  }
+
+  if (input.annotations !== undefined) {
+    if (!Array.isArray(input.annotations) || input.annotations.length > MAX_ANNOTATIONS || !input.annotations.every(isAnnotation)) {
+      return `annotations must be an array of at most ${MAX_ANNOTATIONS} { id, text, nodeId? } objects`;
+    }
+  }
+
+  if (input.snapshotAt !== undefined && Number.isNaN(Date.parse(input.snapshotAt))) {
+    return 'snapshotAt must be an ISO timestamp';
+  }
+
+  return null;
+}
+
+/**
+ * Stamp annotations with the author and time, keeping those on any existing ones
+ */
+export function stampAnnotations(
+  annotations: NetworkAnnotation[],
+  existing: NetworkAnnotation[],
+  authorName: string
+): NetworkAnnotation[] {
+  const existingById = new Map(existing.map(annotation => [annotation.id, annotation]));
+  const now = new Date().toISOString();
+
+  return annotations.map(annotation => {
+    const previous = existingById.get(annotation.id);
+    return {
+      id: annotation.id,
+      ...(annotation.nodeId && { nodeId: annotation.nodeId }),
+      text: annotation.text,
+      author: previous?.author || authorName,
+      createdAt: previous?.createdAt || now
+    };
+  });
+}
+
+/**
+ * Shape a stored view for the client. Share tokens are only shown to team members
+ * who can manage them, and never through a share link.
+ */
+export function toSavedViewResponse(view: SavedNetworkView, options: { includeShareToken: boolean }) {
+  return {
+    id: view.id,
+    name: view.name,
+    description: view.description,
+    companyNumber: view.rootCompanyNumber,
+    graph: view.graphData as GraphData,
+    analysis: view.analysis as NetworkAnalysis | null,
+    filters: view.filters as GraphFilters,
+    layout: view.layout as GraphLayout,
+    viewport: view.viewport as GraphViewport | null,
+    annotations: view.annotations as NetworkAnnotation[],
+    shareToken: options.includeShareToken ? view.shareToken : undefined,
+    snapshotAt: view.snapshotAt.toISOString(),
+    createdAt: view.createdAt.toISOString(),
+    updatedAt: view.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,245 @@
+// Server-side SVG rendering of laid-out graphs for reports and image exports
+
+import type { CompanyNode, GraphData, GraphDiff, RelationshipType } from './types';
+import { NODE_COLORS, NODE_SIZES, EDGE_STYLES, DIFF_COLORS } from './types';
+
+export interface SVGRenderOptions {
+  background?: string; // Any CSS colour, or 'transparent'
+  padding?: number;
+  title?: string;
+  showEdgeLabels?: boolean;
+  diff?: GraphDiff; // Outline added, removed and changed elements (graph should include the removed ones)
+}
+
+export interface RenderedSVG {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const CHAR_WIDTH = 6.5; // Approximate width of a 12px character, for truncation
+const DEFAULT_NODE_FILL = '#ffffff';
+const DEFAULT_RELATIONSHIP: RelationshipType = 'officer';
+
+// Largest canvas side in pixels; wider layouts are scaled down to fit
+export const MAX_SVG_CANVAS_SIZE = 4000;
+
+const NODE_FILLS: Record<CompanyNode['type'], string> = {
+  company: '#ffffff',
+  officer: '#eff6ff',
+  psc: '#f5f3ff',
+  address: '#fffbeb'
+};
+
+function getNodeSize(node: CompanyNode) {
+  if (node.data.level === 0) return NODE_SIZES.large;
+  return node.type === 'company' ? NODE_SIZES.medium : NODE_SIZES.small;
+}
+
+function getNodeColor(node: CompanyNode): string {
+  switch (node.type) {
+    case 'company': {
+      const status = node.data.companyStatus || 'active';
+      if (status === 'active') return NODE_COLORS.company.active;
+      if (status === 'dissolved') return NODE_COLORS.company.dissolved;
+      if (status === 'liquidation' || status === 'administration') return NODE_COLORS.company.liquidation;
+      return NODE_COLORS.company.inactive;
+    }
+    case 'officer':
+      return node.data.resignedDate ? NODE_COLORS.officer.resigned : NODE_COLORS.officer.active;
+    case 'psc':
+      return NODE_COLORS.psc.active;
+    case 'address':
+    default:
+      return NODE_COLORS.address.default;
+  }
+}
+
+// Graphs can come from API clients, so anything rendered as text is coerced to a string
+function asText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function getNodeText(node: CompanyNode): { title: string; subtitle?: string } {
+  switch (node.type) {
+    case 'company':
+      return { title: asText(node.data.companyName || node.data.label), subtitle: asText(node.data.companyNumber) };
+    case 'officer':
+      return { title: asText(node.data.officerName || node.data.label), subtitle: asText(node.data.officerRole) };
+    case 'psc':
+      return { title: asText(node.data.pscName || node.data.label), subtitle: 'PSC' };
+    case 'address':
+    default:
+      return { title: asText(node.data.address).split(',')[0] || asText(node.data.label), subtitle: 'Address' };
+  }
+}
+
+function getRelationship(value: unknown): RelationshipType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EDGE_STYLES, value)
+    ? value as RelationshipType
+    : DEFAULT_RELATIONSHIP;
+}
+
+function getNodeFill(node: CompanyNode): string {
+  return Object.prototype.hasOwnProperty.call(NODE_FILLS, node.type) ? NODE_FILLS[node.type] : DEFAULT_NODE_FILL;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncate(text: string, width: number, fontSize: number): string {
+  const maxChars = Math.floor((width - 12) / (CHAR_WIDTH * (fontSize / 12)));
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+}
+
+/**
+ * Point where the line from the box centre towards (x, y) leaves the box,
+ * so arrows stop at the node border instead of its centre
+ */
+function clipToBox(box: Box, x: number, y: number): { x: number; y: number } {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = x - cx;
+  const dy = y - cy;
+  if (dx === 0 && dy === 0) return { x: cx, y: cy };
+
+  const scale = Math.min(
+    dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity,
+    dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity
+  );
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+/**
+ * Render a graph to a standalone SVG document using the positions from its layout.
+ * Node positions are top-left corners, as in React Flow, so the picture matches the page.
+ * Nodes without a finite position are left out, and layouts wider or taller than
+ * MAX_SVG_CANVAS_SIZE are scaled down to fit.
+ */
+export function renderGraphSVG(graph: GraphData, options: SVGRenderOptions = {}): RenderedSVG {
+  const padding = options.padding ?? 40;
+  const background = options.background || '#ffffff';
+
+  const boxes = new Map<string, Box>();
+  for (const node of graph.nodes) {
+    const x = Number(node.position?.x);
+    const y = Number(node.position?.y);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    boxes.set(node.id, { x, y, ...getNodeSize(node) });
+  }
+
+  const allBoxes = Array.from(boxes.values());
+  const minX = allBoxes.length > 0 ? Math.min(...allBoxes.map(b => b.x)) : 0;
+  const minY = allBoxes.length > 0 ? Math.min(...allBoxes.map(b => b.y)) : 0;
+  const maxX = allBoxes.length > 0 ? Math.max(...allBoxes.map(b => b.x + b.width)) : 0;
+  const maxY = allBoxes.length > 0 ? Math.max(...allBoxes.map(b => b.y + b.height)) : 0;
+
+  const titleHeight = options.title ? 30 : 0;
+  const scale = Math.min(
+    1,
+    (MAX_SVG_CANVAS_SIZE - padding * 2) / Math.max(maxX - minX, 1),
+    (MAX_SVG_CANVAS_SIZE - padding * 2 - titleHeight) / Math.max(maxY - minY, 1)
+  );
+  const width = Math.min(MAX_SVG_CANVAS_SIZE, Math.ceil((maxX - minX) * scale + padding * 2));
+  const height = Math.min(MAX_SVG_CANVAS_SIZE, Math.ceil((maxY - minY) * scale + padding * 2 + titleHeight));
+  const offsetX = padding - minX * scale;
+  const offsetY = padding + titleHeight - minY * scale;
+
+  const relationships = Object.keys(EDGE_STYLES) as RelationshipType[];
+
+  const addedNodes = new Set(options.diff?.addedNodes);
+  const removedNodes = new Set(options.diff?.removedNodes);
+  const changedNodes = new Set(options.diff?.changedNodes.map(change => change.id));
+  const addedEdges = new Set(options.diff?.addedEdges);
+  const removedEdges = new Set(options.diff?.removedEdges);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    '<defs>',
+    ...relationships.map(relationship =>
+      `<marker id="arrow-${relationship}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" markerUnits="userSpaceOnUse" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${EDGE_STYLES[relationship].stroke}"/></marker>`
+    ),
+    '</defs>'
+  ];
+
+  if (background !== 'transparent') {
+    parts.push(`<rect x="0" y="0" width="${width}" height="${height}" fill="${escapeXml(background)}"/>`);
+  }
+
+  if (options.title) {
+    parts.push(`<text x="${padding}" y="${padding / 2 + 12}" font-size="16" font-weight="bold" fill="#111827">${escapeXml(asText(options.title))}</text>`);
+  }
+
+  parts.push(`<g transform="translate(${offsetX} ${offsetY})${scale < 1 ? ` scale(${scale})` : ''}">`);
+
+  // Edges first so nodes sit on top
+  for (const edge of graph.edges) {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) continue;
+
+    const relationship = getRelationship(edge.data?.relationship);
+    const style = EDGE_STYLES[relationship];
+    const start = clipToBox(source, target.x + target.width / 2, target.y + target.height / 2);
+    const end = clipToBox(target, source.x + source.width / 2, source.y + source.height / 2);
+    const stroke = addedEdges.has(edge.id) ? DIFF_COLORS.added : removedEdges.has(edge.id) ? DIFF_COLORS.removed : style.stroke;
+    const strokeDasharray = removedEdges.has(edge.id) ? '6,4' : style.strokeDasharray;
+    const dash = strokeDasharray ? ` stroke-dasharray="${strokeDasharray}"` : '';
+
+    parts.push(
+      `<line x1="${start.x.toFixed(1)}" y1="${start.y.toFixed(1)}" x2="${end.x.toFixed(1)}" y2="${end.y.toFixed(1)}" stroke="${stroke}" stroke-width="${style.strokeWidth}"${dash} marker-end="url(#arrow-${relationship})"/>`
+    );
+
+    if (options.showEdgeLabels && edge.data?.label) {
+      parts.push(
+        `<text x="${((start.x + end.x) / 2).toFixed(1)}" y="${((start.y + end.y) / 2).toFixed(1)}" font-size="9" fill="#4b5563" text-anchor="middle">${escapeXml(asText(edge.data.label))}</text>`
+      );
+    }
+  }
+
+  for (const node of graph.nodes) {
+    const box = boxes.get(node.id);
+    if (!box) continue;
+
+    const diffState = addedNodes.has(node.id) ? 'added'
+      : removedNodes.has(node.id) ? 'removed'
+      : changedNodes.has(node.id) ? 'changed'
+      : null;
+    const color = diffState ? DIFF_COLORS[diffState] : getNodeColor(node);
+    const outline = diffState ? 4 : 2;
+    const dash = diffState === 'removed' ? ' stroke-dasharray="6,4" opacity="0.6"' : '';
+    const { title, subtitle } = getNodeText(node);
+    const titleSize = node.data.level === 0 ? 14 : 12;
+    const centreX = box.x + box.width / 2;
+    const centreY = box.y + box.height / 2;
+
+    parts.push(
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="6" fill="${getNodeFill(node)}" stroke="${color}" stroke-width="${outline}"${dash}/>`,
+      `<text x="${centreX}" y="${subtitle ? centreY - 2 : centreY + 4}" font-size="${titleSize}" font-weight="bold" fill="#111827" text-anchor="middle">${escapeXml(truncate(title, box.width, titleSize))}</text>`
+    );
+
+    if (subtitle) {
+      parts.push(
+        `<text x="${centreX}" y="${centreY + 14}" font-size="10" fill="#4b5563" text-anchor="middle">${escapeXml(truncate(subtitle, box.width, 10))}</text>`
+      );
+    }
+  }
+
+  parts.push('</g>', '</svg>');
+
+  return { svg: parts.join('\n'), width, height };
+}
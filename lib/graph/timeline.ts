@@ -0,0 +1,155 @@
+// Dated events in a built graph - timeline playback and change-burst detection
+
+import type { GraphData, GraphFilters } from './types';
+import { applyGraphFilters } from './filters';
+
+export type TimelineEventType =
+  | 'incorporated'
+  | 'ceased'
+  | 'appointed'
+  | 'resigned'
+  | 'control_notified'
+  | 'control_ceased';
+
+export interface TimelineEvent {
+  date: string; // YYYY-MM-DD
+  type: TimelineEventType;
+  companyNodeId: string;
+  nodeId: string; // The officer, PSC or owning company the event is about
+  edgeId?: string;
+}
+
+export interface ChangeBurst {
+  companyNodeId: string;
+  start: string;
+  end: string;
+  appointments: number;
+  resignations: number;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface ChangeBurstOptions {
+  windowDays?: number;
+  minEvents?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+export function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+}
+
+/**
+ * Every dated change in the graph, oldest first. Officer and PSC events come from
+ * edge periods; ownership edges point from the owned company to its owner.
+ */
+export function collectTimelineEvents(graph: GraphData): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  for (const node of graph.nodes) {
+    if (node.type !== 'company') continue;
+    if (node.data.incorporationDate) {
+      events.push({ date: node.data.incorporationDate, type: 'incorporated', companyNodeId: node.id, nodeId: node.id });
+    }
+    if (node.data.cessationDate) {
+      events.push({ date: node.data.cessationDate, type: 'ceased', companyNodeId: node.id, nodeId: node.id });
+    }
+  }
+
+  for (const edge of graph.edges) {
+    const relationship = edge.data?.relationship;
+    if (!relationship || relationship === 'address') continue;
+
+    const officer = relationship === 'officer';
+    const base = { companyNodeId: edge.source, nodeId: edge.target, edgeId: edge.id };
+
+    if (edge.data?.startDate) {
+      events.push({ ...base, date: edge.data.startDate, type: officer ? 'appointed' : 'control_notified' });
+    }
+    if (edge.data?.endDate) {
+      events.push({ ...base, date: edge.data.endDate, type: officer ? 'resigned' : 'control_ceased' });
+    }
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * First and last dated event, for bounding a timeline slider. The end is never
+ * before today so the current structure is always reachable.
+ */
+export function getTimelineBounds(graph: GraphData): { start: string; end: string } | null {
+  const events = collectTimelineEvents(graph);
+  if (events.length === 0) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  const last = events[events.length - 1].date;
+  return { start: events[0].date, end: last > today ? last : today };
+}
+
+/**
+ * The part of a built graph that was in force on `date`. Nodes keep their positions,
+ * so successive dates can be animated without the layout jumping.
+ */
+export function graphAsOf(graph: GraphData, filters: GraphFilters, date: string, rootNodeId: string): GraphData {
+  return applyGraphFilters(graph, { ...filters, dateRange: undefined, asOfDate: date }, rootNodeId);
+}
+
+/**
+ * Windows in which a company had an unusual number of officer appointments and
+ * resignations. Overlapping windows for the same company are merged into one burst.
+ */
+export function findChangeBursts(graph: GraphData, options: ChangeBurstOptions = {}): ChangeBurst[] {
+  const windowDays = options.windowDays ?? 90;
+  const minEvents = options.minEvents ?? 4;
+
+  const eventsByCompany = new Map<string, TimelineEvent[]>();
+  for (const event of collectTimelineEvents(graph)) {
+    if (event.type !== 'appointed' && event.type !== 'resigned') continue;
+    if (!eventsByCompany.has(event.companyNodeId)) {
+      eventsByCompany.set(event.companyNodeId, []);
+    }
+    eventsByCompany.get(event.companyNodeId)!.push(event);
+  }
+
+  const bursts: ChangeBurst[] = [];
+
+  for (const [companyNodeId, events] of eventsByCompany) {
+    let current: TimelineEvent[] | null = null;
+
+    // Slide a window over the (already sorted) events; extend the burst while windows keep qualifying
+    for (let i = 0; i + minEvents - 1 < events.length; i++) {
+      const windowEnd = events[i + minEvents - 1];
+      if (daysBetween(events[i].date, windowEnd.date) > windowDays) continue;
+
+      const windowEvents = events.slice(i, i + minEvents);
+      if (current && current[current.length - 1].date >= events[i].date) {
+        current.push(...windowEvents.filter(event => !current!.includes(event)));
+      } else {
+        if (current) bursts.push(toBurst(companyNodeId, current));
+        current = windowEvents;
+      }
+    }
+
+    if (current) bursts.push(toBurst(companyNodeId, current));
+  }
+
+  return bursts.sort((a, b) => b.appointments + b.resignations - (a.appointments + a.resignations));
+}
+
+function toBurst(companyNodeId: string, events: TimelineEvent[]): ChangeBurst {
+  return {
+    companyNodeId,
+    start: events[0].date,
+    end: events[events.length - 1].date,
+    appointments: events.filter(event => event.type === 'appointed').length,
+    resignations: events.filter(event => event.type === 'resigned').length,
+    nodeIds: Array.from(new Set(events.map(event => event.nodeId))),
+    edgeIds: Array.from(new Set(events.map(event => event.edgeId!)))
+  };
+}
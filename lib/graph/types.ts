@@ -1,6 +1,8 @@
 // Graph visualization types for React Flow company relationship mapping
 
 import type { Node, Edge } from 'reactflow';
+import type { CompanyType, InsolvencySummary, OfficerRole } from '@/lib/companies-house/types';
+import type { MassRegistrationMarker } from '@/lib/companies-house/address';
 
 export interface CompanyNode extends Node {
   id: string;
@@ -11,13 +13,27 @@ export interface CompanyNode extends Node {
     companyName?: string;
     companyStatus?: string;
     companyType?: string;
+    incorporationDate?: string;
+    cessationDate?: string;
+    lastAccountsType?: string; // e.g. 'dormant', 'micro-entity', 'full'
+    accountsOverdue?: boolean;
+    confirmationStatementOverdue?: boolean;
+    officerId?: string;
     officerName?: string;
     officerRole?: string;
     appointedDate?: string;
     resignedDate?: string;
+    dateOfBirth?: { month: number; year: number }; // Companies House only publishes month and year
+    nationality?: string;
+    mergedNodeIds?: string[]; // Officer nodes resolved to this one as the same person
     pscName?: string;
     controlType?: string[];
     address?: string;
+    addressKey?: string; // Normalised building key shared by every suite/unit at the address
+    postcode?: string;
+    registeredCompanyCount?: number; // Cached companies registered at the building
+    massRegistration?: MassRegistrationMarker;
+    insolvency?: InsolvencySummary;
     level: number; // 0 = root, 1 = first hop, 2 = second hop, 3 = third hop
     expanded?: boolean;
     loading?: boolean;
@@ -38,9 +54,11 @@ export interface RelationshipEdge {
     relationship: 'officer' | 'psc' | 'address' | 'ownership';
     label?: string;
     strength?: number; // 0-1, how strong the relationship is
+    role?: string; // Officer role for officer edges
     startDate?: string;
     endDate?: string;
     description?: string;
+    pathIndices?: number[]; // Path search results: which of the returned paths use this edge
   };
 }
 
@@ -57,17 +75,21 @@ export interface NetworkAnalysis {
     id: string;
     name: string;
     connections: number;
-    centrality: number;
+    centrality: number; // Degree centrality
+    betweenness: number;
+    eigenvector: number;
   }>;
   clusters: Array<{
     id: string;
+    label: string;
     nodes: string[];
     description: string;
   }>;
   riskFactors: Array<{
-    type: 'circular_ownership' | 'complex_structure' | 'dormant_companies' | 'rapid_changes';
+    type: 'circular_ownership' | 'complex_structure' | 'dormant_companies' | 'rapid_changes' | 'insolvency_history' | 'mass_registration_address';
     description: string;
     affectedNodes: string[];
+    affectedEdges?: string[];
     severity: 'low' | 'medium' | 'high';
   }>;
 }
@@ -78,6 +100,47 @@ export interface GraphViewport {
   zoom: number;
 }
 
+// Analyst note attached to a saved view, optionally pinned to a node
+export interface NetworkAnnotation {
+  id: string;
+  nodeId?: string;
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+// Candidate pairing of two officer nodes that may be the same person
+export interface OfficerMatch {
+  nodeIds: [string, string]; // Sorted, so a pair has a single key
+  names: [string, string];
+  confidence: number; // 0-1
+  reasons: string[];
+  status: 'merged' | 'suggested' | 'confirmed' | 'split'; // merged = automatic; confirmed/split = analyst decision
+}
+
+// A tracked attribute whose value differs between two snapshots
+export interface AttributeChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface GraphElementChange {
+  id: string;
+  label: string;
+  changes: AttributeChange[];
+}
+
+// Change set between two snapshots of the same network, matched by node and edge ID
+export interface GraphDiff {
+  addedNodes: string[];
+  removedNodes: string[];
+  addedEdges: string[];
+  removedEdges: string[];
+  changedNodes: GraphElementChange[];
+  changedEdges: GraphElementChange[];
+}
+
 export interface GraphFilters {
   showOfficers: boolean;
   showPSCs: boolean;
@@ -88,8 +151,9 @@ export interface GraphFilters {
     start: string;
     end: string;
   };
-  companyTypes?: string[];
-  officerRoles?: string[];
+  asOfDate?: string; // Show the structure as it stood on this date (YYYY-MM-DD)
+  companyTypes?: CompanyType[];
+  officerRoles?: OfficerRole[];
   maxHops: number;
 }
 
@@ -100,10 +164,11 @@ export interface GraphLayout {
     nodeSpacing: number;
     levelSpacing: number;
   };
+  seed?: number; // Seeds the force layout's initial positions so results are reproducible
 }
 
 export interface GraphExportOptions {
-  format: 'png' | 'svg' | 'pdf' | 'json' | 'csv';
+  format: ExportFormat;
   includeMetadata: boolean;
   resolution?: number;
   background?: string;
@@ -134,7 +199,7 @@ export interface GraphStats {
 export type NodeType = 'company' | 'officer' | 'psc' | 'address';
 export type RelationshipType = 'officer' | 'psc' | 'address' | 'ownership';
 export type LayoutType = 'hierarchical' | 'force' | 'circular' | 'grid' | 'custom';
-export type ExportFormat = 'png' | 'svg' | 'pdf' | 'json' | 'csv';
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'json' | 'csv' | 'graphml' | 'gexf' | 'cypher';
 
 // Color schemes for different node types
 export const NODE_COLORS = {
@@ -157,6 +222,27 @@ export const NODE_COLORS = {
   },
 } as const;
 
+// Colours for snapshot comparisons: added, removed and changed elements
+export const DIFF_COLORS = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#d97706',
+} as const;
+
+// Palette for colouring detected communities, cycled when there are more clusters than colours
+export const CLUSTER_COLORS = [
+  '#fecaca',
+  '#bfdbfe',
+  '#bbf7d0',
+  '#fde68a',
+  '#ddd6fe',
+  '#fbcfe8',
+  '#a5f3fc',
+  '#fed7aa',
+  '#d9f99d',
+  '#e2e8f0',
+] as const;
+
 // Node sizes based on importance/connections
 export const NODE_SIZES = {
   small: { width: 120, height: 60 },
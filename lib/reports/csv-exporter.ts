@@ -1,7 +1,7 @@
 // CSV export functionality for data analysis and external processing
 
 import type { CompanyProfile, Officer, PersonWithSignificantControl } from '@/lib/companies-house/types';
-import type { CompanyInsight } from '@/lib/ai/deepseek-client';
+import type { CompanyInsight } from '@/lib/ai/types';
 import type { GraphData, CompanyNode, RelationshipEdge } from '@/lib/graph/types';
 
 interface CSVExportOptions {
@@ -224,7 +224,8 @@ class CSVExporter {
         'Low Risk Factors',
         'Opportunities Count',
         'Recommendations Count',
-        'Tokens Used'
+        'Tokens Used',
+        'Validation Status'
       ];
       csv += headers.join(opts.delimiter) + '\n';
     }
@@ -248,7 +249,8 @@ class CSVExporter {
         lowRiskFactors.toString(),
         insight.opportunities.length.toString(),
         insight.recommendations.length.toString(),
-        insight.tokensUsed.toString()
+        insight.tokensUsed.toString(),
+        insight.validation.status
       ];
       csv += row.join(opts.delimiter) + '\n';
     }
@@ -1,15 +1,29 @@
 // PDF report generation using Puppeteer for professional business intelligence reports
 
 import puppeteer, { Browser, Page } from 'puppeteer';
-import type { CompanyProfile, Officer } from '@/lib/companies-house/types';
-import type { CompanyInsight } from '@/lib/ai/deepseek-client';
-import type { GraphData } from '@/lib/graph/types';
+import type { CompanyProfile, Officer, ChargesSummary, InsolvencySummary } from '@/lib/companies-house/types';
+import type { CompanyInsight } from '@/lib/ai/types';
+import type { GraphData, GraphDiff, GraphExportOptions, NetworkAnalysis } from '@/lib/graph/types';
+import { renderGraphSVG } from '@/lib/graph/svg-renderer';
+import { hasChanges, mergeSnapshots } from '@/lib/graph/diff';
+import { findDormantCompanies } from '@/lib/graph/dormancy';
+
+// An earlier snapshot of the same network, for "what changed since" reporting
+interface NetworkComparison {
+  previous: GraphData;
+  diff: GraphDiff;
+  comparedTo: string; // e.g. the saved view's name or snapshot date
+}
 
 interface ReportData {
   company: CompanyProfile;
   officers?: Officer[];
+  charges?: ChargesSummary;
+  insolvency?: InsolvencySummary;
   insights?: CompanyInsight;
   networkGraph?: GraphData;
+  networkComparison?: NetworkComparison;
+  networkAnalysis?: NetworkAnalysis;
   metadata: {
     generatedBy: string;
     generatedAt: string;
@@ -30,6 +44,17 @@ interface PDFOptions {
   footerText?: string;
 }
 
+// Company, insight and graph data can come from clients, so every value written into report HTML goes through here
+function escapeHtml(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 class PDFReportGenerator {
   private browser: Browser | null = null;
 
@@ -49,6 +74,22 @@ class PDFReportGenerator {
     }
   }
 
+  /**
+   * Pages render static HTML built from client data: no script runs, and nothing outside
+   * the document (iframes, images, stylesheets) is fetched except inline data: URLs
+   */
+  private async isolatePage(page: Page): Promise<void> {
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      if (request.url().startsWith('data:')) {
+        request.continue();
+      } else {
+        request.abort();
+      }
+    });
+  }
+
   /**
    * Generate a comprehensive company report
    */
@@ -65,6 +106,8 @@ class PDFReportGenerator {
     const page = await this.browser.newPage();
 
     try {
+      await this.isolatePage(page);
+
       // Set page format and size
       await page.setViewport({ width: 1200, height: 1600 });
 
@@ -90,10 +133,10 @@ class PDFReportGenerator {
         },
         displayHeaderFooter: !!(options.headerText || options.footerText),
         headerTemplate: options.headerText ? 
-          `<div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">${options.headerText}</div>` : 
+          `<div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">${escapeHtml(options.headerText)}</div>` : 
           undefined,
         footerTemplate: options.footerText ?
-          `<div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">${options.footerText} - Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>` :
+          `<div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">${escapeHtml(options.footerText)} - Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>` :
           '<div style="font-size: 10px; padding: 10px; width: 100%; text-align: center;">Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>'
       });
 
@@ -110,7 +153,8 @@ class PDFReportGenerator {
     graphData: GraphData,
     companyName: string,
     metadata: ReportData['metadata'],
-    options: PDFOptions = this.getDefaultOptions()
+    options: PDFOptions = this.getDefaultOptions(),
+    extras: { comparison?: NetworkComparison; analysis?: NetworkAnalysis } = {}
   ): Promise<Buffer> {
     const reportData: ReportData = {
       company: {
@@ -127,6 +171,8 @@ class PDFReportGenerator {
         can_file: false
       },
       networkGraph: graphData,
+      networkComparison: extras.comparison,
+      networkAnalysis: extras.analysis,
       metadata
     };
 
@@ -136,15 +182,56 @@ class PDFReportGenerator {
     });
   }
 
+  /**
+   * Render a laid-out network graph to PNG. `resolution` is the device scale
+   * factor (2 = retina); a 'transparent' background omits the fill.
+   */
+  async generateNetworkImage(
+    graphData: GraphData,
+    options: Pick<GraphExportOptions, 'resolution' | 'background'> & { title?: string } = {}
+  ): Promise<Buffer> {
+    await this.initialize();
+
+    if (!this.browser) {
+      throw new Error('Failed to initialize browser');
+    }
+
+    const background = options.background || '#ffffff';
+    const { svg, width, height } = renderGraphSVG(graphData, { background, title: options.title });
+    const page = await this.browser.newPage();
+
+    try {
+      await this.isolatePage(page);
+      await page.setViewport({
+        width,
+        height,
+        deviceScaleFactor: Math.min(Math.max(options.resolution || 1, 1), 4)
+      });
+
+      await page.setContent(
+        `<!DOCTYPE html><html><body style="margin:0;background:transparent">${svg}</body></html>`,
+        { waitUntil: 'load', timeout: 30000 }
+      );
+
+      return await page.screenshot({
+        type: 'png',
+        clip: { x: 0, y: 0, width, height },
+        omitBackground: background === 'transparent'
+      });
+    } finally {
+      await page.close();
+    }
+  }
+
   private generateHTML(reportData: ReportData, options: PDFOptions): string {
-    const { company, officers, insights, networkGraph, metadata } = reportData;
+    const { company, officers, charges, insolvency, insights, networkGraph, networkComparison, networkAnalysis, metadata } = reportData;
 
     let html = `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="UTF-8">
-      <title>Business Intelligence Report - ${company.company_name}</title>
+      <title>Business Intelligence Report - ${escapeHtml(company.company_name)}</title>
       <style>
         ${this.getCSS()}
       </style>
@@ -166,7 +253,7 @@ class PDFReportGenerator {
     html += this.generateExecutiveSummary(company, insights);
 
     // Company Profile
-    html += this.generateCompanyProfile(company);
+    html += this.generateCompanyProfile(company, charges, insolvency);
 
     // Officers Section
     if (officers && officers.length > 0) {
@@ -180,7 +267,7 @@ class PDFReportGenerator {
 
     // Network Analysis
     if (networkGraph) {
-      html += this.generateNetworkSection(networkGraph);
+      html += this.generateNetworkSection(networkGraph, networkComparison, networkAnalysis);
     }
 
     // Appendix
@@ -188,7 +275,7 @@ class PDFReportGenerator {
 
     // Watermark
     if (options.watermark) {
-      html += `<div class="watermark">${options.watermark}</div>`;
+      html += `<div class="watermark">${escapeHtml(options.watermark)}</div>`;
     }
 
     html += `
@@ -210,14 +297,14 @@ class PDFReportGenerator {
       </div>
       
       <div class="cover-content">
-        <h2 class="report-title">${reportTypeDisplayName} Report</h2>
-        <h3 class="company-name">${company.company_name}</h3>
-        <p class="company-number">Company Number: ${company.company_number}</p>
+        <h2 class="report-title">${escapeHtml(reportTypeDisplayName)} Report</h2>
+        <h3 class="company-name">${escapeHtml(company.company_name)}</h3>
+        <p class="company-number">Company Number: ${escapeHtml(company.company_number)}</p>
         
         <div class="report-details">
           <p><strong>Generated:</strong> ${new Date(metadata.generatedAt).toLocaleString('en-GB')}</p>
-          <p><strong>Report ID:</strong> ${metadata.requestId}</p>
-          <p><strong>Version:</strong> ${metadata.version}</p>
+          <p><strong>Report ID:</strong> ${escapeHtml(metadata.requestId)}</p>
+          <p><strong>Version:</strong> ${escapeHtml(metadata.version)}</p>
         </div>
       </div>
       
@@ -276,12 +363,12 @@ class PDFReportGenerator {
       <div class="summary-grid">
         <div class="summary-card">
           <h4>Company Status</h4>
-          <p class="status-${company.company_status}">${company.company_status.toUpperCase()}</p>
+          <p class="status-${escapeHtml(company.company_status)}">${escapeHtml(company.company_status.toUpperCase())}</p>
         </div>
         
         <div class="summary-card">
           <h4>Company Type</h4>
-          <p>${company.type?.replace(/-/g, ' ').toUpperCase()}</p>
+          <p>${escapeHtml(company.type?.replace(/-/g, ' ').toUpperCase())}</p>
         </div>
         
         <div class="summary-card">
@@ -300,11 +387,12 @@ class PDFReportGenerator {
       ${insights ? `
       <div class="ai-summary">
         <h3>Key Business Intelligence</h3>
-        <p>${insights.summary}</p>
+        <p>${escapeHtml(insights.summary)}</p>
         
         <div class="confidence-indicator">
           <p>Analysis Confidence: <strong>${insights.confidence}%</strong> | 
-          Data Quality: <strong>${insights.dataQuality}</strong></p>
+          Data Quality: <strong>${escapeHtml(insights.dataQuality)}</strong></p>
+          ${insights.validation.status === 'failed' ? `<p class="degraded-insight">Degraded analysis: the AI response failed validation and contains placeholder fields.</p>` : ''}
         </div>
       </div>
       ` : ''}
@@ -312,7 +400,11 @@ class PDFReportGenerator {
     `;
   }
 
-  private generateCompanyProfile(company: CompanyProfile): string {
+  private generateCompanyProfile(
+    company: CompanyProfile,
+    charges?: ChargesSummary,
+    insolvency?: InsolvencySummary
+  ): string {
     const address = company.registered_office_address;
     const addressString = address ? [
       address.premises,
@@ -331,11 +423,11 @@ class PDFReportGenerator {
         <div class="profile-section">
           <h3>Basic Information</h3>
           <table class="info-table">
-            <tr><td><strong>Company Name:</strong></td><td>${company.company_name}</td></tr>
-            <tr><td><strong>Company Number:</strong></td><td>${company.company_number}</td></tr>
-            <tr><td><strong>Status:</strong></td><td class="status-${company.company_status}">${company.company_status}</td></tr>
-            <tr><td><strong>Type:</strong></td><td>${company.type}</td></tr>
-            <tr><td><strong>Jurisdiction:</strong></td><td>${company.jurisdiction}</td></tr>
+            <tr><td><strong>Company Name:</strong></td><td>${escapeHtml(company.company_name)}</td></tr>
+            <tr><td><strong>Company Number:</strong></td><td>${escapeHtml(company.company_number)}</td></tr>
+            <tr><td><strong>Status:</strong></td><td class="status-${escapeHtml(company.company_status)}">${escapeHtml(company.company_status)}</td></tr>
+            <tr><td><strong>Type:</strong></td><td>${escapeHtml(company.type)}</td></tr>
+            <tr><td><strong>Jurisdiction:</strong></td><td>${escapeHtml(company.jurisdiction)}</td></tr>
             <tr><td><strong>Incorporation Date:</strong></td><td>${new Date(company.date_of_creation).toLocaleDateString('en-GB')}</td></tr>
             ${company.date_of_cessation ? `<tr><td><strong>Cessation Date:</strong></td><td>${new Date(company.date_of_cessation).toLocaleDateString('en-GB')}</td></tr>` : ''}
           </table>
@@ -343,12 +435,12 @@ class PDFReportGenerator {
         
         <div class="profile-section">
           <h3>Registered Office Address</h3>
-          <p class="address">${addressString}</p>
+          <p class="address">${escapeHtml(addressString)}</p>
           
           <h3>Business Activities</h3>
           ${company.sic_codes && company.sic_codes.length > 0 ? `
             <ul class="sic-codes">
-              ${company.sic_codes.map(code => `<li>SIC Code: ${code}</li>`).join('')}
+              ${company.sic_codes.map(code => `<li>SIC Code: ${escapeHtml(code)}</li>`).join('')}
             </ul>
           ` : '<p>No SIC codes available</p>'}
         </div>
@@ -359,11 +451,15 @@ class PDFReportGenerator {
         <div class="info-grid">
           <div class="info-card">
             <h4>Charges</h4>
-            <p>${company.has_charges ? 'Has charges registered' : 'No charges'}</p>
+            <p>${charges
+              ? `${charges.outstandingCount} outstanding of ${charges.totalCount} registered`
+              : company.has_charges ? 'Has charges registered' : 'No charges'}</p>
           </div>
           <div class="info-card">
             <h4>Insolvency History</h4>
-            <p>${company.has_insolvency_history ? 'Has insolvency history' : 'No insolvency history'}</p>
+            <p>${insolvency && insolvency.caseCount > 0
+              ? `${insolvency.caseCount} case(s)${insolvency.hasActiveCase ? ', ongoing' : ', concluded'}`
+              : company.has_insolvency_history ? 'Has insolvency history' : 'No insolvency history'}</p>
           </div>
           <div class="info-card">
             <h4>Filing Status</h4>
@@ -371,10 +467,82 @@ class PDFReportGenerator {
           </div>
         </div>
       </div>
+      
+      ${charges && charges.outstandingCount > 0 ? this.generateChargesTable(charges) : ''}
+      
+      ${insolvency && insolvency.caseCount > 0 ? this.generateInsolvencyTable(insolvency) : ''}
     </div>
     `;
   }
 
+  private generateChargesTable(charges: ChargesSummary): string {
+    return `
+      <div class="profile-section charges-section">
+        <h3>Outstanding Charges</h3>
+        <p><strong>Outstanding:</strong> ${charges.outstandingCount} | 
+        <strong>Part Satisfied:</strong> ${charges.partSatisfiedCount} | 
+        <strong>Satisfied:</strong> ${charges.satisfiedCount}</p>
+        <p><strong>Lenders:</strong> ${charges.lenders.map(l => `${escapeHtml(l.name)} (${l.outstandingCount})`).join(', ') || 'Not specified'}</p>
+        
+        <table class="charges-table">
+          <thead>
+            <tr>
+              <th>Created</th>
+              <th>Age</th>
+              <th>Persons Entitled</th>
+              <th>Classification</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${charges.outstanding.slice(0, 15).map(charge => `
+              <tr>
+                <td>${charge.createdOn ? new Date(charge.createdOn).toLocaleDateString('en-GB') : 'Unknown'}</td>
+                <td>${charge.ageInYears !== null ? `${charge.ageInYears} yrs` : 'N/A'}</td>
+                <td>${escapeHtml(charge.personsEntitled.join(', ')) || 'Not specified'}</td>
+                <td>${escapeHtml(charge.classification)}${charge.floatingChargeCoversAll ? ' (floating, all assets)' : ''}</td>
+                <td>${escapeHtml(charge.status)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        ${charges.outstanding.length > 15 ? `<p><em>Showing 15 of ${charges.outstanding.length} outstanding charges</em></p>` : ''}
+      </div>
+    `;
+  }
+
+  private generateInsolvencyTable(insolvency: InsolvencySummary): string {
+    const formatDate = (date?: string) => date ? new Date(date).toLocaleDateString('en-GB') : 'N/A';
+
+    return `
+      <div class="profile-section insolvency-section">
+        <h3>Insolvency History</h3>
+        <table class="insolvency-table">
+          <thead>
+            <tr>
+              <th>Case</th>
+              <th>Type</th>
+              <th>Started</th>
+              <th>Ended</th>
+              <th>Practitioners</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${insolvency.cases.map(c => `
+              <tr class="${c.active ? 'case-active' : ''}">
+                <td>${escapeHtml(c.number)}</td>
+                <td>${escapeHtml(c.label)}</td>
+                <td>${formatDate(c.startDate)}</td>
+                <td>${c.active ? '<strong>Ongoing</strong>' : formatDate(c.endDate)}</td>
+                <td>${c.practitioners.map(p => `${escapeHtml(p.name)} (${escapeHtml(p.role.replace(/-/g, ' '))})`).join('<br>') || 'None listed'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }
+
   private generateOfficersSection(officers: Officer[]): string {
     const activeOfficers = officers.filter(o => !o.resigned_on);
     const resignedOfficers = officers.filter(o => o.resigned_on);
@@ -402,10 +570,10 @@ class PDFReportGenerator {
         <tbody>
           ${activeOfficers.map(officer => `
             <tr>
-              <td><strong>${officer.name}</strong></td>
-              <td>${officer.officer_role}</td>
+              <td><strong>${escapeHtml(officer.name)}</strong></td>
+              <td>${escapeHtml(officer.officer_role)}</td>
               <td>${new Date(officer.appointed_on).toLocaleDateString('en-GB')}</td>
-              <td>${officer.nationality || 'Not specified'}</td>
+              <td>${escapeHtml(officer.nationality) || 'Not specified'}</td>
             </tr>
           `).join('')}
         </tbody>
@@ -425,8 +593,8 @@ class PDFReportGenerator {
         <tbody>
           ${resignedOfficers.slice(0, 10).map(officer => `
             <tr>
-              <td>${officer.name}</td>
-              <td>${officer.officer_role}</td>
+              <td>${escapeHtml(officer.name)}</td>
+              <td>${escapeHtml(officer.officer_role)}</td>
               <td>${new Date(officer.appointed_on).toLocaleDateString('en-GB')}</td>
               <td>${officer.resigned_on ? new Date(officer.resigned_on).toLocaleDateString('en-GB') : 'N/A'}</td>
             </tr>
@@ -459,43 +627,57 @@ class PDFReportGenerator {
         
         <div class="insight-metric">
           <h4>Data Quality</h4>
-          <div class="data-quality">${insights.dataQuality}</div>
+          <div class="data-quality">${escapeHtml(insights.dataQuality)}</div>
           <p>Source data assessment</p>
         </div>
       </div>
       
+      ${insights.validation.status === 'failed' ? `
+      <div class="degraded-insight">
+        <p><strong>Degraded analysis.</strong> The AI response did not match the required format after ${insights.validation.repairAttempts} repair attempts. Fields it got wrong show placeholders and should not be relied on.</p>
+        <ul>
+          ${insights.validation.errors.slice(0, 5).map(error => `<li>${escapeHtml(error)}</li>`).join('')}
+        </ul>
+      </div>
+      ` : ''}
+      
       <div class="insights-content">
         <h3>Key Findings</h3>
         <ul class="findings-list">
-          ${insights.keyFindings.map(finding => `<li>${finding}</li>`).join('')}
+          ${insights.keyFindings.map(finding => `<li>${escapeHtml(finding)}</li>`).join('')}
         </ul>
         
         <h3>Risk Analysis</h3>
         <div class="risk-factors">
           ${insights.riskFactors.map(risk => `
-            <div class="risk-factor severity-${risk.severity}">
-              <h4>${risk.risk}</h4>
-              <p><strong>Category:</strong> ${risk.category} | <strong>Severity:</strong> ${risk.severity}</p>
-              <p>${risk.explanation}</p>
+            <div class="risk-factor severity-${escapeHtml(risk.severity)}">
+              <h4>${escapeHtml(risk.risk)}</h4>
+              <p><strong>Category:</strong> ${escapeHtml(risk.category)} | <strong>Severity:</strong> ${escapeHtml(risk.severity)}</p>
+              <p>${escapeHtml(risk.explanation)}</p>
             </div>
           `).join('')}
         </div>
         
         <h3>Business Opportunities</h3>
         <ul class="opportunities-list">
-          ${insights.opportunities.map(opp => `<li>${opp}</li>`).join('')}
+          ${insights.opportunities.map(opp => `<li>${escapeHtml(opp)}</li>`).join('')}
         </ul>
         
         <h3>Strategic Recommendations</h3>
         <ol class="recommendations-list">
-          ${insights.recommendations.map(rec => `<li>${rec}</li>`).join('')}
+          ${insights.recommendations.map(rec => `<li>${escapeHtml(rec)}</li>`).join('')}
         </ol>
+        
+        <h3>Analysis Provenance</h3>
+        <p>Generated ${new Date(insights.generatedAt).toLocaleDateString('en-GB')} by ${escapeHtml(insights.provider)} (${escapeHtml(insights.model)}) with prompt
+        <strong>${escapeHtml(insights.prompt.id)} v${insights.prompt.version}</strong> (hash ${escapeHtml(insights.prompt.hash)}),
+        temperature ${insights.prompt.parameters.temperature}, max tokens ${insights.prompt.parameters.maxTokens}.</p>
       </div>
     </div>
     `;
   }
 
-  private generateNetworkSection(graphData: GraphData): string {
+  private generateNetworkSection(graphData: GraphData, comparison?: NetworkComparison, analysis?: NetworkAnalysis): string {
     const companyNodes = graphData.nodes.filter(n => n.type === 'company').length;
     const officerNodes = graphData.nodes.filter(n => n.type === 'officer').length;
     const pscNodes = graphData.nodes.filter(n => n.type === 'psc').length;
@@ -527,6 +709,19 @@ class PDFReportGenerator {
         </div>
       </div>
       
+      ${graphData.nodes.length > 0 ? `
+      <div class="network-diagram">
+        <h3>Network Diagram</h3>
+        ${comparison
+          ? renderGraphSVG(mergeSnapshots(comparison.previous, graphData, comparison.diff), { diff: comparison.diff }).svg
+          : renderGraphSVG(graphData).svg}
+      </div>
+      ` : ''}
+
+      ${comparison ? this.generateNetworkChanges(graphData, comparison) : ''}
+
+      ${analysis ? this.generateNetworkRisks(graphData, analysis) : ''}
+
       <div class="network-breakdown">
         <h3>Entity Breakdown</h3>
         <table class="network-table">
@@ -550,6 +745,95 @@ class PDFReportGenerator {
     `;
   }
 
+  private generateNetworkRisks(graphData: GraphData, analysis: NetworkAnalysis): string {
+    if (analysis.riskFactors.length === 0) {
+      return `
+      <div class="network-risks">
+        <h3>Network Risk Factors</h3>
+        <p>No structural risk factors were identified in this network.</p>
+      </div>
+      `;
+    }
+
+    // Dormant and dissolved findings are broken down per company, closest to the root first
+    const dormant = analysis.riskFactors.some(risk => risk.type === 'dormant_companies')
+      ? findDormantCompanies(graphData)
+      : [];
+
+    return `
+    <div class="network-risks">
+      <h3>Network Risk Factors</h3>
+      ${analysis.riskFactors.map(risk => `
+        <div class="risk-factor severity-${escapeHtml(risk.severity)}">
+          <h4>${escapeHtml(risk.type.replace(/_/g, ' '))}</h4>
+          <p><strong>Severity:</strong> ${escapeHtml(risk.severity)} | <strong>Entities affected:</strong> ${risk.affectedNodes.length}</p>
+          <p>${escapeHtml(risk.description)}</p>
+        </div>
+      `).join('')}
+
+      ${dormant.length > 0 ? `
+      <h3>Dormant and Dissolved Companies</h3>
+      <table class="network-table">
+        <tr><th>Company</th><th>Distance</th><th>Finding</th><th>Weight</th></tr>
+        ${dormant.map(company => `
+          <tr class="dormancy-${escapeHtml(company.kind)}">
+            <td>${escapeHtml(company.label)}</td>
+            <td>${company.level === 0 ? 'Root' : `${company.level} hop${company.level === 1 ? '' : 's'}`}</td>
+            <td>${company.reasons.map(escapeHtml).join('<br>')}</td>
+            <td>${Math.round(company.weight * 100)}%</td>
+          </tr>
+        `).join('')}
+      </table>
+      ` : ''}
+    </div>
+    `;
+  }
+
+  private generateNetworkChanges(graphData: GraphData, comparison: NetworkComparison): string {
+    const { previous, diff, comparedTo } = comparison;
+
+    if (!hasChanges(diff)) {
+      return `
+      <div class="network-changes">
+        <h3>Changes Since ${escapeHtml(comparedTo)}</h3>
+        <p>No changes to the network structure or tracked attributes.</p>
+      </div>
+      `;
+    }
+
+    const labels = new Map([...previous.nodes, ...graphData.nodes].map(node => [node.id, node.data.label]));
+    const edgesById = new Map([...previous.edges, ...graphData.edges].map(edge => [edge.id, edge]));
+    const edgeLabel = (id: string) => {
+      const edge = edgesById.get(id);
+      return escapeHtml(edge ? `${labels.get(edge.source) || edge.source} → ${labels.get(edge.target) || edge.target}` : id);
+    };
+
+    const rows = [
+      ...diff.addedNodes.map(id => `<tr class="change-added"><td>Added</td><td>${escapeHtml(labels.get(id) || id)}</td><td>New entity</td></tr>`),
+      ...diff.removedNodes.map(id => `<tr class="change-removed"><td>Removed</td><td>${escapeHtml(labels.get(id) || id)}</td><td>No longer in network</td></tr>`),
+      ...diff.addedEdges.map(id => `<tr class="change-added"><td>Added</td><td>${edgeLabel(id)}</td><td>New connection</td></tr>`),
+      ...diff.removedEdges.map(id => `<tr class="change-removed"><td>Removed</td><td>${edgeLabel(id)}</td><td>Connection ended</td></tr>`),
+      ...[...diff.changedNodes, ...diff.changedEdges].map(change => `
+        <tr class="change-changed"><td>Changed</td><td>${escapeHtml(change.label)}</td><td>${change.changes
+          .map(c => escapeHtml(`${c.field}: ${c.before ?? '—'} → ${c.after ?? '—'}`))
+          .join('<br>')}</td></tr>
+      `)
+    ];
+
+    return `
+    <div class="network-changes">
+      <h3>Changes Since ${escapeHtml(comparedTo)}</h3>
+      <p>${diff.addedNodes.length} entities and ${diff.addedEdges.length} connections added,
+      ${diff.removedNodes.length} entities and ${diff.removedEdges.length} connections removed,
+      ${diff.changedNodes.length + diff.changedEdges.length} with changed details.</p>
+      <table class="network-table">
+        <tr><th>Change</th><th>Entity</th><th>Detail</th></tr>
+        ${rows.join('')}
+      </table>
+    </div>
+    `;
+  }
+
   private generateAppendix(metadata: ReportData['metadata']): string {
     return `
     <div class="section" id="appendix">
@@ -557,17 +841,17 @@ class PDFReportGenerator {
       
       <h3>Report Metadata</h3>
       <table class="metadata-table">
-        <tr><td><strong>Report ID:</strong></td><td>${metadata.requestId}</td></tr>
-        <tr><td><strong>Generated By:</strong></td><td>${metadata.generatedBy}</td></tr>
+        <tr><td><strong>Report ID:</strong></td><td>${escapeHtml(metadata.requestId)}</td></tr>
+        <tr><td><strong>Generated By:</strong></td><td>${escapeHtml(metadata.generatedBy)}</td></tr>
         <tr><td><strong>Generated At:</strong></td><td>${new Date(metadata.generatedAt).toLocaleString('en-GB')}</td></tr>
-        <tr><td><strong>Report Type:</strong></td><td>${metadata.reportType}</td></tr>
-        <tr><td><strong>Version:</strong></td><td>${metadata.version}</td></tr>
+        <tr><td><strong>Report Type:</strong></td><td>${escapeHtml(metadata.reportType)}</td></tr>
+        <tr><td><strong>Version:</strong></td><td>${escapeHtml(metadata.version)}</td></tr>
       </table>
       
       <h3>Data Sources</h3>
       <ul>
         <li><strong>Companies House API:</strong> Official UK company information and filings</li>
-        <li><strong>DeepSeek AI:</strong> Business intelligence analysis and risk assessment</li>
+        <li><strong>AI Analysis (DeepSeek / OpenRouter):</strong> Business intelligence analysis and risk assessment</li>
         <li><strong>Nexus AI Platform:</strong> Data aggregation and network analysis</li>
       </ul>
       
@@ -589,7 +873,7 @@ class PDFReportGenerator {
       
       <div class="signature-section">
         <p><strong>Generated by Nexus AI Business Intelligence Platform</strong></p>
-        <p>Report ID: ${metadata.requestId}</p>
+        <p>Report ID: ${escapeHtml(metadata.requestId)}</p>
         <p>© ${new Date().getFullYear()} Nexus AI. All rights reserved.</p>
       </div>
     </div>
@@ -839,7 +1123,32 @@ class PDFReportGenerator {
         color: #667eea;
       }
       
+      .charges-section {
+        margin-top: 20px;
+      }
+      
+      .charges-section p {
+        margin-bottom: 8px;
+      }
+      
+      .insolvency-section {
+        margin-top: 20px;
+        border-left: 4px solid #dc3545;
+      }
+      
+      .case-active td {
+        color: #dc3545;
+      }
+      
       /* AI Insights */
+      .degraded-insight {
+        margin: 15px 0;
+        padding: 10px 15px;
+        border-left: 4px solid #fd7e14;
+        background: #fff4e6;
+        color: #8a4b00;
+      }
+      
       .insights-header {
         display: grid;
         grid-template-columns: repeat(3, 1fr);
@@ -915,6 +1224,36 @@ class PDFReportGenerator {
         margin-top: 10px;
       }
       
+      .network-diagram {
+        margin-bottom: 30px;
+        page-break-inside: avoid;
+      }
+      
+      .network-diagram svg {
+        display: block;
+        max-width: 100%;
+        max-height: 220mm;
+        height: auto;
+        border: 1px solid #e5e7eb;
+        border-radius: 6px;
+      }
+      
+      .network-changes {
+        margin-bottom: 30px;
+      }
+
+      .change-added td:first-child { color: #16a34a; font-weight: bold; }
+      .change-removed td:first-child { color: #dc2626; font-weight: bold; }
+      .change-changed td:first-child { color: #d97706; font-weight: bold; }
+
+      .network-risks {
+        margin-bottom: 30px;
+      }
+
+      .dormancy-dissolved td:first-child { color: #dc2626; font-weight: bold; }
+      .dormancy-dormant td:first-child { color: #d97706; font-weight: bold; }
+      .dormancy-overdue td:first-child { color: #6b7280; font-weight: bold; }
+
       /* Disclaimers */
       .disclaimers p {
         margin-bottom: 15px;
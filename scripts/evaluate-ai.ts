@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+
+// Evaluation runner for AI insights - scores every prompt version and model against the
+// golden company fixtures and writes a comparison report
+// Usage: npx tsx scripts/evaluate-ai.ts [--models local:rules-v1,openrouter:openai/gpt-4o-mini]
+//          [--prompts 1,2] [--fixtures dir] [--out report.md] [--date 2026-10-19] [--record]
+//
+// Runs offline by default: each provider:model target replays the responses recorded under
+// scripts/ai-eval/recordings/<provider>__<model>/, and local:rules-v1 scores the rule-based
+// insights as of --date. Until a target has been run with --record there is nothing to
+// replay, so only the rule-based target is scored. --record calls the live providers
+// instead and saves their responses for replay.
+
+import { config } from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EvalCaseResult, EvalFixture, EvalRunSummary } from '../lib/ai/evaluation';
+
+// Load environment variables
+config({ path: path.resolve(process.cwd(), '.env.local') });
+
+const EVAL_DIR = path.resolve(process.cwd(), 'scripts', 'ai-eval');
+const RECORDINGS_DIR = path.join(EVAL_DIR, 'recordings');
+const RULES_TARGET = 'local:rules-v1';
+// Golden results such as company age and recent resignations depend on the date
+const DEFAULT_RULES_DATE = '2026-10-19';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// Model IDs contain slashes, so recording directories swap them for double dashes
+function recordingsDirFor(provider: string, model: string): string {
+  return path.join(RECORDINGS_DIR, `${provider}__${model.replace(/\//g, '--')}`);
+}
+
+async function listRecordedTargets(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(RECORDINGS_DIR, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && entry.name.includes('__') && !entry.name.startsWith('local__'))
+      .map(entry => {
+        const [provider, model] = entry.name.split('__');
+        return `${provider}:${model.replace(/--/g, '/')}`;
+      });
+  } catch {
+    return [];
+  }
+}
+
+async function evaluateAI() {
+  console.log('🧪 Evaluating AI insights...\n');
+
+  // Dynamic import to ensure environment variables are loaded
+  const { aiService } = await import('../lib/ai/ai-service');
+  const { AI_PROVIDERS, isAIProviderId } = await import('../lib/ai/providers');
+  const { buildInsightPrompt } = await import('../lib/ai/insights');
+  const { loadRecording, LOCAL_RULES_MODEL } = await import('../lib/ai/local-provider');
+  const { COMPANY_INSIGHT_PROMPT, listPromptTemplates } = await import('../lib/ai/prompts');
+  const {
+    buildFixtureInput,
+    renderComparisonReport,
+    scoreInsight,
+    summariseRun,
+    unscoredCase
+  } = await import('../lib/ai/evaluation');
+
+  const record = process.argv.includes('--record');
+  const fixturesDir = path.resolve(getArg('fixtures') || path.join(EVAL_DIR, 'fixtures'));
+  const generatedAt = new Date().toISOString();
+  const rulesDate = getArg('date') || DEFAULT_RULES_DATE;
+  if (Number.isNaN(new Date(rulesDate).getTime())) {
+    console.error(`❌ Invalid --date "${rulesDate}"`);
+    process.exit(1);
+  }
+  process.env.AI_RULES_DATE = rulesDate;
+  const outFile = path.resolve(getArg('out') || path.join(EVAL_DIR, 'reports', `ai-eval-${generatedAt.slice(0, 10)}.md`));
+
+  // Fixtures
+  const fixtureFiles = (await fs.readdir(fixturesDir)).filter(file => file.endsWith('.json')).sort();
+  const fixtures: EvalFixture[] = await Promise.all(
+    fixtureFiles.map(async file => JSON.parse(await fs.readFile(path.join(fixturesDir, file), 'utf8')))
+  );
+  if (fixtures.length === 0) {
+    console.error(`❌ No fixtures found in ${fixturesDir}`);
+    process.exit(1);
+  }
+
+  // Targets and prompt versions
+  const modelArg = getArg('models');
+  const targets = (modelArg ? modelArg.split(',') : [RULES_TARGET, ...await listRecordedTargets()])
+    .map(target => {
+      const separator = target.indexOf(':');
+      const provider = target.slice(0, separator);
+      if (separator < 0 || !isAIProviderId(provider)) {
+        throw new Error(`Invalid target "${target}", expected provider:model`);
+      }
+      return { provider, model: target.slice(separator + 1) };
+    });
+
+  const promptArg = getArg('prompts');
+  const promptVersions = promptArg
+    ? promptArg.split(',').map(version => parseInt(version, 10))
+    : listPromptTemplates().filter(template => template.id === COMPANY_INSIGHT_PROMPT).map(template => template.version);
+
+  console.log(`   Fixtures: ${fixtures.length}`);
+  console.log(`   Targets: ${targets.map(t => `${t.provider}:${t.model}`).join(', ')}`);
+  console.log(`   Prompt versions: ${promptVersions.join(', ')}`);
+  console.log(`   Rules date: ${rulesDate}`);
+  console.log(`   Mode: ${record ? 'record (live providers)' : 'replay (offline)'}\n`);
+
+  const runs: EvalRunSummary[] = [];
+
+  for (const target of targets) {
+    const rules = target.provider === 'local';
+
+    // Route the AI service to the right provider and recordings for this target. The
+    // rules target points at a directory with no recordings so it never replays anything.
+    process.env.AI_RECORDINGS_DIR = recordingsDirFor(target.provider, target.model);
+    if (rules) {
+      process.env.AI_PROVIDER = 'local';
+      delete process.env.AI_REPLAY_ONLY;
+      delete process.env.AI_RECORD_RESPONSES;
+    } else if (record) {
+      if (!AI_PROVIDERS[target.provider].isConfigured()) {
+        console.error(`❌ ${AI_PROVIDERS[target.provider].name} is not configured, skipping ${target.model}`);
+        continue;
+      }
+      delete process.env.AI_PROVIDER;
+      delete process.env.AI_REPLAY_ONLY;
+      process.env.AI_RECORD_RESPONSES = 'true';
+    } else {
+      process.env.AI_PROVIDER = 'local';
+      process.env.AI_REPLAY_ONLY = 'true';
+      delete process.env.AI_RECORD_RESPONSES;
+    }
+
+    for (const promptVersion of promptVersions) {
+      console.log(`▶️  ${target.provider}:${target.model} with ${COMPANY_INSIGHT_PROMPT} v${promptVersion}`);
+      const cases: EvalCaseResult[] = [];
+
+      for (const fixture of fixtures) {
+        const input = buildFixtureInput(fixture);
+
+        if (!rules && !record && !await loadRecording(buildInsightPrompt(input, {}, promptVersion).messages)) {
+          cases.push(unscoredCase(fixture.id, 'not_recorded'));
+          continue;
+        }
+
+        try {
+          const result = await aiService.generateCompanyInsight(input, {
+            promptVersion,
+            userId: 'evaluation',
+            settings: record ? { provider: target.provider, model: target.model, fallbackProviders: [] } : null
+          });
+          cases.push(scoreInsight(fixture, result, rules ? { provider: 'local', model: LOCAL_RULES_MODEL } : target));
+        } catch (error) {
+          cases.push(unscoredCase(fixture.id, 'error', error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+
+      const run = summariseRun(target, COMPANY_INSIGHT_PROMPT, promptVersion, cases, fixtures);
+      runs.push(run);
+      console.log(`   Scored ${run.scored}/${fixtures.length} - schema ${Math.round(run.schemaValidity * 100)}%, risk band ${Math.round(run.riskBandAccuracy * 100)}%, findings ${Math.round(run.findingsRecall * 100)}%, hallucinations ${Math.round(run.hallucinationRate * 100)}%, $${run.totalCostUSD.toFixed(4)}\n`);
+    }
+  }
+
+  const report = renderComparisonReport(runs, {
+    generatedAt,
+    mode: record ? 'record' : 'replay',
+    fixtureCount: fixtures.length,
+    rulesDate
+  });
+
+  await fs.mkdir(path.dirname(outFile), { recursive: true });
+  await fs.writeFile(outFile, `${report}\n`);
+  await fs.writeFile(`${outFile.replace(/\.md$/, '')}.json`, `${JSON.stringify({ generatedAt, rulesDate, runs }, null, 2)}\n`);
+
+  console.log(report);
+  console.log(`\n✅ Report written to ${path.relative(process.cwd(), outFile)}`);
+}
+
+evaluateAI().catch(error => {
+  console.error('\n❌ Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
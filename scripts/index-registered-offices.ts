@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+// Backfill the registered office address index for companies cached before it existed
+// Usage: npx tsx scripts/index-registered-offices.ts
+
+import { config } from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+config({ path: path.resolve(process.cwd(), '.env.local') });
+
+async function indexRegisteredOfficeAddresses() {
+  console.log('🏢 Indexing cached registered office addresses...\n');
+
+  // Dynamic import to ensure environment variables are loaded
+  const { indexRegisteredOffices } = await import('../lib/db/queries-nexus');
+  const { closeDatabaseConnection } = await import('../lib/db/drizzle');
+
+  try {
+    let total = 0;
+    let indexed: number;
+
+    do {
+      indexed = await indexRegisteredOffices(500);
+      total += indexed;
+      if (indexed > 0) console.log(`   Indexed ${total} companies`);
+    } while (indexed > 0);
+
+    console.log(`\n✅ Address index up to date (${total} companies indexed)`);
+  } catch (error) {
+    console.error('\n❌ Indexing failed:', error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  } finally {
+    await closeDatabaseConnection();
+  }
+}
+
+indexRegisteredOfficeAddresses().catch(console.error);
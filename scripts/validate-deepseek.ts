@@ -15,6 +15,11 @@ async function validateDeepSeekIntegration() {
   try {
     // Dynamic import to ensure environment variables are loaded
     const { deepSeekClient } = await import('../lib/ai/deepseek-client');
+    const { aiService } = await import('../lib/ai/ai-service');
+
+    // Analyses go through the AI service pinned to DeepSeek, with no failover, so they
+    // get the same prompt, schema validation and cost tracking as the app
+    const settings = { provider: 'deepseek' as const, fallbackProviders: [] };
 
     // Test 1: Health Check
     console.log('1️⃣ Testing AI API Connectivity...');
@@ -73,10 +78,10 @@ async function validateDeepSeekIntegration() {
     console.log(`   Company: ${mockCompanyData.company_name}`);
     console.log(`   Officers: ${mockOfficers.length} provided`);
 
-    const analysis = await deepSeekClient.analyzeCompany(
-      mockCompanyData,
-      mockOfficers,
+    const { insight: analysis, usage } = await aiService.generateCompanyInsight(
+      { profile: mockCompanyData as any, officers: mockOfficers as any },
       {
+        settings,
         includeRiskAnalysis: true,
         includeFinancialInsights: true,
         includeCompetitiveAnalysis: false,
@@ -86,6 +91,10 @@ async function validateDeepSeekIntegration() {
       }
     );
 
+    if (usage.provider !== 'deepseek') {
+      throw new Error(`Analysis ran on ${usage.provider} instead of DeepSeek - check AI_PROVIDER`);
+    }
+
     console.log('\n   📊 Analysis Results:');
     console.log(`   Summary: ${analysis.summary.substring(0, 100)}...`);
     console.log(`   Risk Score: ${analysis.riskScore}/100`);
@@ -96,6 +105,8 @@ async function validateDeepSeekIntegration() {
     console.log(`   Opportunities: ${analysis.opportunities.length} items`);
     console.log(`   Recommendations: ${analysis.recommendations.length} items`);
     console.log(`   Tokens Used: ${analysis.tokensUsed}`);
+    console.log(`   Validation: ${analysis.validation.status} (${analysis.validation.repairAttempts} repairs)`);
+    console.log(`   Prompt: ${analysis.prompt.id} v${analysis.prompt.version}`);
 
     // Display some specific insights
     if (analysis.keyFindings.length > 0) {
@@ -118,7 +129,7 @@ async function validateDeepSeekIntegration() {
 
     // Test 3: Cost Tracking
     console.log('3️⃣ Testing Cost Tracking...');
-    const costInfo = deepSeekClient.getCostTracking('validation-test');
+    const costInfo = aiService.getCostTracking('validation-test');
     
     if (costInfo) {
       console.log(`   Tokens Used: ${costInfo.tokensUsed.toLocaleString()}`);
@@ -129,7 +140,7 @@ async function validateDeepSeekIntegration() {
       console.log('   ⚠️  No cost tracking data found');
     }
 
-    const totalTracking = deepSeekClient.getTotalCostTracking();
+    const totalTracking = aiService.getTotalCostTracking();
     console.log(`   Total Users Tracked: ${totalTracking.totalUsers}`);
     console.log(`   Total Tokens: ${totalTracking.totalTokens.toLocaleString()}`);
     console.log(`   Total Estimated Cost: $${totalTracking.totalCostUSD.toFixed(6)}`);
@@ -141,10 +152,9 @@ async function validateDeepSeekIntegration() {
     
     try {
       // Test with invalid/empty data
-      await deepSeekClient.analyzeCompany(
-        null as any,
-        [],
-        { userId: 'error-test', maxTokens: 10 }
+      await aiService.generateCompanyInsight(
+        { profile: null as any, officers: [] },
+        { settings, userId: 'error-test', maxTokens: 10 }
       );
       console.log('   ⚠️  Expected error for invalid data, but got success');
     } catch (error) {
@@ -154,10 +164,10 @@ async function validateDeepSeekIntegration() {
     // Test 5: Different Analysis Options
     console.log('\n5️⃣ Testing Analysis Options...');
     
-    const quickAnalysis = await deepSeekClient.analyzeCompany(
-      mockCompanyData,
-      [],
+    const { insight: quickAnalysis } = await aiService.generateCompanyInsight(
+      { profile: mockCompanyData as any, officers: [] },
       {
+        settings,
         includeRiskAnalysis: false,
         includeFinancialInsights: false,
         includeCompetitiveAnalysis: true,
@@ -180,7 +190,7 @@ async function validateDeepSeekIntegration() {
     console.log('✅ Analysis Options: Working');
     
     // Final cost summary
-    const finalCost = deepSeekClient.getTotalCostTracking();
+    const finalCost = aiService.getTotalCostTracking();
     console.log(`\n💰 Total Cost During Validation: $${finalCost.totalCostUSD.toFixed(6)}`);
     console.log(`🔢 Total Tokens Used: ${finalCost.totalTokens.toLocaleString()}`);
 
@@ -34,12 +34,11 @@ async function validateGraphIntegration() {
     console.log(`   Max Hops: ${maxHops}`);
     console.log(`   Filters: Officers=${filters.showOfficers}, PSCs=${filters.showPSCs}`);
 
-    const graphData = await networkBuilder.buildNetwork(
-      testCompanyNumber,
+    const graphData = await networkBuilder.buildNetwork(testCompanyNumber, {
       maxHops,
       filters,
-      'validation-test'
-    );
+      rateLimitKey: 'validation-test'
+    });
 
     console.log(`   ✅ Network built successfully`);
     console.log(`   Nodes: ${graphData.nodes.length}`);
@@ -70,7 +69,7 @@ async function validateGraphIntegration() {
 
     // Test 2: Network Analysis
     console.log('\n2️⃣ Testing Network Analysis...');
-    const analysis = networkBuilder.analyzeNetwork();
+    const analysis = networkBuilder.analyzeNetwork(graphData);
     
     console.log(`   Total Nodes: ${analysis.totalNodes}`);
     console.log(`   Total Edges: ${analysis.totalEdges}`);
@@ -128,12 +127,11 @@ async function validateGraphIntegration() {
     ];
 
     for (const filterTest of testFilters) {
-      const testResult = await networkBuilder.buildNetwork(
-        testCompanyNumber,
-        1, // Smaller hop to speed up testing
-        { ...filters, ...filterTest },
-        'filter-test'
-      );
+      const testResult = await networkBuilder.buildNetwork(testCompanyNumber, {
+        maxHops: 1, // Smaller hop to speed up testing
+        filters: { ...filters, ...filterTest },
+        rateLimitKey: 'filter-test'
+      });
       
       console.log(`   ${filterTest.name}: ${testResult.nodes.length} nodes, ${testResult.edges.length} edges`);
     }
@@ -144,12 +142,11 @@ async function validateGraphIntegration() {
     console.log('5️⃣ Testing Error Handling...');
     
     try {
-      await networkBuilder.buildNetwork(
-        'INVALID_COMPANY',
-        2,
+      await networkBuilder.buildNetwork('INVALID_COMPANY', {
+        maxHops: 2,
         filters,
-        'error-test'
-      );
+        rateLimitKey: 'error-test'
+      });
       console.log('   ⚠️  Expected error for invalid company, but got success');
     } catch (error) {
       if (error instanceof Error && error.message.includes('Not Found')) {
@@ -163,12 +160,11 @@ async function validateGraphIntegration() {
     console.log('\n6️⃣ Testing Performance...');
     const startTime = Date.now();
     
-    await networkBuilder.buildNetwork(
-      testCompanyNumber,
-      1, // Small network for performance test
-      { ...filters, showAddresses: true },
-      'performance-test'
-    );
+    await networkBuilder.buildNetwork(testCompanyNumber, {
+      maxHops: 1, // Small network for performance test
+      filters: { ...filters, showAddresses: true },
+      rateLimitKey: 'performance-test'
+    });
     
     const endTime = Date.now();
     const duration = endTime - startTime;
@@ -48,7 +48,8 @@ CREATE TABLE IF NOT EXISTS teams (
   stripe_product_id TEXT,
   plan_id INTEGER REFERENCES plans(id),
   plan_name VARCHAR(50),
-  subscription_status VARCHAR(20)
+  subscription_status VARCHAR(20),
+  ai_settings JSONB -- preferred AI provider, model and failover order
 );
 
 -- UK Companies data from Companies House
@@ -60,12 +61,15 @@ CREATE TABLE companies (
   type VARCHAR(100),
   incorporation_date DATE,
   registered_office JSONB,
+  registered_office_key VARCHAR(500), -- normalised building key for address matching
+  registered_office_postcode VARCHAR(10),
   sic_codes JSONB, -- array of SIC codes
   last_ch_sync TIMESTAMP WITH TIME ZONE,
   companies_house_data JSONB, -- raw API response
+  charges_data JSONB, -- charges register and outstanding-charges summary
   ai_summary TEXT,
   ai_risk_score NUMERIC(5,2), -- 0-100
-  ai_insights JSONB, -- confidence, caveats, prompt_version, etc
+  ai_insights JSONB, -- CompanyInsight, with its prompt stamp (id, version, hash, parameters) and validation
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -173,10 +177,54 @@ CREATE TABLE IF NOT EXISTS invitations (
   status VARCHAR(20) NOT NULL DEFAULT 'pending'
 );
 
+-- Saved network graph snapshots, shared within a team
+CREATE TABLE IF NOT EXISTS saved_network_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  root_company_number VARCHAR(20) NOT NULL,
+  graph_data JSONB NOT NULL,
+  analysis JSONB,
+  filters JSONB NOT NULL,
+  layout JSONB NOT NULL,
+  viewport JSONB,
+  annotations JSONB NOT NULL DEFAULT '[]',
+  share_token VARCHAR(64) UNIQUE,
+  snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Analyst decisions on officer entity-resolution matches
+CREATE TABLE IF NOT EXISTS officer_match_decisions (
+  id SERIAL PRIMARY KEY,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  officer_node_id VARCHAR(100) NOT NULL,
+  matched_node_id VARCHAR(100) NOT NULL,
+  decision VARCHAR(20) NOT NULL,
+  confidence NUMERIC(4,3),
+  note TEXT,
+  decided_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT unique_team_officer_pair UNIQUE(team_id, officer_node_id, matched_node_id)
+);
+
+-- Columns added after the initial schema. CREATE TABLE IF NOT EXISTS skips existing
+-- tables, so databases created before these columns need them added here.
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS charges_data JSONB;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS registered_office_key VARCHAR(500);
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS registered_office_postcode VARCHAR(10);
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS ai_settings JSONB;
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_companies_company_number ON companies(company_number);
 CREATE INDEX IF NOT EXISTS idx_companies_company_name ON companies USING GIN(to_tsvector('english', company_name));
 CREATE INDEX IF NOT EXISTS idx_companies_ai_risk_score ON companies(ai_risk_score) WHERE ai_risk_score IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_companies_registered_office_key ON companies(registered_office_key) WHERE registered_office_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_companies_registered_office_postcode ON companies(registered_office_postcode) WHERE registered_office_postcode IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_company_officers_company_id ON company_officers(company_id);
 CREATE INDEX IF NOT EXISTS idx_company_officers_name ON company_officers USING GIN(to_tsvector('english', name));
 CREATE INDEX IF NOT EXISTS idx_search_history_user_created ON search_history(user_id, created_at DESC);
@@ -184,6 +232,7 @@ CREATE INDEX IF NOT EXISTS idx_quota_counters_user_period ON quota_counters(user
 CREATE INDEX IF NOT EXISTS idx_quota_counters_team_period ON quota_counters(team_id, period_start, period_end);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_timestamp ON audit_logs(user_id, timestamp);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_action_timestamp ON audit_logs(action, timestamp);
+CREATE INDEX IF NOT EXISTS idx_saved_network_views_team_created ON saved_network_views(team_id, created_at DESC);
 
 -- Enable Row Level Security (RLS) on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -197,6 +246,8 @@ ALTER TABLE quota_counters ENABLE ROW LEVEL SECURITY;
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE activity_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_network_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE officer_match_decisions ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies for Users table
 CREATE POLICY "Users can view own profile" ON users FOR SELECT USING (auth.uid()::text = id::text);